@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { EventAccessGate } from "@/components/EventAccessGate";
 import Index from "./pages/Index";
 import AdminLogin from "./pages/AdminLogin";
 import AdminDashboard from "./pages/AdminDashboard";
@@ -13,6 +14,7 @@ import EventHome from "./pages/EventHome";
 import EventProgram from "./pages/EventProgram";
 import EventParticipants from "./pages/EventParticipants";
 import EventExhibitors from "./pages/EventExhibitors";
+import EventExhibitor from "./pages/EventExhibitor";
 import EventMap from "./pages/EventMap";
 import EventInfo from "./pages/EventInfo";
 import EventSponsors from "./pages/EventSponsors";
@@ -33,13 +35,17 @@ const App = () => (
             <Route path="/admin/dashboard" element={<AdminDashboard />} />
             <Route path="/admin/users" element={<UserManagement />} />
             <Route path="/admin/events/:id" element={<EventEditor />} />
-            <Route path="/events/:slug" element={<EventHome />} />
-            <Route path="/events/:slug/program" element={<EventProgram />} />
-            <Route path="/events/:slug/participants" element={<EventParticipants />} />
-            <Route path="/events/:slug/exhibitors" element={<EventExhibitors />} />
-            <Route path="/events/:slug/map" element={<EventMap />} />
-            <Route path="/events/:slug/info" element={<EventInfo />} />
-            <Route path="/events/:slug/leverandorer" element={<EventSponsors />} />
+            <Route path="/events/:slug" element={<EventAccessGate />}>
+              <Route index element={<EventHome />} />
+              <Route path="program" element={<EventProgram />} />
+              <Route path="program/:itemId" element={<EventProgram />} />
+              <Route path="participants" element={<EventParticipants />} />
+              <Route path="exhibitors" element={<EventExhibitors />} />
+              <Route path="exhibitors/:id" element={<EventExhibitor />} />
+              <Route path="map" element={<EventMap />} />
+              <Route path="info" element={<EventInfo />} />
+              <Route path="leverandorer" element={<EventSponsors />} />
+            </Route>
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
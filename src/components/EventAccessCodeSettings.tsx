@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+interface EventAccessCodeSettingsProps {
+  eventId: string;
+}
+
+export function EventAccessCodeSettings({ eventId }: EventAccessCodeSettingsProps) {
+  const [code, setCode] = useState('');
+  const [savedCode, setSavedCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const { data, error } = await supabase
+        .from('event_private_settings')
+        .select('event_access_code')
+        .eq('event_id', eventId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching access code:', error);
+      } else {
+        setCode(data?.event_access_code ?? '');
+        setSavedCode(data?.event_access_code ?? '');
+      }
+      setLoading(false);
+    };
+    fetchSettings();
+  }, [eventId]);
+
+  const saveCode = async () => {
+    setSaving(true);
+    const next = code.trim() || null;
+    const { error } = await supabase
+      .from('event_private_settings')
+      .upsert({ event_id: eventId, event_access_code: next });
+
+    if (error) {
+      console.error('Error saving access code:', error);
+      toast.error('Kunne ikke lagre tilgangskoden');
+    } else {
+      setSavedCode(next ?? '');
+      toast.success(next ? 'Tilgangskoden er lagret' : 'Tilgangskoden er fjernet');
+    }
+    setSaving(false);
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="space-y-2 pl-6">
+      <Label htmlFor="event_access_code">Tilgangskode</Label>
+      <div className="flex gap-2">
+        <Input
+          id="event_access_code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="f.eks. MEDLEM2026"
+        />
+        <Button type="button" variant="outline" onClick={saveCode} disabled={saving || code.trim() === savedCode}>
+          Lagre kode
+        </Button>
+      </div>
+      {!savedCode ? (
+        <p className="text-sm text-amber-700 dark:text-amber-400">
+          Uten tilgangskode kan ingen åpne arrangementet.
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Store og små bokstaver spiller ingen rolle. Endrer du koden, må alle skrive inn den nye, og kalenderabonnementer på programmet slutter å virke.
+        </p>
+      )}
+    </div>
+  );
+}
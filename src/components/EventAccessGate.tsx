@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { Outlet, useParams, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { MEFLogo } from '@/components/MEFLogo';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Eye, Loader2, Lock } from 'lucide-react';
+import {
+  PREVIEW_PARAM,
+  accessCodeErrorMessage,
+  clearEventAccessToken,
+  clearEventPreviewToken,
+  getEventAccessToken,
+  getEventPreviewToken,
+  saveEventAccessToken,
+  saveEventPreviewToken,
+  withEventAccess,
+} from '@/lib/eventAccess';
+
+interface EventAccess {
+  event_id: string;
+  name: string;
+  access_protected: boolean;
+  unlisted: boolean;
+  granted: boolean;
+  preview: boolean;
+}
+
+// Keeps unlisted, closed and previewed events out of search engines while their pages are open
+function useNoIndex(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+    const meta = document.createElement('meta');
+    meta.name = 'robots';
+    meta.content = 'noindex, nofollow';
+    document.head.appendChild(meta);
+    return () => meta.remove();
+  }, [enabled]);
+}
+
+/**
+ * Wraps the public pages of an event. Closed events ask for the access code once per device;
+ * the pages themselves only get data once the server has accepted the code. A preview link
+ * (?preview=<token>) opens the event for the rest of the tab, published or not.
+ */
+export function EventAccessGate() {
+  const { slug } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [access, setAccess] = useState<EventAccess | null>(null);
+  const [previewExpired, setPreviewExpired] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    fetchAccess();
+  }, [slug]);
+
+  useNoIndex(!!access && (access.unlisted || access.access_protected || access.preview));
+
+  const fetchAccess = async () => {
+    setLoading(true);
+
+    // Move the token from the link into the tab, so it does not end up in copied addresses
+    const linkToken = searchParams.get(PREVIEW_PARAM);
+    if (linkToken) {
+      saveEventPreviewToken(slug!, linkToken);
+      searchParams.delete(PREVIEW_PARAM);
+      setSearchParams(searchParams, { replace: true });
+    }
+
+    const { data } = await withEventAccess(supabase.rpc('get_event_access', { _slug: slug! }), slug);
+    const row = data?.[0] ?? null;
+
+    const hadPreview = !!getEventPreviewToken(slug);
+    if (hadPreview && !row?.preview) {
+      clearEventPreviewToken(slug!);
+    }
+    setPreviewExpired(hadPreview && !row);
+
+    // A token that no longer works, e.g. after the code was changed, is of no use
+    if (row && !row.granted && getEventAccessToken(slug)) {
+      clearEventAccessToken(slug!);
+    }
+    setAccess(row);
+    setLoading(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!slug || !code.trim()) return;
+
+    setChecking(true);
+    const { data, error } = await supabase.functions.invoke('event-access', { body: { slug, code: code.trim() } });
+    if (error || !data?.token) {
+      setCodeError(accessCodeErrorMessage(error));
+      setChecking(false);
+      return;
+    }
+
+    saveEventAccessToken(slug, data.token, data.expiresAt);
+    setCode('');
+    setChecking(false);
+    fetchAccess();
+  };
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center">Laster...</div>;
+  }
+
+  if (previewExpired) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">Forhåndsvisningen er utløpt</h1>
+          <p className="text-muted-foreground">Be arrangøren om en ny lenke.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (access?.preview) {
+    return (
+      <>
+        <div className="bg-amber-100 text-amber-900 dark:bg-amber-950 dark:text-amber-100 text-sm px-4 py-2 flex items-center justify-center gap-2">
+          <Eye className="h-4 w-4" />
+          Forhåndsvisning – innholdet er ikke nødvendigvis publisert
+        </div>
+        <Outlet />
+      </>
+    );
+  }
+
+  // Unknown and open events go straight to the page, which handles "not found" itself
+  if (!access || access.granted) {
+    return <Outlet />;
+  }
+
+  return (
+    <div className="min-h-screen bg-secondary/20 flex flex-col items-center justify-center p-4">
+      <MEFLogo className="h-12 mb-6" />
+      <Card className="w-full max-w-sm">
+        <CardContent className="py-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-1 text-center">
+              <h1 className="text-xl font-bold">{access.name}</h1>
+              <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                <Lock className="h-4 w-4" />
+                Arrangementet er lukket
+              </p>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Skriv inn tilgangskoden du har fått fra arrangøren. Du blir husket på denne enheten.
+            </p>
+            <Input
+              value={code}
+              onChange={(e) => { setCode(e.target.value); setCodeError(null); }}
+              placeholder="Tilgangskode"
+              aria-invalid={!!codeError}
+              autoFocus
+            />
+            {codeError && <p className="text-sm text-destructive">{codeError}</p>}
+            <Button type="submit" className="w-full" disabled={checking || !code.trim()}>
+              {checking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Åpne
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { codesToSetAfterRestore, parseEventBundle, restoreEventBundle, type EventBundle } from '@/lib/eventExport';
+
+interface EventBundleImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string | undefined;
+  onImported: (eventId: string) => void;
+}
+
+export function EventBundleImportDialog({ open, onOpenChange, userId, onImported }: EventBundleImportDialogProps) {
+  const [bundle, setBundle] = useState<EventBundle | null>(null);
+  const [name, setName] = useState('');
+  const [slug, setSlug] = useState('');
+  const [importing, setImporting] = useState(false);
+  const missingCodes = bundle ? codesToSetAfterRestore(bundle) : [];
+
+  const reset = () => {
+    setBundle(null);
+    setName('');
+    setSlug('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = parseEventBundle(JSON.parse(await file.text()));
+      setBundle(parsed);
+      setName(parsed.event.name);
+      // The original slug is most likely still taken
+      setSlug(`${parsed.event.slug}-kopi`);
+    } catch (err) {
+      reset();
+      toast.error(err instanceof SyntaxError ? 'Filen er ikke gyldig JSON' : err instanceof Error ? err.message : 'Kunne ikke lese filen');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!bundle || !name.trim() || !slug.trim()) return;
+
+    setImporting(true);
+    try {
+      const eventId = await restoreEventBundle(bundle, {
+        slug: slug.toLowerCase().replace(/\s+/g, '-'),
+        name: name.trim(),
+        createdBy: userId,
+      });
+      toast.success('Arrangement gjenopprettet', {
+        description: missingCodes.length > 0
+          ? 'Det er ikke publisert ennå. Husk å sette nye tilgangskoder.'
+          : 'Det er ikke publisert ennå.',
+      });
+      reset();
+      onImported(eventId);
+    } catch (err) {
+      console.error('Bundle import error:', err);
+      const message = err && typeof err === 'object' && 'code' in err && err.code === '23505'
+        ? 'URL-slugen er allerede i bruk'
+        : err instanceof Error ? err.message : undefined;
+      toast.error('Kunne ikke gjenopprette arrangementet', { description: message });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!importing) { if (!next) reset(); onOpenChange(next); } }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Gjenopprett arrangement</DialogTitle>
+          <DialogDescription>
+            Velg en komplett eksport (JSON). Arrangementet opprettes som et nytt, upublisert arrangement med egen URL.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input type="file" accept=".json,application/json" onChange={handleFile} disabled={importing} />
+
+          {bundle && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Eksportert {new Date(bundle.exported_at).toLocaleString('nb-NO')}: {bundle.program_items?.length ?? 0} programposter,{' '}
+                {bundle.participants?.length ?? 0} deltakere, {bundle.exhibitors?.length ?? 0} utstillere.
+              </p>
+              {missingCodes.length > 0 && (
+                <p className="text-sm text-amber-700 dark:text-amber-400">
+                  Tilgangskoder blir ikke med i eksporten.{' '}
+                  {missingCodes.includes('event') && 'Arrangementet er lukket og kan ikke åpnes før du setter en ny tilgangskode. '}
+                  {missingCodes.includes('participants') && 'Deltakerlisten krever kode; sett en ny kode for den også.'}
+                </p>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="import_name">Navn</Label>
+                <Input id="import_name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import_slug">Ny URL-slug</Label>
+                <Input
+                  id="import_slug"
+                  value={slug}
+                  onChange={(e) => setSlug(e.target.value.toLowerCase().replace(/\s+/g, '-'))}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => { reset(); onOpenChange(false); }} disabled={importing}>
+            Avbryt
+          </Button>
+          <Button onClick={handleImport} disabled={!bundle || !name.trim() || !slug.trim() || importing}>
+            {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Gjenopprett
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { SheetConfig } from '@shared/sheetColumns';
+import { SYNC_MODULE_LABELS } from '@/lib/sheetSync';
+import {
+  EXPORT_MODULES,
+  downloadBlob,
+  fetchEventBundle,
+  fetchExportSheet,
+  sheetToCsv,
+  sheetsToXlsx,
+  type ExportModule,
+} from '@/lib/eventExport';
+
+interface EventExportCardProps {
+  eventId: string;
+  slug: string;
+  sheetConfig: SheetConfig;
+}
+
+export function EventExportCard({ eventId, slug, sheetConfig }: EventExportCardProps) {
+  // Which export is running: a module name, 'xlsx' or 'bundle'
+  const [exporting, setExporting] = useState<string | null>(null);
+
+  const runExport = async (key: string, action: () => Promise<void>) => {
+    setExporting(key);
+    try {
+      await action();
+    } catch (e) {
+      console.error('Export error:', e);
+      toast.error('Kunne ikke eksportere', { description: e instanceof Error ? e.message : undefined });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleCsv = (module: ExportModule) => runExport(module, async () => {
+    const sheet = await fetchExportSheet(eventId, module, sheetConfig);
+    // BOM so Excel opens æøå correctly
+    downloadBlob(new Blob(['\uFEFF', sheetToCsv(sheet)], { type: 'text/csv;charset=utf-8' }), `${slug}-${sheet.tab}.csv`);
+  });
+
+  const handleXlsx = () => runExport('xlsx', async () => {
+    const sheets = await Promise.all(EXPORT_MODULES.map((module) => fetchExportSheet(eventId, module, sheetConfig)));
+    downloadBlob(await sheetsToXlsx(sheets), `${slug}.xlsx`);
+  });
+
+  const handleBundle = () => runExport('bundle', async () => {
+    const bundle = await fetchEventBundle(eventId);
+    const date = bundle.exported_at.slice(0, 10);
+    downloadBlob(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }), `${slug}-${date}.json`);
+  });
+
+  const spinner = (key: string) => exporting === key && <Loader2 className="mr-2 h-4 w-4 animate-spin" />;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Eksport</CardTitle>
+        <CardDescription>
+          Last ned data for arkivering, til lokalet eller som sikkerhetskopi før en synkronisering.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            CSV og Excel har samme kolonner som regnearket, så filene kan importeres igjen.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {EXPORT_MODULES.map((module) => (
+              <Button key={module} variant="outline" size="sm" onClick={() => handleCsv(module)} disabled={!!exporting}>
+                {spinner(module) || <Download className="mr-2 h-4 w-4" />}
+                {SYNC_MODULE_LABELS[module]} (CSV)
+              </Button>
+            ))}
+            <Button variant="outline" size="sm" onClick={handleXlsx} disabled={!!exporting}>
+              {spinner('xlsx') || <Download className="mr-2 h-4 w-4" />}
+              Alle moduler (Excel)
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Komplett eksport tar med innstillinger, praktisk info, leverandører og kart. Den kan gjenopprettes som et nytt arrangement fra oversikten.
+          </p>
+          <Button variant="outline" size="sm" onClick={handleBundle} disabled={!!exporting}>
+            {spinner('bundle') || <Download className="mr-2 h-4 w-4" />}
+            Komplett eksport (JSON)
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
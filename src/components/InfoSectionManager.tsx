@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Pencil, Trash2, Plus, Upload, X } from 'lucide-react';
 import { toast } from 'sonner';
+import { formatDateTime, fromDateTimeLocal, getPublishState, toDateTimeLocal } from '@/lib/dateUtils';
 import ReactQuill from 'react-quill';
 import 'react-quill/dist/quill.snow.css';
 
@@ -17,6 +18,22 @@ interface InfoSection {
   content: string;
   order_index: number;
   image_url: string | null;
+  external_id: string | null;
+  publish_at: string | null;
+  unpublish_at: string | null;
+}
+
+// When a card is shown, for the list in the editor
+function describeWindow(section: InfoSection): string | null {
+  const state = getPublishState(section);
+  if (state === 'scheduled') {
+    return section.unpublish_at
+      ? `Vises ${formatDateTime(section.publish_at!)} – ${formatDateTime(section.unpublish_at)}`
+      : `Vises fra ${formatDateTime(section.publish_at!)}`;
+  }
+  if (state === 'ended') return `Skjult siden ${formatDateTime(section.unpublish_at!)}`;
+  if (section.unpublish_at) return `Vises til ${formatDateTime(section.unpublish_at)}`;
+  return null;
 }
 
 interface InfoSectionManagerProps {
@@ -38,6 +55,9 @@ export function InfoSectionManager({ eventId }: InfoSectionManagerProps) {
     content: '',
     order_index: 0,
     image_url: null as string | null,
+    // datetime-local values
+    publish_at: '',
+    unpublish_at: '',
   });
 
   useEffect(() => {
@@ -65,6 +85,8 @@ export function InfoSectionManager({ eventId }: InfoSectionManagerProps) {
         content: section.content,
         order_index: section.order_index,
         image_url: section.image_url ?? null,
+        publish_at: toDateTimeLocal(section.publish_at),
+        unpublish_at: toDateTimeLocal(section.unpublish_at),
       });
     } else {
       setEditingSection(null);
@@ -73,6 +95,8 @@ export function InfoSectionManager({ eventId }: InfoSectionManagerProps) {
         content: '',
         order_index: sections.length,
         image_url: null,
+        publish_at: '',
+        unpublish_at: '',
       });
     }
     setDialogOpen(true);
@@ -124,12 +148,21 @@ export function InfoSectionManager({ eventId }: InfoSectionManagerProps) {
       return;
     }
 
+    if (formData.publish_at && formData.unpublish_at && formData.unpublish_at <= formData.publish_at) {
+      toast.error('«Vis til» må være etter «Vis fra»');
+      return;
+    }
+
     const sectionData = {
       event_id: eventId,
       title: formData.title,
       content: formData.content,
       order_index: formData.order_index,
       image_url: formData.image_url,
+      publish_at: fromDateTimeLocal(formData.publish_at),
+      unpublish_at: fromDateTimeLocal(formData.unpublish_at),
+      // The editor always produces HTML, also when the section came from the sheet as Markdown
+      content_format: 'html',
     };
 
     let error;
@@ -190,6 +223,11 @@ export function InfoSectionManager({ eventId }: InfoSectionManagerProps) {
         <CardTitle>Praktisk info</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {sections.some((section) => section.external_id) && (
+          <p className="text-sm text-muted-foreground">
+            Info-kortene hentes fra arket «Info» i Google Sheets. Endringer her blir overskrevet ved neste synkronisering.
+          </p>
+        )}
         {sections.length === 0 ? (
           <p className="text-sm text-muted-foreground">Ingen info-kort lagt til ennå</p>
         ) : (
@@ -206,6 +244,9 @@ export function InfoSectionManager({ eventId }: InfoSectionManagerProps) {
                   )}
                   <div>
                     <h4 className="font-bold text-lg">{section.title}</h4>
+                    {describeWindow(section) && (
+                      <p className="text-xs text-muted-foreground">{describeWindow(section)}</p>
+                    )}
                     <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
                       {section.content.substring(0, 100)}
                       {section.content.length > 100 && '...'}
@@ -334,6 +375,29 @@ export function InfoSectionManager({ eventId }: InfoSectionManagerProps) {
                   onChange={(e) => setFormData({ ...formData, order_index: parseInt(e.target.value) || 0 })}
                 />
               </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="publish_at">Vis fra (valgfritt)</Label>
+                  <Input
+                    id="publish_at"
+                    type="datetime-local"
+                    value={formData.publish_at}
+                    onChange={(e) => setFormData({ ...formData, publish_at: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="unpublish_at">Vis til (valgfritt)</Label>
+                  <Input
+                    id="unpublish_at"
+                    type="datetime-local"
+                    value={formData.unpublish_at}
+                    onChange={(e) => setFormData({ ...formData, unpublish_at: e.target.value })}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground sm:col-span-2">
+                  For kort som bare skal vises en del av arrangementet, f.eks. middagsinfo på dag to.
+                </p>
+              </div>
               <div className="flex gap-3 justify-end">
                 <Button variant="outline" onClick={() => setDialogOpen(false)}>
                   Avbryt
@@ -0,0 +1,272 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { EyeOff, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface RemovalRequest {
+  id: string;
+  name: string;
+  email: string;
+  message: string | null;
+  status: string;
+  external_id: string | null;
+  created_at: string;
+  handled_at: string | null;
+}
+
+interface Participant {
+  id: string;
+  name: string;
+  company: string | null;
+  external_id: string | null;
+  visible: boolean;
+}
+
+interface ParticipantPrivacyCardProps {
+  eventId: string;
+  directory: string;
+}
+
+// Matches shown when handling a request
+const MAX_MATCHES = 8;
+
+const STATUS_LABELS: Record<string, string> = {
+  done: 'Skjult',
+  rejected: 'Avvist',
+};
+
+export function ParticipantPrivacyCard({ eventId, directory }: ParticipantPrivacyCardProps) {
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<RemovalRequest[]>([]);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [accessCode, setAccessCode] = useState('');
+  const [savedCode, setSavedCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [handling, setHandling] = useState<RemovalRequest | null>(null);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, [eventId]);
+
+  const fetchData = async () => {
+    const [requestResult, participantResult, settingsResult] = await Promise.all([
+      supabase
+        .from('participant_removal_requests')
+        .select('id, name, email, message, status, external_id, created_at, handled_at')
+        .eq('event_id', eventId)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('participants')
+        .select('id, name, company, external_id, visible')
+        .eq('event_id', eventId)
+        .order('name', { ascending: true }),
+      supabase
+        .from('event_private_settings')
+        .select('participant_access_code')
+        .eq('event_id', eventId)
+        .maybeSingle(),
+    ]);
+
+    if (requestResult.error || participantResult.error || settingsResult.error) {
+      console.error('Error fetching participant privacy data:', requestResult.error || participantResult.error || settingsResult.error);
+      toast.error('Kunne ikke laste personverninnstillingene');
+    }
+    setRequests(requestResult.data || []);
+    setParticipants(participantResult.data || []);
+    setAccessCode(settingsResult.data?.participant_access_code || '');
+    setSavedCode(settingsResult.data?.participant_access_code || '');
+    setLoading(false);
+  };
+
+  const saveAccessCode = async () => {
+    setSaving(true);
+    const code = accessCode.trim() || null;
+    const { error } = await supabase
+      .from('event_private_settings')
+      .upsert({ event_id: eventId, participant_access_code: code });
+
+    if (error) {
+      console.error('Error saving access code:', error);
+      toast.error('Kunne ikke lagre tilgangskoden');
+    } else {
+      setSavedCode(code || '');
+      toast.success(code ? 'Tilgangskoden er lagret' : 'Tilgangskoden er fjernet');
+    }
+    setSaving(false);
+  };
+
+  const openHandling = (request: RemovalRequest) => {
+    setHandling(request);
+    setSearch(request.name);
+  };
+
+  const closeRequest = async (request: RemovalRequest, status: 'done' | 'rejected', participant?: Participant) => {
+    setSaving(true);
+    try {
+      if (participant) {
+        const { error } = await supabase.from('participants').update({ visible: false }).eq('id', participant.id);
+        if (error) throw error;
+      }
+
+      const { error } = await supabase
+        .from('participant_removal_requests')
+        .update({
+          status,
+          external_id: participant?.external_id ?? null,
+          handled_at: new Date().toISOString(),
+          handled_by: user?.id ?? null,
+        })
+        .eq('id', request.id);
+      if (error) throw error;
+
+      toast.success(status === 'done' ? `${participant?.name} er skjult fra deltakerlisten` : 'Forespørselen er avvist');
+      setHandling(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error handling removal request:', error);
+      toast.error('Kunne ikke behandle forespørselen');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return null;
+
+  const pending = requests.filter((request) => request.status === 'pending');
+  const handled = requests.filter((request) => request.status !== 'pending');
+  const hiddenCount = participants.filter((participant) => !participant.visible).length;
+
+  // Participants whose name contains every word searched for
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = participants
+    .filter((participant) => words.every((word) => participant.name.toLowerCase().includes(word)))
+    .slice(0, MAX_MATCHES);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Deltakerliste og personvern</CardTitle>
+        <CardDescription>
+          {participants.length} deltakere, {hiddenCount} skjult fra listen (uten samtykke i arket eller etter forespørsel).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {directory === 'access_code' && (
+          <div className="space-y-2">
+            <Label htmlFor="participant_access_code">Tilgangskode for deltakerlisten</Label>
+            <div className="flex gap-2">
+              <Input
+                id="participant_access_code"
+                value={accessCode}
+                onChange={(e) => setAccessCode(e.target.value)}
+                placeholder="f.eks. MEF2026"
+              />
+              <Button onClick={saveAccessCode} disabled={saving || accessCode.trim() === savedCode}>
+                Lagre
+              </Button>
+            </div>
+            {!savedCode && (
+              <p className="text-sm text-amber-700 dark:text-amber-400">
+                Uten tilgangskode kan ingen åpne deltakerlisten.
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">Del koden med deltakerne, f.eks. i påmeldingsbekreftelsen.</p>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <h4 className="font-semibold">Forespørsler om å bli fjernet</h4>
+          {pending.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Ingen ubehandlede forespørsler.</p>
+          ) : (
+            pending.map((request) => (
+              <div key={request.id} className="rounded-md border border-border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium">{request.name}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {request.email} · {new Date(request.created_at).toLocaleString('nb-NO', { dateStyle: 'short', timeStyle: 'short' })}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button size="sm" onClick={() => openHandling(request)} disabled={saving}>
+                      <EyeOff className="mr-2 h-4 w-4" />
+                      Skjul
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => closeRequest(request, 'rejected')} disabled={saving}>
+                      Avvis
+                    </Button>
+                  </div>
+                </div>
+                {request.message && <p className="text-sm whitespace-pre-line">{request.message}</p>}
+              </div>
+            ))
+          )}
+
+          {handled.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-muted-foreground">Behandlet</p>
+              {handled.map((request) => (
+                <div key={request.id} className="flex items-center justify-between text-sm">
+                  <span>{request.name}</span>
+                  <Badge variant="outline">{STATUS_LABELS[request.status] || request.status}</Badge>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            En skjult deltaker forblir skjult ved senere synkroniseringer, også om arket sier noe annet.
+          </p>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!handling} onOpenChange={(open) => !open && !saving && setHandling(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Skjul deltaker</DialogTitle>
+            <DialogDescription>
+              Velg hvem forespørselen fra {handling?.name} gjelder. Deltakeren skjules fra listen og telles ikke med i antallet.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Søk etter navn..." />
+            {matches.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-2">Ingen deltakere med det navnet.</p>
+            ) : (
+              matches.map((participant) => (
+                <Button
+                  key={participant.id}
+                  variant="outline"
+                  className="w-full justify-between"
+                  onClick={() => handling && closeRequest(handling, 'done', participant)}
+                  disabled={saving}
+                >
+                  <span>{participant.company ? `${participant.name} (${participant.company})` : participant.name}</span>
+                  {!participant.visible && <span className="text-xs text-muted-foreground">allerede skjult</span>}
+                </Button>
+              ))
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHandling(null)} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Avbryt
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { withEventAccess } from '@/lib/eventAccess';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ParticipantRemovalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  eventId: string;
+  eventSlug: string;
+}
+
+export function ParticipantRemovalDialog({ open, onOpenChange, eventId, eventSlug }: ParticipantRemovalDialogProps) {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const emailValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+
+  const handleSend = async () => {
+    if (!name.trim() || !emailValid) return;
+
+    setSending(true);
+    const { error } = await withEventAccess(
+      supabase.from('participant_removal_requests').insert({
+        event_id: eventId,
+        name: name.trim(),
+        email: email.trim(),
+        message: message.trim() || null,
+      }),
+      eventSlug
+    );
+    setSending(false);
+
+    if (error) {
+      console.error('Error sending removal request:', error);
+      toast.error('Kunne ikke sende forespørselen');
+      return;
+    }
+
+    toast.success('Forespørselen er sendt', { description: 'Arrangøren fjerner deg fra listen så snart som mulig.' });
+    setName('');
+    setEmail('');
+    setMessage('');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !sending && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Fjern meg fra deltakerlisten</DialogTitle>
+          <DialogDescription>
+            Arrangøren får beskjed og skjuler deg fra listen. E-postadressen brukes bare hvis arrangøren må ta kontakt om forespørselen.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="removal_name">Navn slik det står i listen</Label>
+            <Input id="removal_name" value={name} onChange={(e) => setName(e.target.value)} maxLength={200} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="removal_email">E-post</Label>
+            <Input id="removal_email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} maxLength={320} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="removal_message">Melding (valgfri)</Label>
+            <Textarea id="removal_message" value={message} onChange={(e) => setMessage(e.target.value)} maxLength={2000} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={sending}>
+            Avbryt
+          </Button>
+          <Button onClick={handleSend} disabled={!name.trim() || !emailValid || sending}>
+            {sending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Send forespørsel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Copy, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { createPreviewLink } from '@/lib/eventAccess';
+import { formatDateTime } from '@/lib/dateUtils';
+
+interface PreviewLinkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  eventId: string;
+  slug: string;
+}
+
+// How long a shared link stays valid; the database allows at most 7 days
+const VALIDITY_OPTIONS = [
+  { hours: 24, label: '1 døgn' },
+  { hours: 72, label: '3 døgn' },
+  { hours: 168, label: '7 døgn' },
+];
+
+export function PreviewLinkDialog({ open, onOpenChange, eventId, slug }: PreviewLinkDialogProps) {
+  const [validHours, setValidHours] = useState('72');
+  const [link, setLink] = useState<{ url: string; expiresAt: string } | null>(null);
+  const [activeLinks, setActiveLinks] = useState(0);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setLink(null);
+      fetchActiveLinks();
+    }
+  }, [open, eventId]);
+
+  const fetchActiveLinks = async () => {
+    const { count } = await supabase
+      .from('event_preview_tokens')
+      .select('token', { count: 'exact', head: true })
+      .eq('event_id', eventId)
+      .gt('expires_at', new Date().toISOString());
+    setActiveLinks(count ?? 0);
+  };
+
+  const handleCreate = async () => {
+    setWorking(true);
+    try {
+      const created = await createPreviewLink(eventId, slug, Number(validHours));
+      setLink(created);
+      navigator.clipboard.writeText(created.url);
+      toast.success('Lenken er kopiert');
+      fetchActiveLinks();
+    } catch (error) {
+      console.error('Error creating preview link:', error);
+      toast.error('Kunne ikke lage forhåndsvisningslenke');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    setWorking(true);
+    const { error } = await supabase.from('event_preview_tokens').delete().eq('event_id', eventId);
+    if (error) {
+      console.error('Error revoking preview links:', error);
+      toast.error('Kunne ikke trekke tilbake lenkene');
+    } else {
+      toast.success('Alle forhåndsvisningslenker er trukket tilbake');
+      setLink(null);
+      setActiveLinks(0);
+    }
+    setWorking(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Del forhåndsvisning</DialogTitle>
+          <DialogDescription>
+            Alle med lenken kan se arrangementet slik det ser ut nå, også før det er publisert og uten tilgangskode.
+            Nyttig når leverandører eller andre skal godkjenne innholdet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="preview_validity">Gyldig i</Label>
+              <Select value={validHours} onValueChange={setValidHours}>
+                <SelectTrigger id="preview_validity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VALIDITY_OPTIONS.map((option) => (
+                    <SelectItem key={option.hours} value={String(option.hours)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleCreate} disabled={working}>
+              {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Lag lenke
+            </Button>
+          </div>
+
+          {link && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Input value={link.url} readOnly className="font-mono text-xs" />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => {
+                    navigator.clipboard.writeText(link.url);
+                    toast.success('Lenken er kopiert');
+                  }}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">Gyldig til {formatDateTime(link.expiresAt)}.</p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={handleRevokeAll} disabled={working || activeLinks === 0}>
+            Trekk tilbake alle ({activeLinks})
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Lukk
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,84 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { MapPin, Radio } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { nowAndNext } from '@/lib/programSchedule';
+
+export interface NowNextItem {
+  id: string;
+  day: string;
+  start_time: string;
+  end_time: string | null;
+  title: string;
+  location: string | null;
+}
+
+interface ProgramNowNextProps<T extends NowNextItem> {
+  items: T[];
+  now: number;
+  // Makes the rows clickable, e.g. to open the item on the program page
+  onSelect?: (item: T) => void;
+  className?: string;
+}
+
+/**
+ * "Nå og neste": sessions in progress and the next session at each location. Renders nothing
+ * when there is neither, so it only shows up while the event is on.
+ */
+export function ProgramNowNext<T extends NowNextItem>({ items, now, onSelect, className }: ProgramNowNextProps<T>) {
+  const { current, next } = nowAndNext(items, now);
+  if (current.length === 0 && next.length === 0) return null;
+
+  const renderRow = (item: T, label: string) => (
+    <li key={item.id}>
+      <button
+        type="button"
+        disabled={!onSelect}
+        onClick={() => onSelect?.(item)}
+        className={cn('w-full text-left flex items-start gap-3 rounded-md px-2 py-1.5', onSelect && 'hover:bg-accent')}
+      >
+        <span className="text-sm text-muted-foreground shrink-0" style={{ minWidth: '82px' }}>
+          {label}
+        </span>
+        <span className="flex-1 min-w-0">
+          <span className="block font-medium">{item.title}</span>
+          {item.location && (
+            <span className="flex items-center gap-1 text-sm text-muted-foreground">
+              <MapPin className="h-3 w-3" />
+              {item.location}
+            </span>
+          )}
+        </span>
+      </button>
+    </li>
+  );
+
+  return (
+    <Card className={cn('border-primary/40', className)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Radio className="h-5 w-5 text-primary" />
+          Nå og neste
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {current.length > 0 && (
+          <div>
+            <Badge className="mb-1">Pågår nå</Badge>
+            <ul>
+              {current.map((item) => renderRow(item, item.end_time ? `til ${item.end_time.slice(0, 5)}` : `fra ${item.start_time.slice(0, 5)}`))}
+            </ul>
+          </div>
+        )}
+        {next.length > 0 && (
+          <div>
+            <Badge variant="secondary" className="mb-1">Neste</Badge>
+            <ul>
+              {next.map((item) => renderRow(item, item.start_time.slice(0, 5)))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Download, Printer } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDay } from '@shared/dateNormalization';
+
+interface ProgramQrDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  eventId: string;
+  slug: string;
+}
+
+interface QrItem {
+  id: string;
+  day: string;
+  start_time: string;
+  end_time: string | null;
+  title: string;
+  location: string | null;
+}
+
+const ALL_LOCATIONS = '__all__';
+
+const itemUrl = (slug: string, itemId: string) => `${window.location.origin}/events/${slug}/program/${itemId}`;
+
+const itemWhen = (item: QrItem) =>
+  `${formatDay(item.day)} ${item.start_time.slice(0, 5)}${item.end_time ? `–${item.end_time.slice(0, 5)}` : ''}`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** QR codes pointing to each program item's own page, to print and put up by the door of each room */
+export function ProgramQrDialog({ open, onOpenChange, eventId, slug }: ProgramQrDialogProps) {
+  const [items, setItems] = useState<QrItem[]>([]);
+  const [location, setLocation] = useState(ALL_LOCATIONS);
+
+  useEffect(() => {
+    if (open) {
+      fetchItems();
+    }
+  }, [open, eventId]);
+
+  const fetchItems = async () => {
+    const { data, error } = await supabase
+      .from('program_items')
+      .select('id, day, start_time, end_time, title, location')
+      .eq('event_id', eventId)
+      .order('day', { ascending: true })
+      .order('start_time', { ascending: true });
+    if (error) {
+      console.error('Error fetching program items:', error);
+      toast.error('Kunne ikke laste programmet');
+      return;
+    }
+    setItems(data || []);
+  };
+
+  const locations = [...new Set(items.map((item) => item.location?.trim()).filter((l): l is string => !!l))]
+    .sort((a, b) => a.localeCompare(b, 'no'));
+  const shownItems = location === ALL_LOCATIONS ? items : items.filter((item) => item.location?.trim() === location);
+
+  const handleDownload = async (item: QrItem) => {
+    try {
+      const dataUrl = await QRCode.toDataURL(itemUrl(slug, item.id), { width: 600, margin: 2 });
+      const link = document.createElement('a');
+      link.href = dataUrl;
+      link.download = `${slug}-${item.day}-${item.start_time.slice(0, 5).replace(':', '')}-qr.png`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error) {
+      console.error('Error generating QR code:', error);
+      toast.error('Kunne ikke generere QR-kode');
+    }
+  };
+
+  // One sign per page: title, time and place above a large QR code
+  const handlePrint = async () => {
+    // Opened before the await, or the browser treats it as a popup
+    const printWindow = window.open('', '_blank');
+    try {
+      const signs = await Promise.all(shownItems.map(async (item) => {
+        const dataUrl = await QRCode.toDataURL(itemUrl(slug, item.id), { width: 800, margin: 2 });
+        return `<section class="sign">
+  <h1>${escapeHtml(item.title)}</h1>
+  <p>${escapeHtml(itemWhen(item))}${item.location ? ` · ${escapeHtml(item.location)}` : ''}</p>
+  <img src="${dataUrl}" alt="">
+  <p class="hint">Skann for detaljer, kalender og deling</p>
+</section>`;
+      }));
+      const html = `<!doctype html>
+<html lang="no"><head><meta charset="utf-8"><title>QR-koder</title>
+<style>
+  @page { size: A4; margin: 20mm; }
+  body { font-family: system-ui, sans-serif; margin: 0; text-align: center; }
+  .sign { page-break-after: always; padding-top: 10mm; }
+  .sign:last-child { page-break-after: auto; }
+  h1 { font-size: 30pt; margin: 0 0 4mm; }
+  p { font-size: 16pt; margin: 0 0 8mm; color: #444; }
+  img { width: 120mm; height: 120mm; }
+  .hint { font-size: 12pt; margin-top: 6mm; }
+</style></head>
+<body>${signs.join('\n')}<script>window.onload = () => window.print();</script></body></html>`;
+      const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+      if (printWindow) {
+        printWindow.location.href = url;
+      } else {
+        window.open(url, '_blank');
+      }
+    } catch (error) {
+      printWindow?.close();
+      console.error('Error generating QR codes:', error);
+      toast.error('Kunne ikke generere QR-koder');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>QR-koder for programposter</DialogTitle>
+          <DialogDescription>
+            Hver programpost har sin egen side. Skriv ut QR-kodene og heng dem ved døren, så kan deltakerne
+            se detaljene, legge posten i kalenderen eller dele den.
+          </DialogDescription>
+        </DialogHeader>
+
+        {locations.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="qr_location">Sted</Label>
+            <Select value={location} onValueChange={setLocation}>
+              <SelectTrigger id="qr_location">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_LOCATIONS}>Alle steder</SelectItem>
+                {locations.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto divide-y divide-border">
+          {shownItems.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">Ingen programposter</p>
+          ) : (
+            shownItems.map((item) => (
+              <div key={item.id} className="flex items-center gap-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{item.title}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {itemWhen(item)}
+                    {item.location && ` · ${item.location}`}
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleDownload(item)}>
+                  <Download className="mr-2 h-4 w-4" />
+                  PNG
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Lukk
+          </Button>
+          <Button onClick={handlePrint} disabled={shownItems.length === 0}>
+            <Printer className="mr-2 h-4 w-4" />
+            Skriv ut ({shownItems.length})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
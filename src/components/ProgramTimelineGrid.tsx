@@ -0,0 +1,175 @@
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { itemStatus, layoutTimeline, osloClock } from '@/lib/programSchedule';
+
+export interface TimelineItem {
+  id: string;
+  day: string;
+  start_time: string;
+  end_time: string | null;
+  title: string;
+  location: string | null;
+  category: string | null;
+}
+
+interface ProgramTimelineGridProps<T extends TimelineItem> {
+  // One day's items
+  items: T[];
+  // Every category in the program, lowercased and sorted, so a category keeps its colour on all days
+  categories: string[];
+  now: number;
+  favourites: Set<string>;
+  onSelect: (item: T) => void;
+}
+
+const PX_PER_MINUTE = 1.6;
+const COLUMN_MIN_WIDTH = 160;
+const TIME_AXIS_WIDTH = 56;
+const HEADER_HEIGHT = 40;
+
+// Classes are written out in full so Tailwind keeps them
+const CATEGORY_COLOURS = [
+  'bg-blue-100 border-blue-500 text-blue-950',
+  'bg-emerald-100 border-emerald-500 text-emerald-950',
+  'bg-amber-100 border-amber-500 text-amber-950',
+  'bg-rose-100 border-rose-500 text-rose-950',
+  'bg-violet-100 border-violet-500 text-violet-950',
+  'bg-cyan-100 border-cyan-500 text-cyan-950',
+  'bg-orange-100 border-orange-500 text-orange-950',
+  'bg-lime-100 border-lime-500 text-lime-950',
+];
+const NO_CATEGORY_COLOUR = 'bg-muted border-muted-foreground/40 text-foreground';
+
+// Items with several categories are coloured by the first one
+const firstCategory = (category: string | null) => category?.split(',')[0].trim().toLowerCase() || null;
+
+function categoryColour(category: string | null, categories: string[]): string {
+  const index = category ? categories.indexOf(category) : -1;
+  return index === -1 ? NO_CATEGORY_COLOUR : CATEGORY_COLOURS[index % CATEGORY_COLOURS.length];
+}
+
+const formatMinute = (minute: number) =>
+  `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+
+/**
+ * One day of the program as a timeline: a column per location and a time axis running down the
+ * side. Scrolls sideways when the columns do not fit, e.g. on a phone.
+ */
+export function ProgramTimelineGrid<T extends TimelineItem>({ items, categories, now, favourites, onSelect }: ProgramTimelineGridProps<T>) {
+  // Locations are matched like the category filter, ignoring case and surrounding spaces
+  const columns = new Map<string, { label: string; items: T[] }>();
+  for (const item of items) {
+    const label = item.location?.trim() || 'Uten sted';
+    const key = label.toLowerCase();
+    if (!columns.has(key)) columns.set(key, { label, items: [] });
+    columns.get(key)!.items.push(item);
+  }
+  const columnList = [...columns.values()].sort((a, b) => a.label.localeCompare(b.label, 'no'));
+  const layouts = columnList.map((column) => layoutTimeline(column.items));
+
+  // The axis runs from the whole hour before the first start to the whole hour after the last end
+  const slots = layouts.flatMap((layout) => [...layout.values()]);
+  const axisStart = Math.floor(Math.min(...slots.map((slot) => slot.startMinute)) / 60) * 60;
+  const axisEnd = Math.ceil(Math.max(...slots.map((slot) => slot.endMinute)) / 60) * 60;
+  const height = (axisEnd - axisStart) * PX_PER_MINUTE;
+  const hours = Array.from({ length: (axisEnd - axisStart) / 60 + 1 }, (_, i) => axisStart + i * 60);
+
+  const clock = osloClock(now);
+  const nowMinute = items[0]?.day === clock.day ? clock.minute : null;
+  const showNowLine = nowMinute !== null && nowMinute >= axisStart && nowMinute <= axisEnd;
+
+  const usedCategories = categories.filter((category) => items.some((item) => firstCategory(item.category) === category));
+
+  return (
+    <div className="space-y-2">
+      {usedCategories.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {usedCategories.map((category) => (
+            <span key={category} className={cn('rounded border-l-4 px-2 py-0.5 capitalize', categoryColour(category, categories))}>
+              {category}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border border-border bg-card">
+        <div className="flex" style={{ minWidth: TIME_AXIS_WIDTH + columnList.length * COLUMN_MIN_WIDTH }}>
+          <div className="shrink-0 border-r border-border" style={{ width: TIME_AXIS_WIDTH }}>
+            <div style={{ height: HEADER_HEIGHT }} />
+            <div className="relative" style={{ height }}>
+              {hours.map((minute) => (
+                <span
+                  key={minute}
+                  className="absolute right-2 text-xs text-muted-foreground"
+                  style={{ top: (minute - axisStart) * PX_PER_MINUTE + 2 }}
+                >
+                  {formatMinute(minute)}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {columnList.map((column, columnIndex) => (
+            <div key={column.label} className="flex-1 border-r border-border last:border-r-0" style={{ minWidth: COLUMN_MIN_WIDTH }}>
+              <div
+                className="flex items-center justify-center border-b border-border px-2 text-sm font-semibold truncate"
+                style={{ height: HEADER_HEIGHT }}
+                title={column.label}
+              >
+                {column.label}
+              </div>
+              <div className="relative" style={{ height }}>
+                {hours.map((minute) => (
+                  <div
+                    key={minute}
+                    className="absolute inset-x-0 border-t border-dashed border-border"
+                    style={{ top: (minute - axisStart) * PX_PER_MINUTE }}
+                  />
+                ))}
+                {showNowLine && (
+                  <div
+                    className="absolute inset-x-0 z-10 border-t-2 border-destructive"
+                    style={{ top: (nowMinute! - axisStart) * PX_PER_MINUTE }}
+                  />
+                )}
+                {column.items.map((item) => {
+                  const slot = layouts[columnIndex].get(item.id)!;
+                  const status = itemStatus(item, now);
+                  return (
+                    <button
+                      key={item.id}
+                      id={`program-item-${item.id}`}
+                      type="button"
+                      onClick={() => onSelect(item)}
+                      className={cn(
+                        'absolute overflow-hidden rounded-md border-l-4 px-2 py-1 text-left text-xs shadow-sm hover:ring-2 hover:ring-primary',
+                        categoryColour(firstCategory(item.category), categories),
+                        status === 'current' && 'ring-2 ring-primary',
+                        status === 'past' && 'opacity-60'
+                      )}
+                      style={{
+                        top: (slot.startMinute - axisStart) * PX_PER_MINUTE + 1,
+                        height: Math.max((slot.endMinute - slot.startMinute) * PX_PER_MINUTE - 2, 20),
+                        left: `calc(${(slot.lane / slot.lanes) * 100}% + 2px)`,
+                        width: `calc(${100 / slot.lanes}% - 4px)`,
+                      }}
+                    >
+                      <div className="flex items-start gap-1">
+                        <span className="flex-1 font-semibold leading-tight">{item.title}</span>
+                        {favourites.has(item.id) && <Star className="h-3 w-3 shrink-0 fill-amber-400 text-amber-500" />}
+                      </div>
+                      <div className="opacity-75">
+                        {item.start_time.slice(0, 5)}
+                        {item.end_time && ` - ${item.end_time.slice(0, 5)}`}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { SHEET_MODULES, resolveSheetColumns, type SheetConfig, type SheetModule } from '@shared/sheetColumns';
+import { SYNC_MODULE_LABELS, type DetectedSheet } from '@/lib/sheetSync';
+
+// Radix Select does not allow an empty value, so "no explicit mapping" gets its own marker
+const AUTO_VALUE = '__auto__';
+
+interface SheetColumnMappingProps {
+  modules: SheetModule[];
+  config: SheetConfig;
+  onChange: (config: SheetConfig) => void;
+  detected: Partial<Record<SheetModule, DetectedSheet>> | null;
+  detecting: boolean;
+  onDetect: () => void;
+  canDetect: boolean;
+}
+
+export function SheetColumnMapping({ modules, config, onChange, detected, detecting, onDetect, canDetect }: SheetColumnMappingProps) {
+  const updateTab = (module: SheetModule, tab: string) => {
+    const tabs = { ...config.tabs, [module]: tab };
+    if (!tab.trim()) delete tabs[module];
+    onChange({ ...config, tabs });
+  };
+
+  const updateColumn = (module: SheetModule, field: string, header: string) => {
+    const moduleColumns = { ...config.columns?.[module] };
+    if (header === AUTO_VALUE) {
+      delete moduleColumns[field];
+    } else {
+      moduleColumns[field] = header;
+    }
+    onChange({ ...config, columns: { ...config.columns, [module]: moduleColumns } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onDetect} disabled={detecting || !canDetect}>
+          {detecting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Hent kolonner fra arket
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Husk å lagre arrangementet når du har endret faner eller kolonner.
+        </p>
+      </div>
+
+      {modules.map((module) => {
+        const definition = SHEET_MODULES[module];
+        const sheet = detected?.[module];
+        const mapping = config.columns?.[module] || {};
+        // What the sync would pick on its own, shown next to the "Automatisk" choice
+        const automatic = sheet ? resolveSheetColumns(module, sheet.headers, null) : {};
+
+        return (
+          <div key={module} className="rounded-lg border p-4 space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor={`sheet_tab_${module}`}>{SYNC_MODULE_LABELS[module]} – navn på fane</Label>
+              <Input
+                id={`sheet_tab_${module}`}
+                value={config.tabs?.[module] || ''}
+                onChange={(e) => updateTab(module, e.target.value)}
+                placeholder={definition.defaultTab}
+              />
+            </div>
+
+            {sheet?.error && (
+              <p className={definition.optional ? 'text-sm text-muted-foreground' : 'text-sm text-destructive'}>
+                {definition.optional ? `Valgfri fane – ikke funnet (${sheet.error})` : sheet.error}
+              </p>
+            )}
+
+            {sheet && !sheet.error && (
+              <div className="grid gap-2 sm:grid-cols-2">
+                {definition.fields.map((field) => {
+                  const mapped = mapping[field.key];
+                  // Keep a saved mapping selectable even if the header has since disappeared from the sheet
+                  const options = mapped && !sheet.headers.includes(mapped) ? [...sheet.headers, mapped] : sheet.headers;
+
+                  return (
+                    <div key={field.key} className="space-y-1">
+                      <Label className="text-xs">
+                        {field.label}{field.required && ' *'}
+                      </Label>
+                      <Select value={mapped || AUTO_VALUE} onValueChange={(value) => updateColumn(module, field.key, value)}>
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={AUTO_VALUE}>
+                            Automatisk ({automatic[field.key] || 'ikke funnet'})
+                          </SelectItem>
+                          {options.map((header) => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {!sheet && (
+              <p className="text-xs text-muted-foreground">
+                Hent kolonnene fra arket for å koble dem til feltene.
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
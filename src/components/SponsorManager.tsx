@@ -16,6 +16,7 @@ interface Sponsor {
   logo_url: string;
   website_url: string | null;
   display_order: number;
+  external_id: string | null;
 }
 
 interface SponsorManagerProps {
@@ -325,6 +326,12 @@ export function SponsorManager({ eventId }: SponsorManagerProps) {
           Last opp logo
         </Button>
 
+        {sponsors.some((sponsor) => sponsor.external_id) && (
+          <p className="text-sm text-muted-foreground">
+            Leverandørene hentes fra arket «Leverandører» i Google Sheets. Endringer her blir overskrevet ved neste synkronisering.
+          </p>
+        )}
+
         <div className="rounded-lg border border-border bg-muted/50 p-3 text-sm space-y-1">
           <p className="font-medium">💡 Tips for beste resultat:</p>
           <ul className="text-muted-foreground space-y-0.5 ml-4 list-disc">
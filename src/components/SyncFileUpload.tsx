@@ -0,0 +1,83 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { X } from 'lucide-react';
+import type { SheetConfig, SheetModule } from '@shared/sheetColumns';
+import { SYNC_MODULE_LABELS, guessUploadModule, type UploadedSyncFile } from '@/lib/sheetSync';
+
+// Radix Select does not allow an empty value
+const FILE_NAME_VALUE = '__file_name__';
+
+interface SyncFileUploadProps {
+  files: UploadedSyncFile[];
+  onChange: (files: UploadedSyncFile[]) => void;
+  config: SheetConfig;
+  disabled?: boolean;
+}
+
+export function SyncFileUpload({ files, onChange, config, disabled }: SyncFileUploadProps) {
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []).map((file) => ({
+      file,
+      module: guessUploadModule(file.name, config),
+    }));
+    onChange([...files, ...selected]);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const updateModule = (index: number, value: string) => {
+    onChange(files.map((entry, idx) =>
+      idx === index ? { ...entry, module: value === FILE_NAME_VALUE ? null : value as SheetModule } : entry
+    ));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="sync_files">CSV- eller Excel-fil</Label>
+      <Input
+        id="sync_files"
+        type="file"
+        accept=".csv,.xlsx"
+        multiple
+        onChange={handleFilesSelected}
+        disabled={disabled}
+      />
+      <p className="text-xs text-muted-foreground">
+        Last opp én Excel-fil med arkene Program, Deltakere og Utstillere, eller én fil per modul.
+      </p>
+
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map((entry, idx) => (
+            <li key={`${entry.file.name}-${idx}`} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="truncate max-w-[16rem]">{entry.file.name}</span>
+              <Select value={entry.module || FILE_NAME_VALUE} onValueChange={(value) => updateModule(idx, value)}>
+                <SelectTrigger className="h-8 w-56 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={FILE_NAME_VALUE}>Arknavn fra filen</SelectItem>
+                  {Object.entries(SYNC_MODULE_LABELS).map(([module, label]) => (
+                    <SelectItem key={module} value={module}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                aria-label="Fjern fil"
+                onClick={() => onChange(files.filter((_, fileIdx) => fileIdx !== idx))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { SyncProblemList } from '@/components/SyncProblemList';
+import { SYNC_MODULE_LABELS, type SyncDiffEntry, type SyncModuleResult } from '@/lib/sheetSync';
+
+interface SyncPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  results: Record<string, SyncModuleResult> | null;
+  confirming: boolean;
+  onConfirm: () => void;
+  // Set while another sync of the event is running; confirming is blocked until it finishes
+  blockedMessage?: string | null;
+  // Where the confirmed sync has got to, shown while it runs
+  progressMessage?: string | null;
+}
+
+export function SyncPreviewDialog({ open, onOpenChange, results, confirming, onConfirm, blockedMessage, progressMessage }: SyncPreviewDialogProps) {
+  const modules = results ? Object.entries(results).filter(([, result]) => !result.absent) : [];
+  // Optional tabs that are not in the sheet; their data stays as it is
+  const absentModules = results ? Object.keys(results).filter((key) => results[key].absent) : [];
+  const hasChanges = modules.some(([, result]) =>
+    result.diff && (result.diff.added.length > 0 || result.diff.removed.length > 0 || result.diff.changed.length > 0)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Forhåndsvisning av synkronisering</DialogTitle>
+          <DialogDescription>
+            Se over endringene før de tas i bruk. Ingenting er endret ennå.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Accordion type="multiple" className="w-full">
+          {modules.map(([key, result]) => {
+            const diff = result.diff;
+            // Everything currently published would disappear - most likely a broken sheet
+            const wipesModule = diff && diff.removed.length > 0 && result.count === 0;
+
+            return (
+              <AccordionItem key={key} value={key}>
+                <AccordionTrigger>
+                  <div className="flex flex-wrap items-center gap-2 text-left">
+                    <span className="font-semibold">{SYNC_MODULE_LABELS[key] || key}</span>
+                    {result.errors.length > 0 ? (
+                      <Badge variant="destructive">Feil</Badge>
+                    ) : diff && (
+                      <>
+                        <Badge variant="secondary">+{diff.added.length}</Badge>
+                        <Badge variant="secondary">−{diff.removed.length}</Badge>
+                        <Badge variant="secondary">~{diff.changed.length}</Badge>
+                        {result.skipped > 0 && (
+                          <Badge variant="outline">{result.skipped} hoppes over</Badge>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="space-y-3 text-sm">
+                  {result.errors.map((error, idx) => (
+                    <p key={idx} className="text-destructive">{error}</p>
+                  ))}
+                  {wipesModule && (
+                    <div className="rounded-md bg-amber-50 dark:bg-amber-950/20 border-l-4 border-amber-500 p-3 flex gap-2">
+                      <AlertTriangle className="h-4 w-4 text-amber-600 flex-shrink-0 mt-0.5" />
+                      <span>
+                        Alle {diff.removed.length} eksisterende poster vil bli fjernet. Sjekk at arket er riktig før du fortsetter.
+                      </span>
+                    </div>
+                  )}
+                  {diff && (
+                    <>
+                      <DiffList title="Nye" entries={diff.added} className="text-green-700 dark:text-green-400" />
+                      <DiffList title="Fjernes" entries={diff.removed} className="text-destructive" />
+                      {diff.changed.length > 0 && (
+                        <div>
+                          <p className="font-medium mb-1">Endres ({diff.changed.length})</p>
+                          <ul className="space-y-2">
+                            {diff.changed.map((change) => (
+                              <li key={change.external_id}>
+                                <span>{change.label}</span>
+                                <ul className="ml-4 text-xs text-muted-foreground">
+                                  {change.fields.map((field) => (
+                                    <li key={field.field}>
+                                      {field.field}: <span className="line-through">{field.before || '(tom)'}</span> → {field.after || '(tom)'}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {result.problems.length > 0 && (
+                        <div>
+                          <p className="font-medium mb-1">Problemer i arket ({result.problems.length})</p>
+                          <SyncProblemList problems={result.problems} />
+                        </div>
+                      )}
+                      <p className="text-muted-foreground">{diff.unchanged} uendrede poster</p>
+                    </>
+                  )}
+                </AccordionContent>
+              </AccordionItem>
+            );
+          })}
+        </Accordion>
+
+        {absentModules.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Ikke i arket, beholdes uendret: {absentModules.map((key) => SYNC_MODULE_LABELS[key] || key).join(', ')}
+          </p>
+        )}
+
+        {blockedMessage && (
+          <p className="text-sm text-amber-700 dark:text-amber-400">{blockedMessage}</p>
+        )}
+
+        {confirming && progressMessage && (
+          <p className="text-sm text-muted-foreground">{progressMessage}</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={confirming}>
+            Avbryt
+          </Button>
+          <Button onClick={onConfirm} disabled={confirming || !!blockedMessage}>
+            {confirming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {hasChanges ? 'Bekreft og synkroniser' : 'Synkroniser likevel'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DiffList({ title, entries, className }: { title: string; entries: SyncDiffEntry[]; className?: string }) {
+  if (entries.length === 0) return null;
+  return (
+    <div>
+      <p className="font-medium mb-1">{title} ({entries.length})</p>
+      <ul className={`space-y-1 ${className || ''}`}>
+        {entries.map((entry) => (
+          <li key={entry.external_id}>{entry.label}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { SyncRowProblem } from '@/lib/sheetSync';
+
+interface SyncProblemListProps {
+  problems: SyncRowProblem[];
+}
+
+export function SyncProblemList({ problems }: SyncProblemListProps) {
+  if (problems.length === 0) return null;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-16">Rad</TableHead>
+          <TableHead>Kolonne</TableHead>
+          <TableHead>Verdi</TableHead>
+          <TableHead>Problem</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {problems.map((problem, idx) => (
+          <TableRow key={`${problem.row}-${problem.column}-${idx}`}>
+            <TableCell>{problem.row}</TableCell>
+            <TableCell className="font-mono text-xs">{problem.column || '–'}</TableCell>
+            <TableCell className="max-w-[12rem] truncate" title={problem.value || undefined}>
+              {problem.value || <span className="text-muted-foreground">(tom)</span>}
+            </TableCell>
+            <TableCell>
+              <div className="flex flex-wrap items-center gap-2">
+                <span>{problem.reason}</span>
+                {problem.skipped && <Badge variant="outline">Raden hoppes over</Badge>}
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
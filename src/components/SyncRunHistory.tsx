@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SYNC_MODULE_LABELS, type SyncRunModuleSummary } from '@/lib/sheetSync';
+import type { Tables } from '@/integrations/supabase/types';
+
+const RUN_LIMIT = 10;
+
+const STATUS_LABELS: Record<string, { label: string; variant: 'secondary' | 'outline' | 'destructive' }> = {
+  running: { label: 'Pågår', variant: 'outline' },
+  success: { label: 'OK', variant: 'secondary' },
+  partial: { label: 'Delvis', variant: 'outline' },
+  failed: { label: 'Feilet', variant: 'destructive' },
+};
+
+const TRIGGER_LABELS: Record<string, string> = {
+  manual: 'Manuell',
+  scheduled: 'Automatisk',
+  webhook: 'Endring i arket',
+};
+
+interface SyncRunHistoryProps {
+  eventId: string;
+  // Bump to reload after a manual sync
+  refreshKey?: number;
+}
+
+export function SyncRunHistory({ eventId, refreshKey }: SyncRunHistoryProps) {
+  const [runs, setRuns] = useState<Tables<'sync_runs'>[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchRuns = async () => {
+      const { data, error } = await supabase
+        .from('sync_runs')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('started_at', { ascending: false })
+        .limit(RUN_LIMIT);
+
+      if (error) {
+        console.error('Error fetching sync runs:', error);
+      } else {
+        setRuns(data || []);
+      }
+      setLoading(false);
+    };
+    fetchRuns();
+  }, [eventId, refreshKey]);
+
+  if (loading) return null;
+
+  if (runs.length === 0) {
+    return <p className="text-sm text-muted-foreground">Ingen synkroniseringer er registrert ennå.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Tidspunkt</TableHead>
+          <TableHead>Utløst av</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Resultat</TableHead>
+          <TableHead className="text-right">Varighet</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {runs.map((run) => {
+          const results = (run.results || {}) as Record<string, SyncRunModuleSummary>;
+          const status = STATUS_LABELS[run.status] || { label: run.status, variant: 'outline' as const };
+          const errors = [
+            ...(run.error ? [run.error] : []),
+            ...Object.entries(results).flatMap(([key, result]) =>
+              result.errors.map((error) => `${SYNC_MODULE_LABELS[key] || key}: ${error}`)
+            ),
+          ];
+
+          return (
+            <TableRow key={run.id}>
+              <TableCell className="whitespace-nowrap">
+                {new Date(run.started_at).toLocaleString('nb-NO', { dateStyle: 'short', timeStyle: 'short' })}
+              </TableCell>
+              <TableCell>
+                <div>{TRIGGER_LABELS[run.trigger] || run.trigger}</div>
+                {run.trigger_detail && run.trigger_detail !== 'webhook' && (
+                  <div className="text-xs text-muted-foreground">{run.trigger_detail}</div>
+                )}
+              </TableCell>
+              <TableCell>
+                <Badge variant={status.variant}>{status.label}</Badge>
+              </TableCell>
+              <TableCell className="text-xs">
+                <div>
+                  {Object.entries(results)
+                    .map(([key, result]) => `${SYNC_MODULE_LABELS[key] || key}: ${result.errors.length > 0 ? '–' : result.count}`)
+                    .join(' · ')}
+                </div>
+                {errors.map((error, idx) => (
+                  <div key={idx} className="text-destructive">{error}</div>
+                ))}
+              </TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                {run.duration_ms !== null ? `${(run.duration_ms / 1000).toFixed(1)} s` : '–'}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
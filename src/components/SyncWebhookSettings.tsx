@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Copy, Eye, EyeOff, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface SyncWebhookSettingsProps {
+  eventId: string;
+}
+
+// 32 random bytes as hex, used as the HMAC key
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Apps Script for an installable "on edit" trigger. Simple onEdit triggers may not call UrlFetchApp.
+function appsScriptSnippet(url: string, secret: string): string {
+  return `const WEBHOOK_URL = '${url}';
+const WEBHOOK_SECRET = '${secret}';
+
+function syncOnEdit(e) {
+  const body = JSON.stringify({
+    source: e.range.getSheet().getName() + '!' + e.range.getA1Notation() + ' (' + Session.getActiveUser().getEmail() + ')',
+  });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = Utilities.computeHmacSha256Signature(timestamp + '.' + body, WEBHOOK_SECRET)
+    .map((b) => ('0' + (b & 0xff).toString(16)).slice(-2))
+    .join('');
+  UrlFetchApp.fetch(WEBHOOK_URL, {
+    method: 'post',
+    contentType: 'application/json',
+    payload: body,
+    headers: { 'X-MEF-Timestamp': timestamp, 'X-MEF-Signature': 'sha256=' + signature },
+    muteHttpExceptions: true,
+  });
+}
+`;
+}
+
+export function SyncWebhookSettings({ eventId }: SyncWebhookSettingsProps) {
+  const [secret, setSecret] = useState<string | null>(null);
+  const [rotatedAt, setRotatedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showSecret, setShowSecret] = useState(false);
+  const [confirmRotate, setConfirmRotate] = useState(false);
+  const [scriptOpen, setScriptOpen] = useState(false);
+
+  const webhookUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/sync-webhook?event=${eventId}`;
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const { data, error } = await supabase
+        .from('event_private_settings')
+        .select('webhook_secret, webhook_secret_rotated_at')
+        .eq('event_id', eventId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching webhook settings:', error);
+      } else {
+        setSecret(data?.webhook_secret ?? null);
+        setRotatedAt(data?.webhook_secret_rotated_at ?? null);
+      }
+      setLoading(false);
+    };
+    fetchSettings();
+  }, [eventId]);
+
+  const saveSecret = async (next: string | null) => {
+    setSaving(true);
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('event_private_settings')
+      .upsert({ event_id: eventId, webhook_secret: next, webhook_secret_rotated_at: next ? now : null });
+
+    if (error) {
+      console.error('Error saving webhook secret:', error);
+      toast.error('Kunne ikke lagre webhook-innstillingene');
+    } else {
+      setSecret(next);
+      setRotatedAt(next ? now : null);
+      setShowSecret(!!next);
+      toast.success(next ? 'Ny hemmelighet er laget – oppdater skriptet i arket' : 'Webhook er slått av');
+    }
+    setSaving(false);
+    setConfirmRotate(false);
+  };
+
+  const copy = (text: string, label: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success(`${label} kopiert`);
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-semibold">Synkroniser når arket endres</h4>
+      <p className="text-sm text-muted-foreground">
+        Et Apps Script i regnearket kan varsle appen ved hver endring. Endringer som kommer tett på hverandre samles til én synkronisering.
+      </p>
+
+      {!secret ? (
+        <Button variant="outline" size="sm" onClick={() => saveSecret(generateSecret())} disabled={saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Slå på webhook
+        </Button>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="webhook_url">Webhook-adresse</Label>
+            <div className="flex gap-2">
+              <Input id="webhook_url" value={webhookUrl} readOnly className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="icon" onClick={() => copy(webhookUrl, 'Adressen')}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="webhook_secret">Hemmelighet</Label>
+            <div className="flex gap-2">
+              <Input
+                id="webhook_secret"
+                type={showSecret ? 'text' : 'password'}
+                value={secret}
+                readOnly
+                className="font-mono text-xs"
+              />
+              <Button type="button" variant="outline" size="icon" onClick={() => setShowSecret(!showSecret)}>
+                {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </Button>
+              <Button type="button" variant="outline" size="icon" onClick={() => copy(secret, 'Hemmeligheten')}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            {rotatedAt && (
+              <p className="text-xs text-muted-foreground">
+                Laget {new Date(rotatedAt).toLocaleString('nb-NO', { dateStyle: 'short', timeStyle: 'short' })}.
+                Del den bare med dem som redigerer skriptet i arket.
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => setConfirmRotate(true)} disabled={saving}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Lag ny hemmelighet
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => saveSecret(null)} disabled={saving}>
+              Slå av webhook
+            </Button>
+          </div>
+
+          <Collapsible open={scriptOpen} onOpenChange={setScriptOpen}>
+            <CollapsibleTrigger asChild>
+              <Button type="button" variant="ghost" size="sm" className="px-0">
+                <ChevronDown className={`mr-1 h-4 w-4 transition-transform ${scriptOpen ? 'rotate-180' : ''}`} />
+                Oppsett i Google Sheets
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="mt-2 space-y-2 text-sm">
+              <ol className="list-decimal list-inside space-y-1 text-muted-foreground">
+                <li>Åpne regnearket og velg Utvidelser → Apps Script</li>
+                <li>Lim inn skriptet under og lagre</li>
+                <li>Gå til Utløsere, legg til en utløser for <strong>syncOnEdit</strong> med «Fra regneark» og «Ved redigering»</li>
+                <li>Godkjenn tilgangene skriptet ber om</li>
+              </ol>
+              <pre className="rounded-md bg-muted p-3 text-xs overflow-x-auto">{appsScriptSnippet(webhookUrl, secret)}</pre>
+              <Button variant="outline" size="sm" onClick={() => copy(appsScriptSnippet(webhookUrl, secret), 'Skriptet')}>
+                <Copy className="mr-2 h-4 w-4" />
+                Kopier skript
+              </Button>
+            </CollapsibleContent>
+          </Collapsible>
+        </>
+      )}
+
+      <AlertDialog open={confirmRotate} onOpenChange={setConfirmRotate}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Lage ny hemmelighet?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Den gamle hemmeligheten slutter å virke med en gang. Skriptet i arket må oppdateres med den nye før endringer synkroniseres igjen.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Avbryt</AlertDialogCancel>
+            <AlertDialogAction onClick={() => saveSecret(generateSecret())}>Lag ny</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+/** The current time in milliseconds, updated every intervalMs so live views move along */
+export function useNow(intervalMs = 30_000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
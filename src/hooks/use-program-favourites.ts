@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// Starred program items ("Min plan"), kept on the device per event
+const storageKey = (slug: string) => `programFavourites:${slug}`;
+
+function readFavourites(slug: string | undefined): Set<string> {
+  if (!slug) return new Set();
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(slug)) || '[]');
+    return new Set(Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : []);
+  } catch {
+    return new Set();
+  }
+}
+
+export function useProgramFavourites(slug: string | undefined) {
+  const [favourites, setFavourites] = useState<Set<string>>(() => readFavourites(slug));
+
+  useEffect(() => {
+    setFavourites(readFavourites(slug));
+
+    // Keeps other open tabs of the same event in step
+    const onStorage = (e: StorageEvent) => {
+      if (slug && e.key === storageKey(slug)) setFavourites(readFavourites(slug));
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, [slug]);
+
+  const toggleFavourite = useCallback((itemId: string) => {
+    if (!slug) return;
+    setFavourites((current) => {
+      const next = new Set(current);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
+      }
+      localStorage.setItem(storageKey(slug), JSON.stringify([...next]));
+      return next;
+    });
+  }, [slug]);
+
+  return { favourites, toggleFavourite };
+}
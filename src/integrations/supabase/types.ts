@@ -14,6 +14,30 @@ export type Database = {
   }
   public: {
     Tables: {
+      access_code_failures: {
+        Row: {
+          client_ip: string
+          created_at: string
+          id: number
+          scope: string
+          slug: string
+        }
+        Insert: {
+          client_ip: string
+          created_at?: string
+          id?: number
+          scope: string
+          slug: string
+        }
+        Update: {
+          client_ip?: string
+          created_at?: string
+          id?: number
+          scope?: string
+          slug?: string
+        }
+        Relationships: []
+      }
       admin_profiles: {
         Row: {
           created_at: string | null
@@ -56,11 +80,143 @@ export type Database = {
         }
         Relationships: []
       }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          event_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          token: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_access_tokens: {
+        Row: {
+          created_at: string
+          event_id: string
+          expires_at: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          expires_at: string
+          token: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          expires_at?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_access_tokens_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_preview_tokens: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          event_id: string
+          expires_at: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          event_id: string
+          expires_at: string
+          token: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          event_id?: string
+          expires_at?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_preview_tokens_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_private_settings: {
+        Row: {
+          created_at: string
+          event_access_code: string | null
+          event_id: string
+          participant_access_code: string | null
+          updated_at: string
+          webhook_request_detail: string | null
+          webhook_requested_at: string | null
+          webhook_secret: string | null
+          webhook_secret_rotated_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          event_access_code?: string | null
+          event_id: string
+          participant_access_code?: string | null
+          updated_at?: string
+          webhook_request_detail?: string | null
+          webhook_requested_at?: string | null
+          webhook_secret?: string | null
+          webhook_secret_rotated_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          event_access_code?: string | null
+          event_id?: string
+          participant_access_code?: string | null
+          updated_at?: string
+          webhook_request_detail?: string | null
+          webhook_requested_at?: string | null
+          webhook_secret?: string | null
+          webhook_secret_rotated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_private_settings_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: true
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       event_sponsors: {
         Row: {
           created_at: string
           display_order: number | null
           event_id: string
+          external_id: string | null
           id: string
           logo_url: string
           name: string
@@ -71,6 +227,7 @@ export type Database = {
           created_at?: string
           display_order?: number | null
           event_id: string
+          external_id?: string | null
           id?: string
           logo_url: string
           name: string
@@ -81,6 +238,7 @@ export type Database = {
           created_at?: string
           display_order?: number | null
           event_id?: string
+          external_id?: string | null
           id?: string
           logo_url?: string
           name?: string
@@ -99,6 +257,8 @@ export type Database = {
       }
       events: {
         Row: {
+          access_protected: boolean
+          auto_sync_interval_minutes: number | null
           created_at: string | null
           created_by: string | null
           date: string | null
@@ -114,13 +274,20 @@ export type Database = {
           last_synced_at: string | null
           location: string | null
           name: string
+          participant_directory: string
+          publish_at: string | null
           published: boolean | null
+          sheet_config: Json | null
           slug: string
           sponsors_module_enabled: boolean | null
           sponsors_module_title: string | null
+          unlisted: boolean
+          unpublish_at: string | null
           updated_at: string | null
         }
         Insert: {
+          access_protected?: boolean
+          auto_sync_interval_minutes?: number | null
           created_at?: string | null
           created_by?: string | null
           date?: string | null
@@ -136,13 +303,20 @@ export type Database = {
           last_synced_at?: string | null
           location?: string | null
           name: string
+          participant_directory?: string
+          publish_at?: string | null
           published?: boolean | null
+          sheet_config?: Json | null
           slug: string
           sponsors_module_enabled?: boolean | null
           sponsors_module_title?: string | null
+          unlisted?: boolean
+          unpublish_at?: string | null
           updated_at?: string | null
         }
         Update: {
+          access_protected?: boolean
+          auto_sync_interval_minutes?: number | null
           created_at?: string | null
           created_by?: string | null
           date?: string | null
@@ -158,38 +332,64 @@ export type Database = {
           last_synced_at?: string | null
           location?: string | null
           name?: string
+          participant_directory?: string
+          publish_at?: string | null
           published?: boolean | null
+          sheet_config?: Json | null
           slug?: string
           sponsors_module_enabled?: boolean | null
           sponsors_module_title?: string | null
+          unlisted?: boolean
+          unpublish_at?: string | null
           updated_at?: string | null
         }
         Relationships: []
       }
       exhibitors: {
         Row: {
+          categories: string | null
           company_name: string
+          contact_email: string | null
+          contact_name: string | null
+          contact_phone: string | null
           created_at: string | null
+          description: string | null
           event_id: string
           external_id: string | null
           id: string
+          logo_url: string | null
           stand_number: string | null
+          website_url: string | null
         }
         Insert: {
+          categories?: string | null
           company_name: string
+          contact_email?: string | null
+          contact_name?: string | null
+          contact_phone?: string | null
           created_at?: string | null
+          description?: string | null
           event_id: string
           external_id?: string | null
           id?: string
+          logo_url?: string | null
           stand_number?: string | null
+          website_url?: string | null
         }
         Update: {
+          categories?: string | null
           company_name?: string
+          contact_email?: string | null
+          contact_name?: string | null
+          contact_phone?: string | null
           created_at?: string | null
+          description?: string | null
           event_id?: string
           external_id?: string | null
           id?: string
+          logo_url?: string | null
           stand_number?: string | null
+          website_url?: string | null
         }
         Relationships: [
           {
@@ -204,30 +404,42 @@ export type Database = {
       info_sections: {
         Row: {
           content: string | null
+          content_format: string
           created_at: string | null
           event_id: string
+          external_id: string | null
           id: string
           image_url: string | null
           order_index: number | null
+          publish_at: string | null
           title: string
+          unpublish_at: string | null
         }
         Insert: {
           content?: string | null
+          content_format?: string
           created_at?: string | null
           event_id: string
+          external_id?: string | null
           id?: string
           image_url?: string | null
           order_index?: number | null
+          publish_at?: string | null
           title: string
+          unpublish_at?: string | null
         }
         Update: {
           content?: string | null
+          content_format?: string
           created_at?: string | null
           event_id?: string
+          external_id?: string | null
           id?: string
           image_url?: string | null
           order_index?: number | null
+          publish_at?: string | null
           title?: string
+          unpublish_at?: string | null
         }
         Relationships: [
           {
@@ -268,6 +480,106 @@ export type Database = {
           },
         ]
       }
+      mirrored_images: {
+        Row: {
+          content_hash: string
+          content_type: string | null
+          drive_file_id: string
+          mirrored_at: string
+          storage_path: string
+        }
+        Insert: {
+          content_hash: string
+          content_type?: string | null
+          drive_file_id: string
+          mirrored_at?: string
+          storage_path: string
+        }
+        Update: {
+          content_hash?: string
+          content_type?: string | null
+          drive_file_id?: string
+          mirrored_at?: string
+          storage_path?: string
+        }
+        Relationships: []
+      }
+      participant_access_tokens: {
+        Row: {
+          created_at: string
+          event_id: string
+          expires_at: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          expires_at: string
+          token: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          expires_at?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "participant_access_tokens_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      participant_removal_requests: {
+        Row: {
+          created_at: string
+          email: string
+          event_id: string
+          external_id: string | null
+          handled_at: string | null
+          handled_by: string | null
+          id: string
+          message: string | null
+          name: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          event_id: string
+          external_id?: string | null
+          handled_at?: string | null
+          handled_by?: string | null
+          id?: string
+          message?: string | null
+          name: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          event_id?: string
+          external_id?: string | null
+          handled_at?: string | null
+          handled_by?: string | null
+          id?: string
+          message?: string | null
+          name?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "participant_removal_requests_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       participants: {
         Row: {
           category: string | null
@@ -277,6 +589,7 @@ export type Database = {
           external_id: string | null
           id: string
           name: string
+          visible: boolean
         }
         Insert: {
           category?: string | null
@@ -286,6 +599,7 @@ export type Database = {
           external_id?: string | null
           id?: string
           name: string
+          visible?: boolean
         }
         Update: {
           category?: string | null
@@ -295,6 +609,7 @@ export type Database = {
           external_id?: string | null
           id?: string
           name?: string
+          visible?: boolean
         }
         Relationships: [
           {
@@ -365,6 +680,83 @@ export type Database = {
           },
         ]
       }
+      sync_runs: {
+        Row: {
+          duration_ms: number | null
+          error: string | null
+          event_id: string
+          finished_at: string | null
+          id: string
+          progress: Json | null
+          request_id: string | null
+          results: Json | null
+          started_at: string
+          status: string
+          trigger: string
+          trigger_detail: string | null
+          triggered_by: string | null
+        }
+        Insert: {
+          duration_ms?: number | null
+          error?: string | null
+          event_id: string
+          finished_at?: string | null
+          id?: string
+          progress?: Json | null
+          request_id?: string | null
+          results?: Json | null
+          started_at?: string
+          status: string
+          trigger: string
+          trigger_detail?: string | null
+          triggered_by?: string | null
+        }
+        Update: {
+          duration_ms?: number | null
+          error?: string | null
+          event_id?: string
+          finished_at?: string | null
+          id?: string
+          progress?: Json | null
+          request_id?: string | null
+          results?: Json | null
+          started_at?: string
+          status?: string
+          trigger?: string
+          trigger_detail?: string | null
+          triggered_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sync_runs_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sync_staged_rows: {
+        Row: {
+          batch_id: string
+          chunk: number
+          created_at: string
+          rows: Json
+        }
+        Insert: {
+          batch_id: string
+          chunk: number
+          created_at?: string
+          rows: Json
+        }
+        Update: {
+          batch_id?: string
+          chunk?: number
+          created_at?: string
+          rows?: Json
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -391,6 +783,45 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_view_event: {
+        Args: { _event_id: string }
+        Returns: boolean
+      }
+      create_calendar_feed_token: {
+        Args: { _event_id: string }
+        Returns: string | null
+      }
+      create_event_preview_token: {
+        Args: { _event_id: string; _valid_hours?: number }
+        Returns: Json
+      }
+      get_calendar_feed: {
+        Args: { _slug: string; _token: string }
+        Returns: Json
+      }
+      get_event_access: {
+        Args: { _slug: string }
+        Returns: {
+          access_protected: boolean
+          event_id: string
+          granted: boolean
+          name: string
+          preview: boolean
+          unlisted: boolean
+        }[]
+      }
+      get_participant_counts: {
+        Args: { _event_id: string }
+        Returns: { category: string; participants: number }[]
+      }
+      has_event_preview: {
+        Args: { _event_id: string }
+        Returns: boolean
+      }
+      has_participant_access: {
+        Args: { _event_id: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -400,6 +831,33 @@ export type Database = {
       }
       is_admin: { Args: never; Returns: boolean }
       is_super_admin: { Args: never; Returns: boolean }
+      latest_sync_run_starts: {
+        Args: { _event_ids: string[] }
+        Returns: { event_id: string; started_at: string }[]
+      }
+      replace_staged_rows: {
+        Args: { _batch_id: string; _event_id: string; _table: string }
+        Returns: Json
+      }
+      replace_synced_rows: {
+        Args: { _event_id: string; _rows: Json; _table: string }
+        Returns: Json
+      }
+      start_sync_run: {
+        Args: {
+          _event_id: string
+          _request_id?: string
+          _stale_after_seconds?: number
+          _trigger: string
+          _trigger_detail?: string
+          _triggered_by?: string
+        }
+        Returns: Json
+      }
+      within_publish_window: {
+        Args: { _publish_at: string; _unpublish_at: string }
+        Returns: boolean
+      }
     }
     Enums: {
       app_role: "admin" | "user" | "super_admin" | "regional_admin"
@@ -1,3 +1,5 @@
+import { parseIsoDay } from '@shared/dateNormalization';
+
 /**
  * Formats event date or date range in Norwegian
  * @param startDate - Start date string (YYYY-MM-DD)
@@ -5,7 +7,7 @@
  * @returns Formatted date string
  */
 export function formatEventDateRange(startDate: string, endDate?: string | null): string {
-  const start = new Date(startDate);
+  const start = parseIsoDay(startDate);
   
   // Single day event (no end date or same as start date)
   if (!endDate || endDate === startDate) {
@@ -16,7 +18,7 @@ export function formatEventDateRange(startDate: string, endDate?: string | null)
     });
   }
   
-  const end = new Date(endDate);
+  const end = parseIsoDay(endDate);
   
   const startDay = start.getDate();
   const endDay = end.getDate();
@@ -51,3 +53,37 @@ export function formatEventDateRange(startDate: string, endDate?: string | null)
   });
   return `${startFormatted} - ${endFormatted}`;
 }
+
+/** Value for a datetime-local input, in the browser's time zone */
+export function toDateTimeLocal(iso: string | null | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/** ISO timestamp from a datetime-local input, or null when it is empty */
+export function fromDateTimeLocal(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+/** "13.03.2026, 18:00" */
+export function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('nb-NO', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export type PublishState = 'draft' | 'scheduled' | 'live' | 'ended';
+
+/**
+ * Where something with a publishing window stands right now. The server applies the same rule
+ * (public.within_publish_window), so this is only for showing it.
+ */
+export function getPublishState(
+  { published = true, publish_at, unpublish_at }: { published?: boolean; publish_at: string | null; unpublish_at: string | null },
+  now = new Date(),
+): PublishState {
+  if (!published) return 'draft';
+  if (publish_at && new Date(publish_at) > now) return 'scheduled';
+  if (unpublish_at && new Date(unpublish_at) <= now) return 'ended';
+  return 'live';
+}
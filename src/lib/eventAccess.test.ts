@@ -0,0 +1,142 @@
+// Access tokens kept on the device and the headers sent with them: npm test
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+import {
+  EVENT_ACCESS_HEADER,
+  EVENT_SLUG_HEADER,
+  PARTICIPANT_ACCESS_HEADER,
+  accessCodeErrorMessage,
+  clearEventAccessToken,
+  clearParticipantAccessToken,
+  getEventAccessToken,
+  getParticipantAccessToken,
+  saveEventAccessToken,
+  saveParticipantAccessToken,
+  withEventAccess,
+  withParticipantAccess,
+} from './eventAccess';
+
+// Map-backed stand-in for the browser's localStorage and sessionStorage
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+// Records the headers a query builder was given
+class FakeQuery {
+  headers: Record<string, string> = {};
+  setHeader(name: string, value: string) {
+    this.headers[name] = value;
+    return this;
+  }
+}
+
+const NOW = new Date('2026-03-12T09:00:00.000Z');
+const inOneDay = new Date(NOW.getTime() + 24 * 60 * 60_000).toISOString();
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  vi.stubGlobal('sessionStorage', new MemoryStorage());
+  vi.useFakeTimers({ now: NOW });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('event access tokens', () => {
+  it('keeps the token for its own slug until it expires', () => {
+    saveEventAccessToken('styremote', 'token-1', inOneDay);
+    expect(getEventAccessToken('styremote')).toBe('token-1');
+    expect(getEventAccessToken('varmotet')).toBeNull();
+
+    vi.setSystemTime(inOneDay);
+    expect(getEventAccessToken('styremote')).toBeNull();
+  });
+
+  it('forgets a cleared token', () => {
+    saveEventAccessToken('styremote', 'token-1', inOneDay);
+    clearEventAccessToken('styremote');
+    expect(getEventAccessToken('styremote')).toBeNull();
+  });
+
+  it('ignores a missing slug and unreadable storage', () => {
+    expect(getEventAccessToken(undefined)).toBeNull();
+    localStorage.setItem('eventAccess:styremote', '{not json');
+    expect(getEventAccessToken('styremote')).toBeNull();
+  });
+});
+
+describe('withEventAccess', () => {
+  it('sends the slug, so unlisted events can be read by their link', () => {
+    expect(withEventAccess(new FakeQuery(), 'varmotet').headers).toEqual({ [EVENT_SLUG_HEADER]: 'varmotet' });
+  });
+
+  it('sends the access token the device has for the event', () => {
+    saveEventAccessToken('styremote', 'token-1', inOneDay);
+    expect(withEventAccess(new FakeQuery(), 'styremote').headers).toEqual({
+      [EVENT_SLUG_HEADER]: 'styremote',
+      [EVENT_ACCESS_HEADER]: 'token-1',
+    });
+  });
+
+  it('sends nothing without a slug', () => {
+    expect(withEventAccess(new FakeQuery(), undefined).headers).toEqual({});
+  });
+});
+
+describe('participant directory tokens', () => {
+  it('keeps the token for the browser tab only, until it expires', () => {
+    saveParticipantAccessToken('varmotet', 'directory-1', inOneDay);
+    expect(getParticipantAccessToken('varmotet')).toBe('directory-1');
+    expect(localStorage.getItem('participantAccess:varmotet')).toBeNull();
+
+    vi.setSystemTime(inOneDay);
+    expect(getParticipantAccessToken('varmotet')).toBeNull();
+  });
+
+  it('forgets a cleared token', () => {
+    saveParticipantAccessToken('varmotet', 'directory-1', inOneDay);
+    clearParticipantAccessToken('varmotet');
+    expect(getParticipantAccessToken('varmotet')).toBeNull();
+  });
+});
+
+describe('withParticipantAccess', () => {
+  it('sends the directory token along with the event access headers', () => {
+    saveEventAccessToken('styremote', 'token-1', inOneDay);
+    saveParticipantAccessToken('styremote', 'directory-1', inOneDay);
+    expect(withParticipantAccess(new FakeQuery(), 'styremote').headers).toEqual({
+      [EVENT_SLUG_HEADER]: 'styremote',
+      [EVENT_ACCESS_HEADER]: 'token-1',
+      [PARTICIPANT_ACCESS_HEADER]: 'directory-1',
+    });
+  });
+
+  it('leaves the directory token out when the tab has none', () => {
+    expect(withParticipantAccess(new FakeQuery(), 'varmotet').headers).toEqual({ [EVENT_SLUG_HEADER]: 'varmotet' });
+  });
+});
+
+describe('accessCodeErrorMessage', () => {
+  it('asks the visitor to wait when the function refused more attempts', () => {
+    const error = { context: new Response(null, { status: 429 }) };
+    expect(accessCodeErrorMessage(error)).toBe('For mange forsøk. Prøv igjen om litt.');
+  });
+
+  it('reports a wrong code otherwise', () => {
+    expect(accessCodeErrorMessage({ context: new Response(null, { status: 401 }) })).toBe('Feil tilgangskode');
+    expect(accessCodeErrorMessage(null)).toBe('Feil tilgangskode');
+  });
+});
@@ -0,0 +1,120 @@
+// Access tokens for closed events. The event-access edge function hands one out for the right
+// code; every query for the event then sends it in EVENT_ACCESS_HEADER, and RLS checks it.
+// Preview links work the same way with a token from create_event_preview_token.
+import { supabase } from '@/integrations/supabase/client';
+
+export const EVENT_ACCESS_HEADER = 'x-event-access';
+export const EVENT_PREVIEW_HEADER = 'x-event-preview';
+export const PARTICIPANT_ACCESS_HEADER = 'x-participant-access';
+// Unlisted events are only readable with their slug in this header, see can_view_event
+export const EVENT_SLUG_HEADER = 'x-event-slug';
+
+// Search parameter that carries the preview token in a preview link
+export const PREVIEW_PARAM = 'preview';
+
+interface StoredToken {
+  token: string;
+  expiresAt: string;
+}
+
+// Kept per slug on the device, so the code is asked for once
+const storageKey = (slug: string) => `eventAccess:${slug}`;
+
+export function getEventAccessToken(slug: string | undefined): string | null {
+  if (!slug) return null;
+  try {
+    const stored: StoredToken | null = JSON.parse(localStorage.getItem(storageKey(slug)) || 'null');
+    if (!stored || new Date(stored.expiresAt).getTime() <= Date.now()) return null;
+    return stored.token;
+  } catch {
+    return null;
+  }
+}
+
+export function saveEventAccessToken(slug: string, token: string, expiresAt: string) {
+  localStorage.setItem(storageKey(slug), JSON.stringify({ token, expiresAt } satisfies StoredToken));
+}
+
+export function clearEventAccessToken(slug: string) {
+  localStorage.removeItem(storageKey(slug));
+}
+
+// Preview tokens only last for the browser tab, so a preview does not linger on a shared device
+const previewKey = (slug: string) => `eventPreview:${slug}`;
+
+export function getEventPreviewToken(slug: string | undefined): string | null {
+  return slug ? sessionStorage.getItem(previewKey(slug)) : null;
+}
+
+export function saveEventPreviewToken(slug: string, token: string) {
+  sessionStorage.setItem(previewKey(slug), token);
+}
+
+export function clearEventPreviewToken(slug: string) {
+  sessionStorage.removeItem(previewKey(slug));
+}
+
+// Participant directory tokens from the participant-access edge function, kept for the browser tab
+const participantKey = (slug: string) => `participantAccess:${slug}`;
+
+export function getParticipantAccessToken(slug: string | undefined): string | null {
+  if (!slug) return null;
+  try {
+    const stored: StoredToken | null = JSON.parse(sessionStorage.getItem(participantKey(slug)) || 'null');
+    if (!stored || new Date(stored.expiresAt).getTime() <= Date.now()) return null;
+    return stored.token;
+  } catch {
+    return null;
+  }
+}
+
+export function saveParticipantAccessToken(slug: string, token: string, expiresAt: string) {
+  sessionStorage.setItem(participantKey(slug), JSON.stringify({ token, expiresAt } satisfies StoredToken));
+}
+
+export function clearParticipantAccessToken(slug: string) {
+  sessionStorage.removeItem(participantKey(slug));
+}
+
+/** Adds the event's slug and the device's access and preview tokens for the event to a query */
+export function withEventAccess<T extends { setHeader(name: string, value: string): T }>(query: T, slug: string | undefined): T {
+  const token = getEventAccessToken(slug);
+  const previewToken = getEventPreviewToken(slug);
+  let result = slug ? query.setHeader(EVENT_SLUG_HEADER, slug) : query;
+  if (token) result = result.setHeader(EVENT_ACCESS_HEADER, token);
+  if (previewToken) result = result.setHeader(EVENT_PREVIEW_HEADER, previewToken);
+  return result;
+}
+
+/**
+ * Values of events.published the public pages ask for. Only a preview tab may load an
+ * unpublished event; everyone else, signed-in admins included, gets published events only.
+ */
+export function publishedStates(slug: string | undefined): boolean[] {
+  return getEventPreviewToken(slug) ? [true, false] : [true];
+}
+
+/** withEventAccess, plus the participant directory token when the tab has one */
+export function withParticipantAccess<T extends { setHeader(name: string, value: string): T }>(query: T, slug: string | undefined): T {
+  const token = getParticipantAccessToken(slug);
+  const result = withEventAccess(query, slug);
+  return token ? result.setHeader(PARTICIPANT_ACCESS_HEADER, token) : result;
+}
+
+/** What to tell a visitor whose access code was not accepted by event-access or participant-access */
+export function accessCodeErrorMessage(error: unknown): string {
+  // supabase.functions.invoke puts the function's response on the error
+  const status = (error as { context?: Response } | null)?.context?.status;
+  return status === 429 ? 'For mange forsøk. Prøv igjen om litt.' : 'Feil tilgangskode';
+}
+
+/** Creates a preview link for an event the signed-in admin manages, valid for the given hours */
+export async function createPreviewLink(eventId: string, slug: string, validHours: number): Promise<{ url: string; expiresAt: string }> {
+  const { data, error } = await supabase.rpc('create_event_preview_token', { _event_id: eventId, _valid_hours: validHours });
+  if (error) throw error;
+  const { token, expires_at } = data as { token: string; expires_at: string };
+  return {
+    url: `${window.location.origin}/events/${slug}?${PREVIEW_PARAM}=${token}`,
+    expiresAt: expires_at,
+  };
+}
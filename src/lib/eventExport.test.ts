@@ -0,0 +1,128 @@
+// Event bundle checks and restore against a recording stand-in for the client: npm test
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  inserts: [] as { table: string; rows: unknown }[],
+  deleted: [] as string[],
+  failInsertInto: null as string | null,
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: (table: string) => ({
+      insert: (rows: unknown) => {
+        db.inserts.push({ table, rows });
+        const error = db.failInsertInto === table ? new Error(`insert into ${table} failed`) : null;
+        return {
+          select: () => ({ single: async () => ({ data: { id: 'copy-1' }, error }) }),
+          then: (resolve: (result: { error: Error | null }) => void) => resolve({ error }),
+        };
+      },
+      delete: () => ({
+        eq: async (_column: string, id: string) => {
+          db.deleted.push(id);
+          return { error: null };
+        },
+      }),
+    }),
+  },
+}));
+
+import { codesToSetAfterRestore, parseEventBundle, restoreEventBundle } from './eventExport';
+
+const bundle = (overrides: Record<string, unknown> = {}) => ({
+  format: 'mef-event-bundle',
+  version: 1,
+  exported_at: '2026-03-01T12:00:00.000Z',
+  event: { name: 'Vårmøtet', slug: 'varmotet', published: true, access_protected: false, participant_directory: 'open' },
+  program_items: [{ day: '2026-03-12', start_time: '09:00', title: 'Åpning' }],
+  participants: [{ name: 'Kari Nordmann' }],
+  ...overrides,
+});
+
+describe('parseEventBundle', () => {
+  it('accepts a bundle from this version', () => {
+    const data = bundle();
+    expect(parseEventBundle(data)).toBe(data);
+  });
+
+  it('refuses files that are not an event export', () => {
+    expect(() => parseEventBundle(null)).toThrow('Filen er ikke en eksport av et arrangement');
+    expect(() => parseEventBundle({ ...bundle(), format: 'other' })).toThrow('Filen er ikke en eksport av et arrangement');
+  });
+
+  it('refuses bundles from a newer version', () => {
+    expect(() => parseEventBundle(bundle({ version: 2 }))).toThrow('Eksporten er laget med en nyere versjon av appen');
+  });
+
+  it('refuses a bundle without a named event', () => {
+    expect(() => parseEventBundle(bundle({ event: { slug: 'varmotet' } }))).toThrow('Eksporten mangler arrangementsinformasjon');
+    expect(() => parseEventBundle(bundle({ event: [] }))).toThrow('Eksporten mangler arrangementsinformasjon');
+  });
+
+  it('allows tables to be left out', () => {
+    const data = bundle();
+    delete (data as Record<string, unknown>).participants;
+    expect(() => parseEventBundle(data)).not.toThrow();
+  });
+
+  it('names the table and row that is malformed', () => {
+    expect(() => parseEventBundle(bundle({ participants: { name: 'Kari' } }))).toThrow(
+      'Eksporten har ugyldige data for participants',
+    );
+    expect(() =>
+      parseEventBundle(bundle({ program_items: [{ day: '2026-03-12', start_time: '09:00', title: 'Åpning' }, { day: '2026-03-12' }] })),
+    ).toThrow('Eksporten har ugyldige data for program_items (rad 2)');
+    expect(() => parseEventBundle(bundle({ participants: ['Kari'] }))).toThrow('Eksporten har ugyldige data for participants (rad 1)');
+    expect(() => parseEventBundle(bundle({ participants: [{ name: '' }] }))).toThrow('Eksporten har ugyldige data for participants (rad 1)');
+  });
+});
+
+describe('codesToSetAfterRestore', () => {
+  it('is empty for an open event', () => {
+    expect(codesToSetAfterRestore(parseEventBundle(bundle()))).toEqual([]);
+  });
+
+  it('lists the codes a restored copy needs', () => {
+    const event = { name: 'Styremøte', slug: 'styremote', access_protected: true, participant_directory: 'access_code' };
+    expect(codesToSetAfterRestore(parseEventBundle(bundle({ event })))).toEqual(['event', 'participants']);
+  });
+});
+
+describe('restoreEventBundle', () => {
+  beforeEach(() => {
+    db.inserts = [];
+    db.deleted = [];
+    db.failInsertInto = null;
+  });
+
+  it('creates an unpublished copy without auto-sync and gives its rows new ids', async () => {
+    const data = parseEventBundle(bundle({ participants: [{ id: 'old-id', name: 'Kari Nordmann' }] }));
+    const id = await restoreEventBundle(data, { slug: 'varmotet-kopi', name: 'Vårmøtet (kopi)', createdBy: 'admin-1' });
+
+    expect(id).toBe('copy-1');
+    expect(db.inserts[0]).toEqual({
+      table: 'events',
+      rows: expect.objectContaining({
+        slug: 'varmotet-kopi',
+        name: 'Vårmøtet (kopi)',
+        published: false,
+        auto_sync_interval_minutes: null,
+        created_by: 'admin-1',
+      }),
+    });
+    expect(db.inserts.slice(1)).toEqual([
+      { table: 'program_items', rows: [{ day: '2026-03-12', start_time: '09:00', title: 'Åpning', event_id: 'copy-1' }] },
+      { table: 'participants', rows: [{ name: 'Kari Nordmann', event_id: 'copy-1' }] },
+    ]);
+    expect(db.deleted).toEqual([]);
+  });
+
+  it('deletes the half-made copy when a table cannot be restored', async () => {
+    db.failInsertInto = 'participants';
+    await expect(
+      restoreEventBundle(parseEventBundle(bundle()), { slug: 'varmotet-kopi', name: 'Vårmøtet', createdBy: 'admin-1' }),
+    ).rejects.toThrow('insert into participants failed');
+    expect(db.deleted).toEqual(['copy-1']);
+  });
+});
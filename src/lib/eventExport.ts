@@ -0,0 +1,261 @@
+/**
+ * Export of event data and restore of full-event bundles, used by the event editor and the
+ * admin dashboard. Runs in the browser with the admin's own session, so RLS decides what can be read.
+ */
+import Papa from 'papaparse';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { SHEET_MODULES, getSheetTab, type SheetConfig, type SheetModule } from '@shared/sheetColumns';
+
+/** Modules that can be exported as CSV/XLSX in the layout sync-sheets reads */
+export type ExportModule = Extract<SheetModule, 'program' | 'participants' | 'exhibitors'>;
+
+export const EXPORT_MODULES: ExportModule[] = ['program', 'participants', 'exhibitors'];
+
+const MODULE_TABLES = {
+  program: 'program_items',
+  participants: 'participants',
+  exhibitors: 'exhibitors',
+} as const;
+
+// Database column behind each sheet field; the inverse of the row parsers in sync-sheets
+const FIELD_COLUMNS: Record<ExportModule, Record<string, string>> = {
+  program: {
+    id: 'external_id',
+    day: 'day',
+    start: 'start_time',
+    end: 'end_time',
+    title: 'title',
+    description: 'description',
+    location: 'location',
+    category: 'category',
+    location_url: 'location_url',
+    image_url: 'image_url',
+    image_url_2: 'image_url_2',
+  },
+  participants: { id: 'external_id', name: 'name', company: 'company', category: 'category', visible: 'visible' },
+  exhibitors: {
+    id: 'external_id',
+    company_name: 'company_name',
+    stand_number: 'stand_number',
+    logo_url: 'logo_url',
+    description: 'description',
+    website_url: 'website_url',
+    categories: 'categories',
+    contact_name: 'contact_name',
+    contact_email: 'contact_email',
+    contact_phone: 'contact_phone',
+  },
+};
+
+const ORDER_BY: Record<ExportModule, string[]> = {
+  program: ['day', 'start_time'],
+  participants: ['name'],
+  exhibitors: ['company_name'],
+};
+
+export interface ExportSheet {
+  tab: string;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+function formatCell(column: string, value: unknown): string {
+  if (value === null || value === undefined) return '';
+  // Postgres returns HH:MM:SS, the template uses HH:MM
+  if (column === 'start_time' || column === 'end_time') return String(value).slice(0, 5);
+  return String(value);
+}
+
+/**
+ * Reads a module's rows and lays them out like the sheet: the event's own column names when it has
+ * a mapping, otherwise the template names, so the file can be imported again as it is.
+ */
+export async function fetchExportSheet(eventId: string, module: ExportModule, config: SheetConfig | null): Promise<ExportSheet> {
+  let query = supabase.from(MODULE_TABLES[module]).select('*').eq('event_id', eventId);
+  for (const column of ORDER_BY[module]) {
+    query = query.order(column, { ascending: true });
+  }
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const fields = SHEET_MODULES[module].fields;
+  const headers = fields.map((field) => config?.columns?.[module]?.[field.key] || field.aliases[0]);
+  const rows = ((data || []) as Record<string, unknown>[]).map((row) =>
+    Object.fromEntries(fields.map((field, idx) => {
+      const column = FIELD_COLUMNS[module][field.key];
+      return [headers[idx], formatCell(column, row[column])];
+    }))
+  );
+
+  return { tab: getSheetTab(module, config), headers, rows };
+}
+
+export function sheetToCsv(sheet: ExportSheet): string {
+  return Papa.unparse({ fields: sheet.headers, data: sheet.rows.map((row) => sheet.headers.map((header) => row[header])) });
+}
+
+/** One worksheet per module, named like the tabs sync-sheets looks for */
+export async function sheetsToXlsx(sheets: ExportSheet[]): Promise<Blob> {
+  // Loaded on demand; only admins exporting need the spreadsheet library. Installed from the SheetJS
+  // CDN like the edge functions' copy, since the npm registry only has the vulnerable 0.18.5.
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.utils.book_new();
+  for (const sheet of sheets) {
+    const worksheet = XLSX.utils.json_to_sheet(sheet.rows, { header: sheet.headers });
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheet.tab.slice(0, 31));
+  }
+  const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+  return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export const BUNDLE_FORMAT = 'mef-event-bundle';
+export const BUNDLE_VERSION = 1;
+
+// Tables copied with the event. Rows are stored without their ids and event_id.
+const BUNDLE_TABLES = ['program_items', 'participants', 'exhibitors', 'info_sections', 'event_sponsors', 'maps'] as const;
+
+type BundleTable = typeof BUNDLE_TABLES[number];
+type BundleRow<T extends BundleTable> = Omit<TablesInsert<T>, 'id' | 'event_id'>;
+
+// Event columns that belong to this copy of the event, not to its content
+const EVENT_OMIT = ['id', 'created_at', 'updated_at', 'created_by', 'last_synced_at'] as const;
+type BundleEvent = Omit<Tables<'events'>, typeof EVENT_OMIT[number]>;
+
+export type EventBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  event: BundleEvent;
+} & { [T in BundleTable]: BundleRow<T>[] };
+
+function stripKeys<T extends Record<string, unknown>>(row: T, keys: readonly string[]) {
+  return Object.fromEntries(Object.entries(row).filter(([key]) => !keys.includes(key)));
+}
+
+/** Everything needed to recreate the event: settings, all module rows, info, sponsors and maps */
+export async function fetchEventBundle(eventId: string): Promise<EventBundle> {
+  const { data: event, error } = await supabase.from('events').select('*').eq('id', eventId).single();
+  if (error) throw error;
+
+  const tables = await Promise.all(BUNDLE_TABLES.map(async (table) => {
+    const { data, error: tableError } = await supabase.from(table).select('*').eq('event_id', eventId);
+    if (tableError) throw tableError;
+    return [table, (data || []).map((row) => stripKeys(row, ['id', 'event_id', 'created_at', 'updated_at']))] as const;
+  }));
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    event: stripKeys(event, EVENT_OMIT) as BundleEvent,
+    ...Object.fromEntries(tables),
+  } as EventBundle;
+}
+
+// Columns every row of a table must have as text, so a malformed bundle is refused before the
+// event is created instead of failing halfway through the inserts
+const REQUIRED_TEXT: Record<BundleTable, string[]> = {
+  program_items: ['day', 'start_time', 'title'],
+  participants: ['name'],
+  exhibitors: ['company_name'],
+  info_sections: ['title'],
+  event_sponsors: ['name', 'logo_url'],
+  maps: ['image_url'],
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Checks that parsed JSON is a bundle this version can restore, with a Norwegian message if not */
+export function parseEventBundle(data: unknown): EventBundle {
+  if (!data || typeof data !== 'object' || (data as { format?: unknown }).format !== BUNDLE_FORMAT) {
+    throw new Error('Filen er ikke en eksport av et arrangement');
+  }
+  const bundle = data as EventBundle;
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new Error('Eksporten er laget med en nyere versjon av appen');
+  }
+  if (!isPlainObject(bundle.event) || typeof bundle.event.name !== 'string' || typeof bundle.event.slug !== 'string') {
+    throw new Error('Eksporten mangler arrangementsinformasjon');
+  }
+  for (const table of BUNDLE_TABLES) {
+    const rows: unknown = bundle[table];
+    if (rows === undefined) continue;
+    if (!Array.isArray(rows)) {
+      throw new Error(`Eksporten har ugyldige data for ${table}`);
+    }
+    rows.forEach((row: unknown, idx) => {
+      const valid = isPlainObject(row) && REQUIRED_TEXT[table].every((column) => typeof row[column] === 'string' && row[column] !== '');
+      if (!valid) {
+        throw new Error(`Eksporten har ugyldige data for ${table} (rad ${idx + 1})`);
+      }
+    });
+  }
+  return bundle;
+}
+
+/**
+ * Access codes stay out of exports, so a restored copy of a closed event, or of one with a
+ * directory behind a code, cannot be opened until the admin sets new codes
+ */
+export function codesToSetAfterRestore(bundle: EventBundle): ('event' | 'participants')[] {
+  const codes: ('event' | 'participants')[] = [];
+  if (bundle.event.access_protected) codes.push('event');
+  if (bundle.event.participant_directory === 'access_code') codes.push('participants');
+  return codes;
+}
+
+// Rows per insert request
+const INSERT_CHUNK = 500;
+
+/**
+ * Creates a new, unpublished event from a bundle. The copy gets its own slug, belongs to the
+ * importing admin and has auto-sync turned off so the sheet does not overwrite the restored data.
+ * If any part fails, the half-made event is deleted again. Returns the new event id.
+ */
+export async function restoreEventBundle(
+  bundle: EventBundle,
+  { slug, name, createdBy }: { slug: string; name: string; createdBy: string | undefined },
+): Promise<string> {
+  const { data: event, error } = await supabase
+    .from('events')
+    .insert({
+      ...bundle.event,
+      slug,
+      name,
+      published: false,
+      auto_sync_interval_minutes: null,
+      created_by: createdBy,
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  try {
+    for (const table of BUNDLE_TABLES) {
+      // Rows of hand-edited bundles may still carry ids; the copy gets new ones
+      const rows = (bundle[table] || []).map((row) => ({ ...stripKeys(row, ['id']), event_id: event.id }));
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+        const { error: insertError } = await supabase.from(table).insert(rows.slice(i, i + INSERT_CHUNK) as TablesInsert<typeof table>[]);
+        if (insertError) throw insertError;
+      }
+    }
+  } catch (e) {
+    await supabase.from('events').delete().eq('id', event.id);
+    throw e;
+  }
+
+  return event.id;
+}
@@ -0,0 +1,36 @@
+// Calendar export of the program: a single item as an .ics download, the whole program (or a
+// category) as a webcal subscription served by the program-calendar edge function.
+import { buildCalendar, type CalendarItem } from '@shared/ics';
+import { supabase } from '@/integrations/supabase/client';
+import { getEventAccessToken, withEventAccess } from '@/lib/eventAccess';
+
+/** Downloads one program item as an .ics file the visitor's calendar app can open */
+export function downloadItemCalendar(item: CalendarItem, eventName: string) {
+  const blob = new Blob([buildCalendar([item], { name: eventName })], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${item.title.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'program'}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/** webcal:// address of the program feed, limited to a category when one is given */
+export async function programFeedUrl(eventId: string, slug: string, category: string | null): Promise<string> {
+  const params = new URLSearchParams({ event: slug });
+  if (category) params.set('category', category);
+  // Calendar apps cannot enter the code of a closed event. The feed gets a token of its own rather
+  // than this device's, since feed addresses end up in calendar services and get passed around.
+  if (getEventAccessToken(slug)) {
+    const { data: feedToken, error } = await withEventAccess(
+      supabase.rpc('create_calendar_feed_token', { _event_id: eventId }),
+      slug
+    );
+    if (error) throw error;
+    if (feedToken) params.set('feed', feedToken);
+  }
+  const feed = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/program-calendar?${params}`;
+  return feed.replace(/^https?:/, 'webcal:');
+}
@@ -0,0 +1,128 @@
+// Time arithmetic on program items: npm test
+import { describe, expect, it } from 'vitest';
+import { findConflicts, itemStatus, layoutTimeline, nowAndNext, osloClock } from './programSchedule';
+
+const item = (id: string, day: string, start_time: string, end_time: string | null = null) => ({
+  id,
+  day,
+  start_time,
+  end_time,
+});
+const conflictIds = (conflicts: Map<string, { id: string }[]>) =>
+  Object.fromEntries([...conflicts].map(([id, others]) => [id, others.map((other) => other.id)]));
+
+describe('findConflicts', () => {
+  it('flags overlapping items both ways', () => {
+    const items = [item('a', '2026-03-12', '09:00', '10:00'), item('b', '2026-03-12', '09:30:00', '10:30:00')];
+    expect(conflictIds(findConflicts(items))).toEqual({ a: ['b'], b: ['a'] });
+  });
+
+  it('does not flag an item that starts when the other ends', () => {
+    const items = [item('a', '2026-03-12', '09:00', '10:00'), item('b', '2026-03-12', '10:00', '11:00')];
+    expect(findConflicts(items).size).toBe(0);
+  });
+
+  it('does not flag the same times on different days', () => {
+    const items = [item('a', '2026-03-12', '09:00', '10:00'), item('b', '2026-03-13', '09:00', '10:00')];
+    expect(findConflicts(items).size).toBe(0);
+  });
+
+  it('flags items without an end time that start together, or inside another item', () => {
+    const items = [
+      item('a', '2026-03-12', '09:00'),
+      item('b', '2026-03-12', '09:00'),
+      item('c', '2026-03-12', '13:00', '14:00'),
+      item('d', '2026-03-12', '13:30'),
+      item('e', '2026-03-12', '14:00'),
+    ];
+    expect(conflictIds(findConflicts(items))).toEqual({ a: ['b'], b: ['a'], c: ['d'], d: ['c'] });
+  });
+
+  it('flags an item running past midnight against the first items of the next day', () => {
+    const items = [
+      item('party', '2026-03-12', '22:00', '01:00'),
+      item('late', '2026-03-13', '00:30', '01:30'),
+      item('breakfast', '2026-03-13', '08:00', '09:00'),
+    ];
+    expect(conflictIds(findConflicts(items))).toEqual({ party: ['late'], late: ['party'] });
+  });
+});
+
+// 10:00 in Norway on 12 March 2026 (winter time, UTC+1)
+const TEN_OCLOCK = Date.parse('2026-03-12T09:00:00Z');
+
+describe('osloClock', () => {
+  it('gives the day and minute on the clock in Norway', () => {
+    expect(osloClock(TEN_OCLOCK)).toEqual({ day: '2026-03-12', minute: 600 });
+    expect(osloClock(Date.parse('2026-06-10T22:30:00Z'))).toEqual({ day: '2026-06-11', minute: 30 });
+  });
+});
+
+describe('itemStatus', () => {
+  it('tells past, current and upcoming items apart in Norwegian time', () => {
+    expect(itemStatus(item('a', '2026-03-12', '09:00', '10:00'), TEN_OCLOCK)).toBe('past');
+    expect(itemStatus(item('b', '2026-03-12', '09:30', '10:30'), TEN_OCLOCK)).toBe('current');
+    expect(itemStatus(item('c', '2026-03-12', '10:00'), TEN_OCLOCK)).toBe('current');
+    expect(itemStatus(item('d', '2026-03-12', '10:15', '11:00'), TEN_OCLOCK)).toBe('upcoming');
+  });
+
+  it('keeps an item running past midnight current after midnight', () => {
+    expect(itemStatus(item('party', '2026-03-12', '22:00', '01:00'), Date.parse('2026-03-12T23:30:00Z'))).toBe('current');
+  });
+});
+
+describe('nowAndNext', () => {
+  const at = (id: string, start: string, end: string | null, location: string | null, day = '2026-03-12') => ({
+    ...item(id, day, start, end),
+    location,
+  });
+
+  it('lists what is on now and the first item to come at each location', () => {
+    const items = [
+      at('later-main', '13:00', '14:00', 'Storsalen'),
+      at('now-main', '09:30', '10:30', 'Storsalen'),
+      at('next-main', '11:00', '12:00', 'storsalen '),
+      at('next-b', '10:30', '11:00', 'Sal B'),
+      at('done', '08:00', '09:00', 'Sal B'),
+      at('next-anywhere', '12:00', null, null),
+    ];
+    const { current, next } = nowAndNext(items, TEN_OCLOCK);
+    expect(current.map((entry) => entry.id)).toEqual(['now-main']);
+    expect(next.map((entry) => entry.id)).toEqual(['next-b', 'next-main', 'next-anywhere']);
+  });
+
+  it('leaves items on later days out of what comes next', () => {
+    const { next } = nowAndNext([at('tomorrow', '09:00', '10:00', 'Storsalen', '2026-03-13')], TEN_OCLOCK);
+    expect(next).toEqual([]);
+  });
+});
+
+describe('layoutTimeline', () => {
+  const slotsOf = (items: ReturnType<typeof item>[]) => Object.fromEntries(layoutTimeline(items));
+
+  it('gives items that do not overlap the whole column', () => {
+    expect(slotsOf([item('b', '2026-03-12', '10:00', '11:00'), item('a', '2026-03-12', '09:00', '10:00')])).toEqual({
+      a: { startMinute: 540, endMinute: 600, lane: 0, lanes: 1 },
+      b: { startMinute: 600, endMinute: 660, lane: 0, lanes: 1 },
+    });
+  });
+
+  it('puts overlapping items side by side and reuses lanes that are free again', () => {
+    const slots = slotsOf([
+      item('long', '2026-03-12', '09:00', '12:00'),
+      item('first', '2026-03-12', '09:00', '10:00'),
+      item('second', '2026-03-12', '10:00', '11:00'),
+      item('after', '2026-03-12', '13:00', '14:00'),
+    ]);
+    expect(slots.long).toMatchObject({ lane: 0, lanes: 2 });
+    expect(slots.first).toMatchObject({ lane: 1, lanes: 2 });
+    expect(slots.second).toMatchObject({ lane: 1, lanes: 2 });
+    expect(slots.after).toMatchObject({ lane: 0, lanes: 1 });
+  });
+
+  it('gives items without an end time the default length and cuts items off at midnight', () => {
+    const slots = slotsOf([item('open', '2026-03-12', '20:00'), item('party', '2026-03-12', '22:00', '01:00')]);
+    expect(slots.open).toEqual({ startMinute: 1200, endMinute: 1230, lane: 0, lanes: 1 });
+    expect(slots.party).toEqual({ startMinute: 1320, endMinute: 1440, lane: 0, lanes: 1 });
+  });
+});
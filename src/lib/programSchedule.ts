@@ -0,0 +1,146 @@
+/**
+ * Time arithmetic on program items, shared by the program views. Times are HH:MM or HH:MM:SS as
+ * stored; comparing the first five characters as strings orders them correctly.
+ */
+import { osloOffsetMinutes } from '@shared/dateNormalization';
+import { DEFAULT_DURATION_MINUTES, itemTimes } from '@shared/ics';
+
+export interface ScheduledItem {
+  id: string;
+  day: string;
+  start_time: string;
+  end_time: string | null;
+}
+
+const hhmm = (time: string) => time.slice(0, 5);
+
+// Start and end in minutes on a running clock across days, so an item running past midnight,
+// e.g. 22:00-01:00, also overlaps the first items of the next day. Items without an end time
+// take up their start minute only
+function span(item: ScheduledItem): { start: number; end: number } {
+  const dayStart = Date.parse(`${item.day}T00:00:00Z`) / 60_000;
+  const start = dayStart + minutesOf(item.start_time);
+  if (!item.end_time) return { start, end: start };
+  const end = dayStart + minutesOf(item.end_time);
+  return { start, end: end <= start ? end + 24 * 60 : end };
+}
+
+function overlaps(a: ScheduledItem, b: ScheduledItem): boolean {
+  const aSpan = span(a);
+  const bSpan = span(b);
+  if (aSpan.start === bSpan.start) return true;
+  return aSpan.start < bSpan.end && bSpan.start < aSpan.end;
+}
+
+/** For each item that overlaps another item in the list, the items it overlaps */
+export function findConflicts<T extends ScheduledItem>(items: T[]): Map<string, T[]> {
+  const conflicts = new Map<string, T[]>();
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (!overlaps(items[i], items[j])) continue;
+      conflicts.set(items[i].id, [...(conflicts.get(items[i].id) ?? []), items[j]]);
+      conflicts.set(items[j].id, [...(conflicts.get(items[j].id) ?? []), items[i]]);
+    }
+  }
+  return conflicts;
+}
+
+export type ItemStatus = 'past' | 'current' | 'upcoming';
+
+/** Whether an item is over, in progress or still to come at the given moment. Times are Norwegian */
+export function itemStatus(item: ScheduledItem, nowMs: number): ItemStatus {
+  const { start, end } = itemTimes(item);
+  if (nowMs < new Date(start).getTime()) return 'upcoming';
+  return nowMs < new Date(end).getTime() ? 'current' : 'past';
+}
+
+/** The day (YYYY-MM-DD) and the minute of that day on the clock in Norway at the given moment */
+export function osloClock(nowMs: number): { day: string; minute: number } {
+  const local = new Date(nowMs + osloOffsetMinutes(nowMs) * 60_000);
+  return { day: local.toISOString().slice(0, 10), minute: local.getUTCHours() * 60 + local.getUTCMinutes() };
+}
+
+/** The day in Norway at the given moment, as YYYY-MM-DD */
+export function osloToday(nowMs: number): string {
+  return osloClock(nowMs).day;
+}
+
+export interface NowAndNext<T> {
+  current: T[];
+  // The first item still to come today at each location, in order of start
+  next: T[];
+}
+
+/** What is on right now and what comes next at each location, for the "Nå og neste" view */
+export function nowAndNext<T extends ScheduledItem & { location: string | null }>(items: T[], nowMs: number): NowAndNext<T> {
+  const today = osloToday(nowMs);
+  const current: T[] = [];
+  const nextByLocation = new Map<string, T>();
+  const sorted = [...items].sort((a, b) => (a.day + a.start_time).localeCompare(b.day + b.start_time));
+  for (const item of sorted) {
+    const status = itemStatus(item, nowMs);
+    if (status === 'current') {
+      current.push(item);
+    } else if (status === 'upcoming' && item.day === today) {
+      const location = item.location?.trim().toLowerCase() ?? '';
+      if (!nextByLocation.has(location)) nextByLocation.set(location, item);
+    }
+  }
+  return { current, next: [...nextByLocation.values()] };
+}
+
+/** Minutes since midnight of an HH:MM or HH:MM:SS time */
+export function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export interface TimelineSlot {
+  startMinute: number;
+  endMinute: number;
+  // Overlapping items share the column side by side: this item's lane of the lanes in use
+  lane: number;
+  lanes: number;
+}
+
+/**
+ * Places one location's items for one day on the timeline grid. Items without an end time get
+ * the usual default length; items running past midnight are cut off at midnight.
+ */
+export function layoutTimeline<T extends ScheduledItem>(items: T[]): Map<string, TimelineSlot> {
+  const slots = new Map<string, TimelineSlot>();
+  const sorted = [...items].sort((a, b) => hhmm(a.start_time).localeCompare(hhmm(b.start_time)));
+
+  // Items that overlap, directly or through each other, form a cluster with a common lane count
+  let cluster: TimelineSlot[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = -1;
+  const closeCluster = () => {
+    cluster.forEach((slot) => { slot.lanes = laneEnds.length; });
+    cluster = [];
+    laneEnds = [];
+  };
+
+  for (const item of sorted) {
+    const startMinute = minutesOf(item.start_time);
+    let endMinute = item.end_time ? minutesOf(item.end_time) : startMinute + DEFAULT_DURATION_MINUTES;
+    if (endMinute <= startMinute) endMinute = 24 * 60;
+    endMinute = Math.min(endMinute, 24 * 60);
+
+    if (startMinute >= clusterEnd) closeCluster();
+    let lane = laneEnds.findIndex((end) => end <= startMinute);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(endMinute);
+    } else {
+      laneEnds[lane] = endMinute;
+    }
+    clusterEnd = Math.max(clusterEnd, endMinute);
+
+    const slot = { startMinute, endMinute, lane, lanes: 1 };
+    cluster.push(slot);
+    slots.set(item.id, slot);
+  }
+  closeCluster();
+  return slots;
+}
@@ -0,0 +1,162 @@
+/**
+ * Response shapes of the sync-sheets edge function, shared by the sync UI in the event editor
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { SHEET_MODULES, getSheetTab, type SheetConfig, type SheetModule } from '@shared/sheetColumns';
+
+export interface SyncDiffEntry {
+  external_id: string;
+  label: string;
+}
+
+export interface SyncDiffChange extends SyncDiffEntry {
+  fields: { field: string; before: string | null; after: string | null }[];
+}
+
+export interface SyncModuleDiff {
+  added: SyncDiffEntry[];
+  removed: SyncDiffEntry[];
+  changed: SyncDiffChange[];
+  unchanged: number;
+}
+
+/** A problem in one cell of the sheet; row is the row number as shown in Google Sheets */
+export interface SyncRowProblem {
+  row: number;
+  column: string | null;
+  value: string | null;
+  reason: string;
+  skipped: boolean;
+}
+
+export interface SyncModuleResult {
+  count: number;
+  removed: number;
+  skipped: number;
+  errors: string[];
+  problems: SyncRowProblem[];
+  keptPreviousData: boolean;
+  /** Optional tab (info, sponsors) not found in the sheet; stored data was left as is */
+  absent?: boolean;
+  diff?: SyncModuleDiff;
+}
+
+/** Result of a header detection run for one tab of the sheet */
+export interface DetectedSheet {
+  tab: string;
+  headers: string[];
+  error?: string;
+}
+
+/** Per module summary stored in sync_runs.results */
+export type SyncRunModuleSummary = Pick<SyncModuleResult, 'count' | 'removed' | 'skipped' | 'errors' | 'keptPreviousData'>;
+
+export const SYNC_MODULE_LABELS: Record<string, string> = {
+  program: 'Program',
+  participants: 'Deltakere',
+  exhibitors: 'Utstillere',
+  info: 'Praktisk info',
+  sponsors: 'Leverandører',
+};
+
+export const AUTO_SYNC_INTERVALS = [5, 15, 30, 60];
+
+/** How often the editor checks whether someone else is syncing the event */
+export const RUNNING_SYNC_POLL_MS = 10_000;
+
+/** How often the editor refreshes the progress of its own sync */
+export const SYNC_PROGRESS_POLL_MS = 2_000;
+
+// Same as _stale_after_seconds in start_sync_run: older running rows no longer hold the lock
+const SYNC_LOCK_TIMEOUT_MS = 600_000;
+
+/** Where a running sync is, as written by the sync functions to sync_runs.progress */
+export interface SyncProgress {
+  module: SheetModule;
+  phase: 'reading' | 'images' | 'comparing' | 'writing';
+  done: number;
+  total: number;
+}
+
+/** The sync holding an event's lock, as returned by sync-sheets with a 409 */
+export interface RunningSync {
+  startedAt: string | null;
+  trigger: string | null;
+  triggeredBy: string | null;
+  progress?: SyncProgress | null;
+}
+
+export async function fetchRunningSync(eventId: string): Promise<RunningSync | null> {
+  const { data, error } = await supabase
+    .from('sync_runs')
+    .select('started_at, trigger, triggered_by, progress')
+    .eq('event_id', eventId)
+    .eq('status', 'running')
+    .gt('started_at', new Date(Date.now() - SYNC_LOCK_TIMEOUT_MS).toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking for running sync:', error);
+    return null;
+  }
+  return data
+    ? {
+      startedAt: data.started_at,
+      trigger: data.trigger,
+      triggeredBy: data.triggered_by,
+      progress: data.progress as unknown as SyncProgress | null,
+    }
+    : null;
+}
+
+const SYNC_PHASE_LABELS: Record<SyncProgress['phase'], string> = {
+  reading: 'leser arket',
+  images: 'henter bilder',
+  comparing: 'sammenligner',
+  writing: 'lagrer',
+};
+
+/** E.g. "Deltakere: lagrer 4 000 av 10 000 rader" */
+export function describeSyncProgress(progress: SyncProgress): string {
+  const counts = progress.total > 0
+    ? ` ${progress.done.toLocaleString('nb-NO')} av ${progress.total.toLocaleString('nb-NO')} rader`
+    : '';
+  return `${SYNC_MODULE_LABELS[progress.module]}: ${SYNC_PHASE_LABELS[progress.phase]}${counts}`;
+}
+
+const RUNNING_TRIGGER_SUFFIX: Record<string, string> = {
+  scheduled: ', automatisk',
+  webhook: ', etter endring i arket',
+};
+
+export function describeRunningSync(run: RunningSync): string {
+  const time = run.startedAt
+    ? ` (startet kl. ${new Date(run.startedAt).toLocaleTimeString('nb-NO', { hour: '2-digit', minute: '2-digit' })}${RUNNING_TRIGGER_SUFFIX[run.trigger ?? ''] ?? ''})`
+    : '';
+  return `En synkronisering pågår allerede${time}. Vent til den er ferdig.`;
+}
+
+/** A file picked for upload import; module is only used for single-sheet files */
+export interface UploadedSyncFile {
+  file: File;
+  module: SheetModule | null;
+}
+
+/** Picks the module whose tab name matches the file name, e.g. "Deltakere.csv" */
+export function guessUploadModule(fileName: string, config: SheetConfig): SheetModule | null {
+  const baseName = fileName.replace(/\.[^.]+$/, '').trim().toLowerCase();
+  const modules = Object.keys(SHEET_MODULES) as SheetModule[];
+  return modules.find((module) =>
+    [getSheetTab(module, config), SYNC_MODULE_LABELS[module], module].some((name) => name.toLowerCase() === baseName)
+  ) ?? null;
+}
+
+/** Reads a file as base64 without the data URL prefix, as the sync-sheets function expects */
+export function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/** Splits a comma separated category cell, e.g. "Maskiner, Utleie", into trimmed names */
+export function splitCategories(value: string | null | undefined): string[] {
+  return (value || '').split(',').map((category) => category.trim()).filter((category) => category.length > 0);
+}
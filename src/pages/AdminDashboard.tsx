@@ -5,13 +5,16 @@ import { supabase } from '@/integrations/supabase/client';
 import { MEFLogo } from '@/components/MEFLogo';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
-import { Plus, Edit, Trash2, LogOut, Users, MoreVertical, Link as LinkIcon, QrCode, ExternalLink, Download, Copy } from 'lucide-react';
+import { Plus, Edit, Trash2, LogOut, Users, MoreVertical, Link as LinkIcon, QrCode, ExternalLink, Download, Copy, Upload } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { toast } from 'sonner';
 import QRCode from 'qrcode';
-import { formatEventDateRange } from '@/lib/dateUtils';
+import { formatDateTime, formatEventDateRange, getPublishState } from '@/lib/dateUtils';
+import { parseIsoDay } from '@shared/dateNormalization';
+import { EventBundleImportDialog } from '@/components/EventBundleImportDialog';
 
 interface Event {
   id: string;
@@ -22,6 +25,8 @@ interface Event {
   location: string | null;
   hero_image_url: string | null;
   published: boolean;
+  publish_at: string | null;
+  unpublish_at: string | null;
   created_by: string | null;
   creator_name?: string;
 }
@@ -40,6 +45,7 @@ export default function AdminDashboard() {
   const [qrModalOpen, setQrModalOpen] = useState(false);
   const [selectedEventForQr, setSelectedEventForQr] = useState<Event | null>(null);
   const [qrDataUrl, setQrDataUrl] = useState<string>('');
+  const [importOpen, setImportOpen] = useState(false);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -121,12 +127,12 @@ export default function AdminDashboard() {
   };
 
   const getEventSortDate = (event: Event) => {
-    return event.date ? new Date(event.date) : null;
+    return event.date ? parseIsoDay(event.date) : null;
   };
 
   const isEventKommende = (event: Event) => {
     const today = getTodayDate();
-    const compareDate = event.end_date ? new Date(event.end_date) : (event.date ? new Date(event.date) : null);
+    const compareDate = event.end_date ? parseIsoDay(event.end_date) : (event.date ? parseIsoDay(event.date) : null);
     if (!compareDate) return true; // Events without date shown in kommende
     return compareDate >= today;
   };
@@ -243,6 +249,10 @@ export default function AdminDashboard() {
                 Brukere
               </Button>
             )}
+            <Button variant="outline" onClick={() => setImportOpen(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Gjenopprett
+            </Button>
             <Button onClick={() => navigate('/admin/events/new')}>
               <Plus className="h-4 w-4 mr-2" />
               Nytt arrangement
@@ -344,6 +354,18 @@ export default function AdminDashboard() {
                 )}
                 <CardHeader>
                   <CardTitle>{event.name}</CardTitle>
+                  {getPublishState(event) === 'scheduled' && (
+                    <div>
+                      <Badge variant="secondary">
+                        Planlagt {formatDateTime(event.publish_at!)}
+                      </Badge>
+                    </div>
+                  )}
+                  {getPublishState(event) === 'ended' && (
+                    <div>
+                      <Badge variant="outline">Avpublisert {formatDateTime(event.unpublish_at!)}</Badge>
+                    </div>
+                  )}
                   <CardDescription>
                     {event.date && formatEventDateRange(event.date, event.end_date)}
                     {event.location && ` • ${event.location}`}
@@ -373,6 +395,13 @@ export default function AdminDashboard() {
         )}
       </div>
 
+      <EventBundleImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        userId={user.id}
+        onImported={(eventId) => navigate(`/admin/events/${eventId}`)}
+      />
+
       <Dialog open={qrModalOpen} onOpenChange={setQrModalOpen}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
@@ -2,6 +2,7 @@ import { useEffect, useState, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { MEFLogo } from '@/components/MEFLogo';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,12 +11,40 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ArrowLeft, Loader2, CheckCircle2, XCircle, HelpCircle, Download } from 'lucide-react';
+import { ArrowLeft, Loader2, CheckCircle2, XCircle, HelpCircle, Download, ChevronDown, Share2, QrCode } from 'lucide-react';
 import { toast } from 'sonner';
 import { InfoSectionManager } from '@/components/InfoSectionManager';
 import { MapUploader } from '@/components/MapUploader';
 import { HeroImageUploader } from '@/components/HeroImageUploader';
 import { SponsorManager } from '@/components/SponsorManager';
+import { EventExportCard } from '@/components/EventExportCard';
+import { ParticipantPrivacyCard } from '@/components/ParticipantPrivacyCard';
+import { SyncPreviewDialog } from '@/components/SyncPreviewDialog';
+import { SyncProblemList } from '@/components/SyncProblemList';
+import { SheetColumnMapping } from '@/components/SheetColumnMapping';
+import { SyncRunHistory } from '@/components/SyncRunHistory';
+import { SyncFileUpload } from '@/components/SyncFileUpload';
+import { SyncWebhookSettings } from '@/components/SyncWebhookSettings';
+import { EventAccessCodeSettings } from '@/components/EventAccessCodeSettings';
+import { PreviewLinkDialog } from '@/components/PreviewLinkDialog';
+import { ProgramQrDialog } from '@/components/ProgramQrDialog';
+import {
+  AUTO_SYNC_INTERVALS,
+  RUNNING_SYNC_POLL_MS,
+  SYNC_MODULE_LABELS,
+  SYNC_PROGRESS_POLL_MS,
+  describeRunningSync,
+  describeSyncProgress,
+  fetchRunningSync,
+  readFileAsBase64,
+  type DetectedSheet,
+  type RunningSync,
+  type SyncModuleResult,
+  type UploadedSyncFile,
+} from '@/lib/sheetSync';
+import type { SheetConfig, SheetModule } from '@shared/sheetColumns';
+import { fromDateTimeLocal, toDateTimeLocal } from '@/lib/dateUtils';
+import { createPreviewLink } from '@/lib/eventAccess';
 import { Collapsible, CollapsibleTrigger, CollapsibleContent } from '@/components/ui/collapsible';
 import QRCode from 'qrcode';
 
@@ -33,17 +62,43 @@ interface EventData {
   location: string;
   hero_image_url: string;
   published: boolean;
+  // datetime-local values; empty when not scheduled
+  publish_at: string;
+  unpublish_at: string;
+  access_protected: boolean;
+  unlisted: boolean;
   enable_program: boolean;
   enable_participants: boolean;
+  participant_directory: string;
   enable_exhibitors: boolean;
   enable_map: boolean;
   enable_info: boolean;
   google_sheets_url: string;
+  sheet_config: SheetConfig;
+  auto_sync_interval_minutes: number | null;
   last_synced_at: string | null;
   sponsors_module_enabled: boolean;
   sponsors_module_title: string;
 }
 
+type SyncSource = 'sheets' | 'upload';
+
+// Sheet modules in the order they are synced, with the event flag that switches each one on
+const SYNCED_MODULE_FLAGS: Record<SheetModule, keyof EventData> = {
+  program: 'enable_program',
+  participants: 'enable_participants',
+  exhibitors: 'enable_exhibitors',
+  info: 'enable_info',
+  sponsors: 'sponsors_module_enabled',
+};
+
+function hasSheetConfig(config: SheetConfig): boolean {
+  const hasValues = (value?: object) => !!value && Object.values(value).some((entry) =>
+    typeof entry === 'object' ? hasValues(entry) : !!entry
+  );
+  return hasValues(config.tabs) || hasValues(config.columns);
+}
+
 export default function EventEditor() {
   const { id } = useParams();
   const navigate = useNavigate();
@@ -52,12 +107,27 @@ export default function EventEditor() {
   const [saving, setSaving] = useState(false);
   const [syncing, setSyncing] = useState(false);
   const [syncResult, setSyncResult] = useState<any>(null);
+  const [syncRunsKey, setSyncRunsKey] = useState(0);
+  // Where the next sync reads from: the Google Sheet or the uploaded files
+  const [syncSource, setSyncSource] = useState<SyncSource>('sheets');
+  const [uploadFiles, setUploadFiles] = useState<UploadedSyncFile[]>([]);
+  const [previewing, setPreviewing] = useState(false);
+  const [syncPreview, setSyncPreview] = useState<{ results: Record<string, SyncModuleResult> } | null>(null);
+  // Idempotency key for the sync confirmed from the current preview, so a double submit runs once
+  const [syncRequestId, setSyncRequestId] = useState<string | null>(null);
+  // A sync of this event started by someone else (or by the scheduler) that is still running
+  const [runningSync, setRunningSync] = useState<RunningSync | null>(null);
   const [helpOpen, setHelpOpen] = useState(false);
+  const [mappingOpen, setMappingOpen] = useState(false);
+  const [detectingHeaders, setDetectingHeaders] = useState(false);
+  const [detectedSheets, setDetectedSheets] = useState<Partial<Record<SheetModule, DetectedSheet>> | null>(null);
   const [qrCodeUrl, setQrCodeUrl] = useState<string>('');
   const qrCanvasRef = useRef<HTMLCanvasElement>(null);
   const [eventCreatedBy, setEventCreatedBy] = useState<string | null>(null);
   const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
   const [selectedOwner, setSelectedOwner] = useState<string>('');
+  const [previewShareOpen, setPreviewShareOpen] = useState(false);
+  const [programQrOpen, setProgramQrOpen] = useState(false);
   
   const [formData, setFormData] = useState<EventData>({
     name: '',
@@ -67,12 +137,19 @@ export default function EventEditor() {
     location: '',
     hero_image_url: '',
     published: false,
+    publish_at: '',
+    unpublish_at: '',
+    access_protected: false,
+    unlisted: false,
     enable_program: true,
     enable_participants: true,
+    participant_directory: 'public',
     enable_exhibitors: true,
     enable_map: false,
     enable_info: true,
     google_sheets_url: '',
+    sheet_config: {},
+    auto_sync_interval_minutes: null,
     last_synced_at: null,
     sponsors_module_enabled: false,
     sponsors_module_title: 'Leverandører',
@@ -92,6 +169,25 @@ export default function EventEditor() {
     }
   }, [id]);
 
+  // Watch for syncs started elsewhere so the sync buttons can be disabled while one runs. While our
+  // own sync runs, check more often to follow its progress.
+  useEffect(() => {
+    if (!id || id === 'new') return;
+
+    let cancelled = false;
+    const checkRunningSync = async () => {
+      const run = await fetchRunningSync(id);
+      if (!cancelled) setRunningSync(run);
+    };
+
+    checkRunningSync();
+    const timer = window.setInterval(checkRunningSync, syncing ? SYNC_PROGRESS_POLL_MS : RUNNING_SYNC_POLL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [id, syncing]);
+
   // Fetch admin users for ownership dropdown (Super Admin only)
   useEffect(() => {
     if (isSuperAdmin && id && id !== 'new') {
@@ -165,12 +261,19 @@ export default function EventEditor() {
       location: data.location || '',
       hero_image_url: data.hero_image_url || '',
       published: data.published,
+      publish_at: toDateTimeLocal(data.publish_at),
+      unpublish_at: toDateTimeLocal(data.unpublish_at),
+      access_protected: data.access_protected,
+      unlisted: data.unlisted,
       enable_program: data.enable_program,
       enable_participants: data.enable_participants,
+      participant_directory: data.participant_directory,
       enable_exhibitors: data.enable_exhibitors,
       enable_map: data.enable_map,
       enable_info: data.enable_info,
       google_sheets_url: data.google_sheets_url || '',
+      sheet_config: (data.sheet_config as SheetConfig) || {},
+      auto_sync_interval_minutes: data.auto_sync_interval_minutes,
       last_synced_at: data.last_synced_at,
       sponsors_module_enabled: data.sponsors_module_enabled || false,
       sponsors_module_title: data.sponsors_module_title || 'Leverandører',
@@ -193,6 +296,12 @@ export default function EventEditor() {
       return;
     }
 
+    if (formData.publish_at && formData.unpublish_at && formData.unpublish_at <= formData.publish_at) {
+      toast.error('Avpublisering må være etter publisering');
+      setSaving(false);
+      return;
+    }
+
     const eventData = {
       name: formData.name,
       slug: formData.slug.toLowerCase().replace(/\s+/g, '-'),
@@ -201,12 +310,19 @@ export default function EventEditor() {
       location: formData.location || null,
       hero_image_url: formData.hero_image_url || null,
       published: formData.published,
+      publish_at: fromDateTimeLocal(formData.publish_at),
+      unpublish_at: fromDateTimeLocal(formData.unpublish_at),
+      access_protected: formData.access_protected,
+      unlisted: formData.unlisted,
       enable_program: formData.enable_program,
       enable_participants: formData.enable_participants,
+      participant_directory: formData.participant_directory,
       enable_exhibitors: formData.enable_exhibitors,
       enable_map: formData.enable_map,
       enable_info: formData.enable_info,
       google_sheets_url: formData.google_sheets_url || null,
+      sheet_config: hasSheetConfig(formData.sheet_config) ? formData.sheet_config : null,
+      auto_sync_interval_minutes: formData.auto_sync_interval_minutes,
       sponsors_module_enabled: formData.sponsors_module_enabled,
       sponsors_module_title: formData.sponsors_module_title || 'Leverandører',
       ...(id === 'new' && { created_by: user?.id }),
@@ -235,53 +351,144 @@ export default function EventEditor() {
     setSaving(false);
   };
 
-  const handleSync = async () => {
-    if (!formData.google_sheets_url) {
+  // Opens the public pages with a short preview link, so unpublished and closed events show too
+  const handlePreview = async () => {
+    // Opened before the await, or the browser treats it as a popup
+    const previewWindow = window.open('', '_blank');
+    try {
+      const { url } = await createPreviewLink(id!, formData.slug, 1);
+      if (previewWindow) {
+        previewWindow.location.href = url;
+      } else {
+        window.open(url, '_blank');
+      }
+    } catch (error) {
+      previewWindow?.close();
+      console.error('Error creating preview link:', error);
+      toast.error('Kunne ikke åpne forhåndsvisning');
+    }
+  };
+
+  const invokeSync = async ({ source, dryRun = false, detectHeaders = false, requestId }: {
+    source: SyncSource;
+    dryRun?: boolean;
+    detectHeaders?: boolean;
+    requestId?: string | null;
+  }) => {
+    // Get the current session token to pass to edge function
+    const { data: { session } } = await supabase.auth.getSession();
+    
+    if (!session) {
+      throw new Error('Du må være logget inn for å synkronisere');
+    }
+
+    const sourceBody = source === 'upload'
+      ? {
+        files: await Promise.all(uploadFiles.map(async (entry) => ({
+          name: entry.file.name,
+          content: await readFileAsBase64(entry.file),
+          module: entry.module,
+        }))),
+      }
+      : { sheetsUrl: formData.google_sheets_url };
+
+    const { data, error } = await supabase.functions.invoke('sync-sheets', {
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: {
+        ...sourceBody,
+        eventId: id,
+        dryRun,
+        detectHeaders,
+        sheetConfig: formData.sheet_config,
+        requestId,
+      },
+    });
+
+    if (error) {
+      // Refusals such as "sync already running" come back as 409 with the reason in the body
+      const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+      if (body?.code === 'sync_running') {
+        setRunningSync(body.running);
+        throw new Error(describeRunningSync(body.running));
+      }
+      if (body?.code === 'duplicate_request') {
+        throw new Error('Denne synkroniseringen er allerede sendt.');
+      }
+      throw body?.error ? new Error(body.error) : error;
+    }
+
+    // Check if the response indicates failure
+    if (data && !data.success) {
+      throw new Error(data.error || 'Synkronisering feilet');
+    }
+
+    return data;
+  };
+
+  // Runs the sync in dry-run mode so the organiser can review the changes before anything is replaced
+  const handlePreviewSync = async (source: SyncSource) => {
+    if (source === 'sheets' && !formData.google_sheets_url) {
       toast.error('Google Sheets URL er påkrevd');
       return;
     }
+    if (source === 'upload' && uploadFiles.length === 0) {
+      toast.error('Velg minst én fil');
+      return;
+    }
 
-    setSyncing(true);
+    setSyncSource(source);
+    setPreviewing(true);
     setSyncResult(null);
 
     try {
-      // Get the current session token to pass to edge function
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
-        throw new Error('Du må være logget inn for å synkronisere');
-      }
+      const data = await invokeSync({ source, dryRun: true });
+      setSyncRequestId(crypto.randomUUID());
+      setSyncPreview(data);
+    } catch (error) {
+      console.error('Sync preview error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Ukjent feil';
+      toast.error('Kunne ikke lese regnearket: ' + errorMessage);
+      setSyncResult({ success: false, error: errorMessage });
+    }
 
-      const { data, error } = await supabase.functions.invoke('sync-sheets', {
-        headers: {
-          Authorization: `Bearer ${session.access_token}`,
-        },
-        body: {
-          sheetsUrl: formData.google_sheets_url,
-          eventId: id,
-        },
-      });
+    setPreviewing(false);
+  };
 
-      if (error) throw error;
+  // Reads the header row of each tab so the organiser can map custom column names
+  const handleDetectHeaders = async () => {
+    setDetectingHeaders(true);
 
-      // Check if the response indicates failure
-      if (data && !data.success) {
-        throw new Error(data.error || 'Synkronisering feilet');
-      }
+    try {
+      // Without a sheet URL the headers come from the uploaded files
+      const data = await invokeSync({ source: formData.google_sheets_url ? 'sheets' : 'upload', detectHeaders: true });
+      setDetectedSheets(data.sheets);
+    } catch (error) {
+      console.error('Header detection error:', error);
+      toast.error('Kunne ikke lese kolonnene: ' + (error instanceof Error ? error.message : 'Ukjent feil'));
+    }
+
+    setDetectingHeaders(false);
+  };
+
+  const handleSync = async () => {
+    setSyncing(true);
+    setSyncResult(null);
 
+    try {
+      const data = await invokeSync({ source: syncSource, requestId: syncRequestId });
       setSyncResult(data);
-      
-      // Update last synced timestamp
-      await supabase
-        .from('events')
-        .update({ last_synced_at: new Date().toISOString() })
-        .eq('id', id);
+      setSyncPreview(null);
+      // The edge function records the run and stamps last_synced_at
+      setFormData((current) => ({ ...current, last_synced_at: data.timestamp }));
 
       toast.success('Synkronisering fullført');
     } catch (error: any) {
       console.error('Sync error:', error);
       const errorMessage = error.message || 'Ukjent feil';
       toast.error('Synkronisering feilet: ' + errorMessage);
+      setSyncPreview(null);
       setSyncResult({ 
         success: false, 
         error: errorMessage,
@@ -289,6 +496,9 @@ export default function EventEditor() {
       });
     }
 
+    setSyncRunsKey((key) => key + 1);
+    setSyncRequestId(null);
+    setRunningSync(await fetchRunningSync(id));
     setSyncing(false);
   };
 
@@ -304,6 +514,10 @@ export default function EventEditor() {
     toast.success('QR-kode lastet ned');
   };
 
+  // Our own sync also shows up as running while it is in progress
+  const otherSync = syncing ? null : runningSync;
+  const ownProgress = syncing ? runningSync?.progress : null;
+
   if (authLoading || loading) {
     return <div className="min-h-screen flex items-center justify-center">Laster...</div>;
   }
@@ -430,6 +644,58 @@ export default function EventEditor() {
                 Publiser arrangement (gjør det synlig for alle)
               </Label>
             </div>
+            {formData.published && (
+              <div className="grid gap-4 pl-6 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="publish_at">Publiseres fra (valgfritt)</Label>
+                  <Input
+                    id="publish_at"
+                    type="datetime-local"
+                    value={formData.publish_at}
+                    onChange={(e) => setFormData({ ...formData, publish_at: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="unpublish_at">Avpubliseres (valgfritt)</Label>
+                  <Input
+                    id="unpublish_at"
+                    type="datetime-local"
+                    value={formData.unpublish_at}
+                    onChange={(e) => setFormData({ ...formData, unpublish_at: e.target.value })}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground sm:col-span-2">
+                  Arrangementet vises bare mellom disse tidspunktene. La feltene stå tomme for å vise det med en gang og uten sluttid.
+                </p>
+              </div>
+            )}
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="unlisted"
+                checked={formData.unlisted}
+                onCheckedChange={(checked) => setFormData({ ...formData, unlisted: checked as boolean })}
+              />
+              <Label htmlFor="unlisted" className="font-normal cursor-pointer">
+                Skjult fra oversikter og søkemotorer (bare de med lenken finner det)
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="access_protected"
+                checked={formData.access_protected}
+                onCheckedChange={(checked) => setFormData({ ...formData, access_protected: checked as boolean })}
+              />
+              <Label htmlFor="access_protected" className="font-normal cursor-pointer">
+                Lukket arrangement (krever tilgangskode)
+              </Label>
+            </div>
+            {formData.access_protected && (id && id !== 'new' ? (
+              <EventAccessCodeSettings eventId={id} />
+            ) : (
+              <p className="text-sm text-muted-foreground pl-6">
+                Lagre arrangementet først for å kunne sette tilgangskode
+              </p>
+            ))}
             <div className="space-y-2">
               <Label htmlFor="public_url">Offentlig URL</Label>
               <div className="flex gap-2">
@@ -475,6 +741,25 @@ export default function EventEditor() {
                       <Download className="mr-2 h-4 w-4" />
                       Last ned QR-kode
                     </Button>
+                    {formData.enable_program && id !== 'new' && (
+                      <>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => setProgramQrOpen(true)}
+                          className="w-fit"
+                        >
+                          <QrCode className="mr-2 h-4 w-4" />
+                          QR-koder for programposter
+                        </Button>
+                        <ProgramQrDialog
+                          open={programQrOpen}
+                          onOpenChange={setProgramQrOpen}
+                          eventId={id!}
+                          slug={formData.slug}
+                        />
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
@@ -505,6 +790,27 @@ export default function EventEditor() {
               />
               <Label htmlFor="enable_participants" className="font-normal cursor-pointer">Deltakere</Label>
             </div>
+            {formData.enable_participants && (
+              <div className="ml-6 space-y-2">
+                <Label htmlFor="participant_directory">Hvem kan se deltakerlisten</Label>
+                <Select
+                  value={formData.participant_directory}
+                  onValueChange={(value) => setFormData({ ...formData, participant_directory: value })}
+                >
+                  <SelectTrigger id="participant_directory">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="public">Alle med lenken</SelectItem>
+                    <SelectItem value="access_code">Bare med tilgangskode</SelectItem>
+                    <SelectItem value="hidden">Ingen – bare antall vises</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Deltakere uten samtykke i kolonnen «synlig» i arket vises aldri, uansett valg.
+                </p>
+              </div>
+            )}
             <div className="flex items-center space-x-2">
               <Checkbox
                 id="enable_exhibitors"
@@ -566,7 +872,7 @@ export default function EventEditor() {
             <CardHeader>
               <CardTitle>Google Sheets Synkronisering</CardTitle>
               <CardDescription>
-                Importer data fra Google Sheets til Program, Deltakere og Utstillere
+                Importer data fra Google Sheets eller en fil til Program, Deltakere og Utstillere
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -638,6 +944,43 @@ export default function EventEditor() {
                         Dataene vil automatisk vises i appen når du synkroniserer.
                       </p>
 
+                      <p className="text-muted-foreground">
+                        Valgfritt: Legg til en kolonne <strong>id</strong> i hvert ark med en unik verdi per rad (f.eks. P001).
+                        Da beholder hver post sin identitet selv om du endrer tittel eller flytter rader, slik at favoritter og lenker ikke brytes.
+                      </p>
+
+                      <p className="text-muted-foreground">
+                        Dag kan skrives som 12.03.2026, 12. mars 2026 eller «tirsdag 12. mars» (året hentes da fra arrangementet),
+                        og tid som 09:30, 9.30, «kl 0930» eller 9:30 AM. Programposter med en dag utenfor arrangementets datoer hoppes over.
+                      </p>
+
+                      <p className="text-muted-foreground">
+                        Med en kolonne <strong>synlig</strong> i Deltakere vises bare deltakere som er merket «ja» i deltakerlisten.
+                        Uten kolonnen vises alle.
+                      </p>
+
+                      <p className="text-muted-foreground">
+                        Utstillere kan i tillegg ha <strong>logo</strong>, <strong>beskrivelse</strong>, <strong>nettside</strong>,
+                        <strong> kategorier</strong> (kommaseparert), <strong>kontaktperson</strong>, <strong>epost</strong> og <strong>telefon</strong>.
+                        Alle kolonnene er valgfrie.
+                      </p>
+
+                      <p className="text-muted-foreground">
+                        Bilder i kolonnene <strong>bilde_url</strong>, <strong>bilde_url_2</strong> og utstillernes <strong>logo</strong> som ligger i Google Drive, kopieres inn i appen ved synkronisering.
+                        Bilder som ikke kan hentes, vises i problemlisten etter synkronisering.
+                      </p>
+
+                      <p className="text-muted-foreground">
+                        Valgfritt: Et ark <strong>Info</strong> (tittel, innhold i Markdown, rekkefølge, bilde_url) fyller Praktisk info,
+                        og et ark <strong>Leverandører</strong> (navn, logo, nettside, rekkefølge) fyller leverandørlisten.
+                        Radene fra arket oppdateres ved hver synkronisering. Seksjoner og leverandører som er lagt inn her i appen, blir stående.
+                      </p>
+
+                      <p className="text-muted-foreground">
+                        Info-kort kan ha kolonnene <strong>vis fra</strong> og <strong>vis til</strong> (f.eks. 13.03.2026 18:00, norsk tid),
+                        så kortet bare vises i det tidsrommet.
+                      </p>
+
                       <div className="rounded-md bg-blue-50 dark:bg-blue-950/20 border border-blue-200 dark:border-blue-900 p-3">
                         <p className="font-medium text-blue-900 dark:text-blue-100">💡 Tips:</p>
                         <p className="mt-1 text-blue-800 dark:text-blue-200 text-xs">
@@ -652,10 +995,104 @@ export default function EventEditor() {
                   </CollapsibleContent>
                 </Collapsible>
               </div>
-              <Button onClick={handleSync} disabled={syncing || !formData.google_sheets_url}>
-                {syncing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+
+              <Collapsible open={mappingOpen} onOpenChange={setMappingOpen}>
+                <CollapsibleTrigger asChild>
+                  <Button type="button" variant="ghost" size="sm" className="px-0">
+                    <ChevronDown className={`mr-1 h-4 w-4 transition-transform ${mappingOpen ? 'rotate-180' : ''}`} />
+                    Faner og kolonner
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent className="mt-2 space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    Bruker arket andre fane- eller kolonnenavn enn malen? Koble dem til riktige felt her.
+                  </p>
+                  <SheetColumnMapping
+                    modules={(Object.keys(SYNCED_MODULE_FLAGS) as SheetModule[]).filter((module) => formData[SYNCED_MODULE_FLAGS[module]])}
+                    config={formData.sheet_config}
+                    onChange={(sheet_config) => setFormData({ ...formData, sheet_config })}
+                    detected={detectedSheets}
+                    detecting={detectingHeaders}
+                    onDetect={handleDetectHeaders}
+                    canDetect={!!formData.google_sheets_url || uploadFiles.length > 0}
+                  />
+                </CollapsibleContent>
+              </Collapsible>
+
+              <div className="space-y-2">
+                <Label htmlFor="auto_sync_interval">Automatisk synkronisering</Label>
+                <Select
+                  value={formData.auto_sync_interval_minutes ? String(formData.auto_sync_interval_minutes) : 'off'}
+                  onValueChange={(value) => setFormData({
+                    ...formData,
+                    auto_sync_interval_minutes: value === 'off' ? null : Number(value),
+                  })}
+                >
+                  <SelectTrigger id="auto_sync_interval">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">Av</SelectItem>
+                    {AUTO_SYNC_INTERVALS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {minutes === 60 ? 'Hver time' : `Hvert ${minutes}. minutt`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Synkroniserer automatisk fra startdato til sluttdato for arrangementet. Husk å lagre.
+                </p>
+              </div>
+
+              <Button onClick={() => handlePreviewSync('sheets')} disabled={previewing || syncing || !!otherSync || !formData.google_sheets_url}>
+                {(previewing || syncing) && syncSource === 'sheets' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Synkroniser alle moduler
               </Button>
+              <p className="text-sm text-muted-foreground">
+                Du får se hva som legges til, endres og fjernes før noe blir oppdatert.
+              </p>
+              {otherSync && (
+                <p className="text-sm text-amber-700 dark:text-amber-400 flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {describeRunningSync(otherSync)}
+                </p>
+              )}
+
+              <Separator />
+              <div className="space-y-3">
+                <h4 className="font-semibold">Importer fra fil</h4>
+                <p className="text-sm text-muted-foreground">
+                  Kan ikke regnearket deles? Last opp en CSV- eller Excel-fil i stedet. Filen går gjennom samme kontroll og forhåndsvisning.
+                </p>
+                <SyncFileUpload
+                  files={uploadFiles}
+                  onChange={setUploadFiles}
+                  config={formData.sheet_config}
+                  disabled={previewing || syncing}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => handlePreviewSync('upload')}
+                  disabled={previewing || syncing || !!otherSync || uploadFiles.length === 0}
+                >
+                  {(previewing || syncing) && syncSource === 'upload' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Importer fra fil
+                </Button>
+              </div>
+
+              <Separator />
+              <SyncWebhookSettings eventId={id} />
+
+              <SyncPreviewDialog
+                open={!!syncPreview}
+                onOpenChange={(open) => !open && !syncing && setSyncPreview(null)}
+                results={syncPreview?.results || null}
+                confirming={syncing}
+                blockedMessage={otherSync ? describeRunningSync(otherSync) : null}
+                progressMessage={ownProgress ? describeSyncProgress(ownProgress) : null}
+                onConfirm={handleSync}
+              />
               
               {formData.last_synced_at && (
                 <p className="text-sm text-muted-foreground">
@@ -669,46 +1106,73 @@ export default function EventEditor() {
                   <h4 className="font-semibold">Synkroniseringsresultat:</h4>
                   {syncResult.success ? (
                     <div className="space-y-1">
-                      {syncResult.results?.program && (
-                        <div className="flex items-center gap-2 text-sm">
-                          {syncResult.results.program.errors?.length > 0 ? (
-                            <XCircle className="h-4 w-4 text-destructive" />
-                          ) : (
-                            <CheckCircle2 className="h-4 w-4 text-green-600" />
-                          )}
-                          <span>Program: {syncResult.results.program.count} poster</span>
-                        </div>
-                      )}
-                      {syncResult.results?.participants && (
-                        <div className="flex items-center gap-2 text-sm">
-                          {syncResult.results.participants.errors?.length > 0 ? (
-                            <XCircle className="h-4 w-4 text-destructive" />
-                          ) : (
-                            <CheckCircle2 className="h-4 w-4 text-green-600" />
-                          )}
-                          <span>Deltakere: {syncResult.results.participants.count} poster</span>
-                        </div>
-                      )}
-                      {syncResult.results?.exhibitors && (
-                        <div className="flex items-center gap-2 text-sm">
-                          {syncResult.results.exhibitors.errors?.length > 0 ? (
-                            <XCircle className="h-4 w-4 text-destructive" />
-                          ) : (
-                            <CheckCircle2 className="h-4 w-4 text-green-600" />
-                          )}
-                          <span>Utstillere: {syncResult.results.exhibitors.count} poster</span>
-                        </div>
-                      )}
+                      {Object.entries(SYNC_MODULE_LABELS).map(([key, label]) => {
+                        const moduleResult = syncResult.results?.[key];
+                        if (!moduleResult) return null;
+                        if (moduleResult.absent) {
+                          return (
+                            <div key={key} className="text-sm text-muted-foreground ml-6">
+                              {label}: ikke i arket – uendret
+                            </div>
+                          );
+                        }
+                        const failed = moduleResult.errors?.length > 0;
+                        return (
+                          <div key={key} className="text-sm">
+                            <div className="flex items-center gap-2">
+                              {failed ? (
+                                <XCircle className="h-4 w-4 text-destructive" />
+                              ) : (
+                                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                              )}
+                              <span>
+                                {label}: {failed && moduleResult.keptPreviousData
+                                  ? 'feilet – beholdt tidligere data'
+                                  : `${moduleResult.count} poster`}
+                                {moduleResult.skipped > 0 && ` (${moduleResult.skipped} rader hoppet over)`}
+                              </span>
+                            </div>
+                            {failed && (
+                              <ul className="ml-6 text-xs text-destructive">
+                                {moduleResult.errors.map((error: string, idx: number) => (
+                                  <li key={idx}>{error}</li>
+                                ))}
+                              </ul>
+                            )}
+                            {moduleResult.problems?.length > 0 && (
+                              <div className="ml-6 mt-1">
+                                <SyncProblemList problems={moduleResult.problems} />
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
                     </div>
                   ) : (
                     <p className="text-sm text-destructive">{syncResult.error}</p>
                   )}
                 </div>
               )}
+
+              <div className="mt-4 space-y-2">
+                <Separator />
+                <h4 className="font-semibold">Siste synkroniseringer</h4>
+                <SyncRunHistory eventId={id} refreshKey={syncRunsKey} />
+              </div>
             </CardContent>
           </Card>
         )}
 
+        {/* Export */}
+        {id !== 'new' && (
+          <EventExportCard eventId={id} slug={formData.slug} sheetConfig={formData.sheet_config} />
+        )}
+
+        {/* Participant directory access and removal requests */}
+        {formData.enable_participants && id !== 'new' && (
+          <ParticipantPrivacyCard eventId={id} directory={formData.participant_directory} />
+        )}
+
         {/* Praktisk Info Management */}
         {formData.enable_info && id !== 'new' && (
           <InfoSectionManager eventId={id} />
@@ -730,14 +1194,22 @@ export default function EventEditor() {
             {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             Lagre endringer
           </Button>
-          {id !== 'new' && formData.published && (
-            <Button
-              variant="outline"
-              size="lg"
-              onClick={() => window.open(`/events/${formData.slug}`, '_blank')}
-            >
-              Forhåndsvis
-            </Button>
+          {id !== 'new' && (
+            <>
+              <Button variant="outline" size="lg" onClick={handlePreview}>
+                Forhåndsvis
+              </Button>
+              <Button variant="ghost" size="lg" onClick={() => setPreviewShareOpen(true)}>
+                <Share2 className="mr-2 h-4 w-4" />
+                Del forhåndsvisning
+              </Button>
+              <PreviewLinkDialog
+                open={previewShareOpen}
+                onOpenChange={setPreviewShareOpen}
+                eventId={id!}
+                slug={formData.slug}
+              />
+            </>
           )}
         </div>
       </div>
@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { publishedStates, withEventAccess } from '@/lib/eventAccess';
+import { MEFLogo } from '@/components/MEFLogo';
+import { BottomNav } from '@/components/BottomNav';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, ExternalLink, Mail, MapPin, Phone, User } from 'lucide-react';
+import { splitCategories } from '@/lib/utils';
+
+interface Event {
+  id: string;
+  slug: string;
+  name: string;
+  enable_program: boolean;
+  enable_participants: boolean;
+  enable_exhibitors: boolean;
+  enable_map: boolean;
+  enable_info: boolean;
+}
+
+interface Exhibitor {
+  id: string;
+  company_name: string;
+  stand_number: string | null;
+  logo_url: string | null;
+  description: string | null;
+  website_url: string | null;
+  categories: string | null;
+  contact_name: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+}
+
+export default function EventExhibitor() {
+  const { slug, id } = useParams();
+  const navigate = useNavigate();
+  const [event, setEvent] = useState<Event | null>(null);
+  const [exhibitor, setExhibitor] = useState<Exhibitor | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchData();
+  }, [slug, id]);
+
+  const fetchData = async () => {
+    const { data: eventData } = await withEventAccess(
+      supabase
+        .from('events')
+        .select('*')
+        .eq('slug', slug)
+        .in('published', publishedStates(slug))
+        .single(),
+      slug
+    );
+
+    if (eventData) {
+      setEvent(eventData);
+
+      const { data: exhibitorData } = await withEventAccess(
+        supabase
+          .from('exhibitors')
+          .select('*')
+          .eq('event_id', eventData.id)
+          .eq('id', id)
+          .maybeSingle(),
+        slug
+      );
+
+      setExhibitor(exhibitorData);
+    }
+    setLoading(false);
+  };
+
+  // Back to the list with its filters when we came from there, otherwise to the plain list
+  const goBack = () => {
+    if (window.history.state?.idx > 0) {
+      navigate(-1);
+    } else {
+      navigate(`/events/${slug}/exhibitors`);
+    }
+  };
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center">Laster...</div>;
+  }
+
+  if (!event) {
+    return <div className="min-h-screen flex items-center justify-center">Arrangement ikke funnet</div>;
+  }
+
+  const categories = splitCategories(exhibitor?.categories);
+  const telHref = exhibitor?.contact_phone ? `tel:${exhibitor.contact_phone.replace(/[^\d+]/g, '')}` : null;
+
+  return (
+    <div className="min-h-screen bg-secondary/20 pb-20">
+      <header className="bg-card border-b border-border sticky top-0 z-40">
+        <div className="max-w-7xl mx-auto px-4 py-3 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={goBack}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <MEFLogo className="h-8" />
+          <h1 className="text-lg font-semibold">Utstillere</h1>
+        </div>
+      </header>
+
+      <div className="max-w-4xl mx-auto px-4 py-6">
+        {!exhibitor ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Fant ikke utstilleren. Den kan ha blitt fjernet fra listen.
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="py-6 space-y-6">
+              <div className="flex items-start gap-4">
+                {exhibitor.logo_url && (
+                  <img
+                    src={exhibitor.logo_url}
+                    alt={exhibitor.company_name}
+                    className="h-20 w-20 shrink-0 object-contain"
+                  />
+                )}
+                <div className="space-y-2">
+                  <h2 className="text-2xl font-bold">{exhibitor.company_name}</h2>
+                  {exhibitor.stand_number && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <MapPin className="h-4 w-4" />
+                      Stand {exhibitor.stand_number}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {categories.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {categories.map((category) => (
+                    <Badge
+                      key={category}
+                      variant="secondary"
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/events/${slug}/exhibitors?category=${encodeURIComponent(category)}`)}
+                    >
+                      {category}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              {exhibitor.description && (
+                <p className="whitespace-pre-line">{exhibitor.description}</p>
+              )}
+
+              {(exhibitor.website_url || exhibitor.contact_name || exhibitor.contact_email || exhibitor.contact_phone) && (
+                <div className="space-y-3 border-t border-border pt-4">
+                  {exhibitor.website_url && (
+                    <a
+                      href={exhibitor.website_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-2 text-primary hover:underline"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                      {exhibitor.website_url.replace(/^https?:\/\//, '').replace(/\/$/, '')}
+                    </a>
+                  )}
+                  {exhibitor.contact_name && (
+                    <div className="flex items-center gap-2">
+                      <User className="h-4 w-4 text-muted-foreground" />
+                      {exhibitor.contact_name}
+                    </div>
+                  )}
+                  {exhibitor.contact_email && (
+                    <a href={`mailto:${exhibitor.contact_email}`} className="flex items-center gap-2 text-primary hover:underline">
+                      <Mail className="h-4 w-4" />
+                      {exhibitor.contact_email}
+                    </a>
+                  )}
+                  {exhibitor.contact_phone && telHref && (
+                    <a href={telHref} className="flex items-center gap-2 text-primary hover:underline">
+                      <Phone className="h-4 w-4" />
+                      {exhibitor.contact_phone}
+                    </a>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <BottomNav
+        eventSlug={slug!}
+        modules={{
+          program: event.enable_program,
+          participants: event.enable_participants,
+          exhibitors: event.enable_exhibitors,
+          map: event.enable_map,
+          info: event.enable_info,
+        }}
+      />
+    </div>
+  );
+}
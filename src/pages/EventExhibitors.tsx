@@ -1,13 +1,15 @@
 import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { publishedStates, withEventAccess } from '@/lib/eventAccess';
 import { MEFLogo } from '@/components/MEFLogo';
 import { BottomNav } from '@/components/BottomNav';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Search } from 'lucide-react';
+import { ArrowLeft, ChevronRight, Search } from 'lucide-react';
+import { splitCategories } from '@/lib/utils';
 
 interface Event {
   id: string;
@@ -24,49 +26,66 @@ interface Exhibitor {
   id: string;
   company_name: string;
   stand_number: string | null;
+  logo_url: string | null;
+  description: string | null;
+  categories: string | null;
 }
 
 export default function EventExhibitors() {
   const { slug } = useParams();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [event, setEvent] = useState<Event | null>(null);
   const [exhibitors, setExhibitors] = useState<Exhibitor[]>([]);
   const [filteredExhibitors, setFilteredExhibitors] = useState<Exhibitor[]>([]);
   const [search, setSearch] = useState('');
   const [loading, setLoading] = useState(true);
+  // Kept in the URL so the back button from an exhibitor returns to the same filter
+  const selectedCategory = searchParams.get('category');
 
   useEffect(() => {
     fetchData();
   }, [slug]);
 
   useEffect(() => {
+    let filtered = exhibitors;
+    if (selectedCategory) {
+      filtered = filtered.filter(e =>
+        splitCategories(e.categories).some(category => category.toLowerCase() === selectedCategory.toLowerCase())
+      );
+    }
     if (search) {
-      const filtered = exhibitors.filter(e =>
+      filtered = filtered.filter(e =>
         e.company_name.toLowerCase().includes(search.toLowerCase()) ||
-        e.stand_number?.toLowerCase().includes(search.toLowerCase())
+        e.stand_number?.toLowerCase().includes(search.toLowerCase()) ||
+        e.categories?.toLowerCase().includes(search.toLowerCase())
       );
-      setFilteredExhibitors(filtered);
-    } else {
-      setFilteredExhibitors(exhibitors);
     }
-  }, [search, exhibitors]);
+    setFilteredExhibitors(filtered);
+  }, [search, selectedCategory, exhibitors]);
 
   const fetchData = async () => {
-    const { data: eventData } = await supabase
-      .from('events')
-      .select('*')
-      .eq('slug', slug)
-      .eq('published', true)
-      .single();
+    const { data: eventData } = await withEventAccess(
+      supabase
+        .from('events')
+        .select('*')
+        .eq('slug', slug)
+        .in('published', publishedStates(slug))
+        .single(),
+      slug
+    );
 
     if (eventData) {
       setEvent(eventData);
       
-      const { data: exhibitorData } = await supabase
-        .from('exhibitors')
-        .select('*')
-        .eq('event_id', eventData.id)
-        .order('company_name', { ascending: true });
+      const { data: exhibitorData } = await withEventAccess(
+        supabase
+          .from('exhibitors')
+          .select('*')
+          .eq('event_id', eventData.id)
+          .order('company_name', { ascending: true }),
+        slug
+      );
 
       setExhibitors(exhibitorData || []);
       setFilteredExhibitors(exhibitorData || []);
@@ -74,6 +93,15 @@ export default function EventExhibitors() {
     setLoading(false);
   };
 
+  // One button per category, keeping the casing it was first written with
+  const categories = Array.from(
+    new Map(exhibitors.flatMap(e => splitCategories(e.categories)).map(category => [category.toLowerCase(), category] as const)).values()
+  ).sort((a, b) => a.localeCompare(b, 'no'));
+
+  const handleCategoryFilter = (category: string | null) => {
+    setSearchParams(category ? { category } : {});
+  };
+
   if (loading) {
     return <div className="min-h-screen flex items-center justify-center">Laster...</div>;
   }
@@ -107,23 +135,59 @@ export default function EventExhibitors() {
           </div>
         </div>
 
+        {categories.length > 0 && (
+          <div className="mb-6 flex flex-wrap gap-2">
+            <Button
+              variant={!selectedCategory ? 'default' : 'outline'}
+              onClick={() => handleCategoryFilter(null)}
+            >
+              Alle kategorier
+            </Button>
+            {categories.map((category) => (
+              <Button
+                key={category}
+                variant={selectedCategory?.toLowerCase() === category.toLowerCase() ? 'default' : 'outline'}
+                onClick={() => handleCategoryFilter(category)}
+              >
+                {category}
+              </Button>
+            ))}
+          </div>
+        )}
+
         {filteredExhibitors.length === 0 ? (
           <Card>
             <CardContent className="py-12 text-center text-muted-foreground">
-              {search ? 'Ingen treff' : 'Ingen utstillere ennå'}
+              {search || selectedCategory ? 'Ingen treff' : 'Ingen utstillere ennå'}
             </CardContent>
           </Card>
         ) : (
           <div className="space-y-2">
             {filteredExhibitors.map((exhibitor) => (
-              <Card key={exhibitor.id}>
-                <CardContent className="py-4 flex items-center justify-between">
-                  <div className="font-semibold">{exhibitor.company_name}</div>
-                  {exhibitor.stand_number && (
-                    <Badge variant="secondary">Stand: {exhibitor.stand_number}</Badge>
-                  )}
-                </CardContent>
-              </Card>
+              <Link key={exhibitor.id} to={`/events/${slug}/exhibitors/${exhibitor.id}`} className="block">
+                <Card className="hover:shadow-md transition-shadow">
+                  <CardContent className="py-4 flex items-center gap-4">
+                    {exhibitor.logo_url && (
+                      <img
+                        src={exhibitor.logo_url}
+                        alt=""
+                        loading="lazy"
+                        className="h-12 w-12 shrink-0 object-contain"
+                      />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold">{exhibitor.company_name}</div>
+                      {exhibitor.categories && (
+                        <div className="text-sm text-muted-foreground truncate">{exhibitor.categories}</div>
+                      )}
+                    </div>
+                    {exhibitor.stand_number && (
+                      <Badge variant="secondary">Stand: {exhibitor.stand_number}</Badge>
+                    )}
+                    <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  </CardContent>
+                </Card>
+              </Link>
             ))}
           </div>
         )}
@@ -1,10 +1,14 @@
 import { useEffect, useState } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, Link, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { publishedStates, withEventAccess } from '@/lib/eventAccess';
 import { MEFLogo } from '@/components/MEFLogo';
 import { Button } from '@/components/ui/button';
 import { Calendar, Users, Building2, Map, Info, Handshake } from 'lucide-react';
 import { formatEventDateRange } from '@/lib/dateUtils';
+import { ProgramNowNext, type NowNextItem } from '@/components/ProgramNowNext';
+import { osloToday } from '@/lib/programSchedule';
+import { useNow } from '@/hooks/use-now';
 
 interface Event {
   id: string;
@@ -25,20 +29,34 @@ interface Event {
 
 export default function EventHome() {
   const { slug } = useParams();
+  const navigate = useNavigate();
   const [event, setEvent] = useState<Event | null>(null);
+  const [todaysItems, setTodaysItems] = useState<NowNextItem[]>([]);
   const [loading, setLoading] = useState(true);
+  const now = useNow();
+  const today = osloToday(now);
 
   useEffect(() => {
     fetchEvent();
   }, [slug]);
 
+  // Fetched again when the day changes in Norway, so a page left open overnight moves on
+  useEffect(() => {
+    if (event?.enable_program) {
+      fetchTodaysItems(event.id, today);
+    }
+  }, [event?.id, event?.enable_program, today]);
+
   const fetchEvent = async () => {
-    const { data, error } = await supabase
-      .from('events')
-      .select('*')
-      .eq('slug', slug)
-      .eq('published', true)
-      .single();
+    const { data, error } = await withEventAccess(
+      supabase
+        .from('events')
+        .select('*')
+        .eq('slug', slug)
+        .in('published', publishedStates(slug))
+        .single(),
+      slug
+    );
 
     if (!error && data) {
       setEvent(data);
@@ -46,6 +64,19 @@ export default function EventHome() {
     setLoading(false);
   };
 
+  // Only today's items matter for "Nå og neste"
+  const fetchTodaysItems = async (eventId: string, day: string) => {
+    const { data } = await withEventAccess(
+      supabase
+        .from('program_items')
+        .select('id, day, start_time, end_time, title, location')
+        .eq('event_id', eventId)
+        .eq('day', day),
+      slug
+    );
+    setTodaysItems(data || []);
+  };
+
   if (loading) {
     return <div className="min-h-screen flex items-center justify-center">Laster...</div>;
   }
@@ -138,6 +169,13 @@ export default function EventHome() {
           )}
         </div>
 
+        <ProgramNowNext
+          items={todaysItems}
+          now={now}
+          onSelect={(item) => navigate(`/events/${slug}/program/${item.id}`)}
+          className="mb-8"
+        />
+
         <div className="grid gap-4 sm:grid-cols-2">
           {modules.map((module) => {
             const Icon = module.icon;
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { publishedStates, withEventAccess } from '@/lib/eventAccess';
 import { MEFLogo } from '@/components/MEFLogo';
 import { BottomNav } from '@/components/BottomNav';
 import { Button } from '@/components/ui/button';
@@ -8,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { ArrowLeft, Maximize2 } from 'lucide-react';
 import parse from 'html-react-parser';
+import ReactMarkdown from 'react-markdown';
 
 interface Event {
   id: string;
@@ -24,6 +26,7 @@ interface InfoSection {
   id: string;
   title: string;
   content: string | null;
+  content_format: string;
   image_url: string | null;
 }
 
@@ -40,21 +43,27 @@ export default function EventInfo() {
   }, [slug]);
 
   const fetchData = async () => {
-    const { data: eventData } = await supabase
-      .from('events')
-      .select('*')
-      .eq('slug', slug)
-      .eq('published', true)
-      .single();
+    const { data: eventData } = await withEventAccess(
+      supabase
+        .from('events')
+        .select('*')
+        .eq('slug', slug)
+        .in('published', publishedStates(slug))
+        .single(),
+      slug
+    );
 
     if (eventData) {
       setEvent(eventData);
       
-      const { data: infoData } = await supabase
-        .from('info_sections')
-        .select('*')
-        .eq('event_id', eventData.id)
-        .order('order_index', { ascending: true });
+      const { data: infoData } = await withEventAccess(
+        supabase
+          .from('info_sections')
+          .select('*')
+          .eq('event_id', eventData.id)
+          .order('order_index', { ascending: true }),
+        slug
+      );
 
       setSections((infoData as InfoSection[]) || []);
     }
@@ -99,7 +108,9 @@ export default function EventInfo() {
                   <CardContent className="pt-0 space-y-4">
                     {section.content && (
                       <div className="prose prose-sm max-w-none">
-                        {parse(section.content)}
+                        {section.content_format === 'markdown'
+                          ? <ReactMarkdown>{section.content}</ReactMarkdown>
+                          : parse(section.content)}
                       </div>
                     )}
                     {section.image_url && (
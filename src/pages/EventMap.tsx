@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { publishedStates, withEventAccess } from '@/lib/eventAccess';
 import { MEFLogo } from '@/components/MEFLogo';
 import { BottomNav } from '@/components/BottomNav';
 import { Button } from '@/components/ui/button';
@@ -36,23 +37,29 @@ export default function EventMap() {
   }, [slug]);
 
   const fetchData = async () => {
-    const { data: eventData } = await supabase
-      .from('events')
-      .select('*')
-      .eq('slug', slug)
-      .eq('published', true)
-      .single();
+    const { data: eventData } = await withEventAccess(
+      supabase
+        .from('events')
+        .select('*')
+        .eq('slug', slug)
+        .in('published', publishedStates(slug))
+        .single(),
+      slug
+    );
 
     if (eventData) {
       setEvent(eventData);
       
-      const { data: mapDataResult } = await supabase
-        .from('maps')
-        .select('image_url')
-        .eq('event_id', eventData.id)
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single();
+      const { data: mapDataResult } = await withEventAccess(
+        supabase
+          .from('maps')
+          .select('image_url')
+          .eq('event_id', eventData.id)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .single(),
+        slug
+      );
 
       if (mapDataResult) {
         setMapData(mapDataResult);
@@ -1,13 +1,23 @@
 import { useEffect, useState, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import {
+  accessCodeErrorMessage,
+  clearParticipantAccessToken,
+  getParticipantAccessToken,
+  publishedStates,
+  saveParticipantAccessToken,
+  withEventAccess,
+  withParticipantAccess,
+} from '@/lib/eventAccess';
 import { MEFLogo } from '@/components/MEFLogo';
 import { BottomNav } from '@/components/BottomNav';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
-import { ArrowLeft, Search } from 'lucide-react';
+import { ArrowLeft, Lock, Search } from 'lucide-react';
+import { ParticipantRemovalDialog } from '@/components/ParticipantRemovalDialog';
 
 interface Event {
   id: string;
@@ -18,6 +28,7 @@ interface Event {
   enable_exhibitors: boolean;
   enable_map: boolean;
   enable_info: boolean;
+  participant_directory: string;
 }
 
 interface Participant {
@@ -32,6 +43,11 @@ interface GroupedParticipants {
   participants: Participant[];
 }
 
+interface CategoryCount {
+  category: string | null;
+  participants: number;
+}
+
 type SortMode = 'name' | 'company';
 
 const norwegianSort = (a: string, b: string) =>
@@ -54,6 +70,13 @@ export default function EventParticipants() {
   });
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [counts, setCounts] = useState<CategoryCount[]>([]);
+  // Directory behind an access code that has not been opened yet
+  const [locked, setLocked] = useState(false);
+  const [codeInput, setCodeInput] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  const [removalOpen, setRemovalOpen] = useState(false);
 
   useEffect(() => {
     fetchData();
@@ -64,27 +87,70 @@ export default function EventParticipants() {
   }, [sortMode]);
 
   const fetchData = async () => {
-    const { data: eventData } = await supabase
-      .from('events')
-      .select('*')
-      .eq('slug', slug)
-      .eq('published', true)
-      .single();
+    const { data: eventData } = await withEventAccess(
+      supabase
+        .from('events')
+        .select('*')
+        .eq('slug', slug)
+        .in('published', publishedStates(slug))
+        .single(),
+      slug
+    );
 
     if (eventData) {
       setEvent(eventData);
 
-      const { data: participantData } = await supabase
-        .from('participants')
-        .select('*')
-        .eq('event_id', eventData.id)
-        .order('name', { ascending: true });
+      const { data: countData } = await withEventAccess(supabase.rpc('get_participant_counts', { _event_id: eventData.id }), slug);
+      setCounts(countData || []);
 
-      setParticipants(participantData || []);
+      if (eventData.participant_directory === 'public') {
+        await fetchParticipants(eventData.id);
+      } else if (eventData.participant_directory === 'access_code') {
+        // RLS only returns the directory with a valid token from the participant-access function
+        if (!getParticipantAccessToken(slug) || !(await fetchParticipants(eventData.id))) {
+          clearParticipantAccessToken(slug!);
+          setLocked(true);
+        }
+      }
     }
     setLoading(false);
   };
 
+  // False when nothing comes back, e.g. because the directory token has been revoked
+  const fetchParticipants = async (eventId: string): Promise<boolean> => {
+    const { data: participantData } = await withParticipantAccess(
+      supabase
+        .from('participants')
+        .select('id, name, company, category')
+        .eq('event_id', eventId)
+        .order('name', { ascending: true }),
+      slug
+    );
+
+    setParticipants(participantData || []);
+    return !!participantData && participantData.length > 0;
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!event || !slug || !codeInput.trim()) return;
+
+    setUnlocking(true);
+    const { data, error } = await supabase.functions.invoke('participant-access', { body: { slug, code: codeInput.trim() } });
+    if (error || !data?.token) {
+      setCodeError(accessCodeErrorMessage(error));
+      setUnlocking(false);
+      return;
+    }
+
+    saveParticipantAccessToken(slug, data.token, data.expiresAt);
+    await fetchParticipants(event.id);
+    setCodeInput('');
+    setCodeError(null);
+    setLocked(false);
+    setUnlocking(false);
+  };
+
   // Check if any participant has category data
   const hasCategories = useMemo(
     () => participants.some(p => p.category && p.category.trim().length > 0),
@@ -167,6 +233,8 @@ export default function EventParticipants() {
   }
 
   const totalShown = displayData.mode === 'name' ? displayData.items.length : displayData.total;
+  const totalCount = counts.reduce((sum, count) => sum + count.participants, 0);
+  const showCounts = event.participant_directory === 'hidden' || locked;
 
   return (
     <div className="min-h-screen bg-secondary/20 pb-20">
@@ -180,6 +248,56 @@ export default function EventParticipants() {
         </div>
       </header>
 
+      {showCounts ? (
+        <div className="max-w-4xl mx-auto px-4 py-6 space-y-4">
+          <Card>
+            <CardContent className="py-6 space-y-4">
+              <div className="text-center">
+                <div className="text-4xl font-bold">{totalCount}</div>
+                <div className="text-muted-foreground">påmeldte deltakere</div>
+              </div>
+              {counts.some(count => count.category) && (
+                <div className="space-y-1">
+                  {counts.map(count => (
+                    <div key={count.category ?? ''} className="flex justify-between text-sm">
+                      <span>{count.category || 'Ingen kategori'}</span>
+                      <span className="text-muted-foreground">{count.participants}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {locked ? (
+            <Card>
+              <CardContent className="py-6">
+                <form onSubmit={handleUnlock} className="space-y-3">
+                  <div className="flex items-center gap-2 font-semibold">
+                    <Lock className="h-4 w-4" />
+                    Deltakerlisten krever tilgangskode
+                  </div>
+                  <p className="text-sm text-muted-foreground">Du finner koden i informasjonen fra arrangøren.</p>
+                  <div className="flex gap-2">
+                    <Input
+                      value={codeInput}
+                      onChange={(e) => { setCodeInput(e.target.value); setCodeError(null); }}
+                      placeholder="Tilgangskode"
+                      aria-invalid={!!codeError}
+                    />
+                    <Button type="submit" disabled={unlocking || !codeInput.trim()}>
+                      Åpne
+                    </Button>
+                  </div>
+                  {codeError && <p className="text-sm text-destructive">{codeError}</p>}
+                </form>
+              </CardContent>
+            </Card>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center">Deltakerlisten er ikke offentlig for dette arrangementet.</p>
+          )}
+        </div>
+      ) : (
       <div className="max-w-4xl mx-auto px-4 py-6">
         <div className="mb-6 space-y-4">
           <div className="relative">
@@ -259,7 +377,16 @@ export default function EventParticipants() {
         <div className="mt-4 text-sm text-muted-foreground text-center">
           Viser {totalShown} av {participants.length} deltakere
         </div>
+
+        <div className="mt-2 text-center">
+          <Button variant="link" size="sm" className="text-muted-foreground" onClick={() => setRemovalOpen(true)}>
+            Vil du ikke stå på listen? Be om å bli fjernet
+          </Button>
+        </div>
       </div>
+      )}
+
+      <ParticipantRemovalDialog open={removalOpen} onOpenChange={setRemovalOpen} eventId={event.id} eventSlug={slug!} />
 
       <BottomNav
         eventSlug={slug!}
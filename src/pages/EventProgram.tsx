@@ -1,37 +1,52 @@
-import { useEffect, useState } from 'react';
-import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { useEffect, useRef, useState } from 'react';
+import { useLocation, useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { publishedStates, withEventAccess } from '@/lib/eventAccess';
 import { MEFLogo } from '@/components/MEFLogo';
 import { BottomNav } from '@/components/BottomNav';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { ArrowLeft, Clock, MapPin, ExternalLink } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ProgramNowNext } from '@/components/ProgramNowNext';
+import { ProgramTimelineGrid } from '@/components/ProgramTimelineGrid';
+import { AlertTriangle, ArrowLeft, CalendarDays, CalendarPlus, Clock, Columns3, List, MapPin, ExternalLink, Share2, Star } from 'lucide-react';
+import { toast } from 'sonner';
 import ReactMarkdown from 'react-markdown';
 import { cn } from '@/lib/utils';
+import { convertGoogleDriveUrl } from '@shared/googleDrive';
+import { parseIsoDay } from '@shared/dateNormalization';
+import { useProgramFavourites } from '@/hooks/use-program-favourites';
+import { findConflicts, itemStatus, osloToday } from '@/lib/programSchedule';
+import { useNow } from '@/hooks/use-now';
+import { downloadItemCalendar, programFeedUrl } from '@/lib/programCalendar';
 
-function convertGoogleDriveUrl(url: string | null): string | null {
-  if (!url) return null;
-  // Extract file ID from various Google Drive URL formats
-  let fileId: string | null = null;
-  // /file/d/FILE_ID/...
-  const fileMatch = url.match(/drive\.google\.com\/file\/d\/([a-zA-Z0-9_-]+)/);
-  if (fileMatch) fileId = fileMatch[1];
-  // /open?id=FILE_ID
-  if (!fileId) {
-    const openMatch = url.match(/drive\.google\.com\/open\?id=([a-zA-Z0-9_-]+)/);
-    if (openMatch) fileId = openMatch[1];
-  }
-  // uc?export=view&id=FILE_ID
-  if (!fileId) {
-    const ucMatch = url.match(/drive\.google\.com\/uc\?.*id=([a-zA-Z0-9_-]+)/);
-    if (ucMatch) fileId = ucMatch[1];
-  }
-  // Use lh3.googleusercontent.com which works cross-origin
-  if (fileId) return `https://lh3.googleusercontent.com/d/${fileId}`;
-  return url;
+function FavouriteButton({ active, onToggle, className }: { active: boolean; onToggle: () => void; className?: string }) {
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className={cn('h-8 w-8 shrink-0', className)}
+      aria-label={active ? 'Fjern fra Min plan' : 'Legg til i Min plan'}
+      aria-pressed={active}
+      onClick={(e) => {
+        e.stopPropagation();
+        onToggle();
+      }}
+    >
+      <Star className={cn('h-5 w-5', active ? 'fill-amber-400 text-amber-500' : 'text-muted-foreground')} />
+    </Button>
+  );
 }
 
+// Whether finished items are hidden and list or grid view; preferences of the device, not of the event
+const HIDE_PAST_KEY = 'programHidePast';
+const VIEW_KEY = 'programView';
+
+type ProgramView = 'list' | 'grid';
+
 function ImageWithFallback({ src, alt, className, style }: { src: string; alt: string; className?: string; style?: React.CSSProperties }) {
   const [failed, setFailed] = useState(false);
   if (failed) return null;
@@ -64,15 +79,21 @@ interface ProgramItem {
 }
 
 export default function EventProgram() {
-  const { slug } = useParams();
+  const { slug, itemId } = useParams();
   const navigate = useNavigate();
+  const location = useLocation();
   const [searchParams, setSearchParams] = useSearchParams();
   const [event, setEvent] = useState<Event | null>(null);
   const [items, setItems] = useState<ProgramItem[]>([]);
-  const [selectedItem, setSelectedItem] = useState<ProgramItem | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedDay, setSelectedDay] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [planOnly, setPlanOnly] = useState(false);
+  const { favourites, toggleFavourite } = useProgramFavourites(slug);
+  const now = useNow();
+  const [hidePast, setHidePast] = useState(() => localStorage.getItem(HIDE_PAST_KEY) === '1');
+  const [view, setView] = useState<ProgramView>(() => localStorage.getItem(VIEW_KEY) === 'grid' ? 'grid' : 'list');
+  const scrolledToNow = useRef(false);
 
   useEffect(() => {
     fetchData();
@@ -83,25 +104,53 @@ export default function EventProgram() {
     const categoryParam = searchParams.get('category');
     setSelectedDay(dayParam);
     setSelectedCategory(categoryParam);
+    setPlanOnly(searchParams.get('plan') === '1');
   }, [searchParams]);
 
+  // Once the program is on screen, bring the linked item, or today's current or next item, into view
+  useEffect(() => {
+    if (loading || scrolledToNow.current) return;
+    scrolledToNow.current = true;
+    const nowMs = Date.now();
+    const today = osloToday(nowMs);
+    const target = items.find(item => item.id === itemId)
+      ?? items.find(item => item.day === today && itemStatus(item, nowMs) !== 'past');
+    if (target) {
+      document.getElementById(`program-item-${target.id}`)?.scrollIntoView({ block: 'center' });
+    }
+  }, [loading, items, itemId]);
+
+  // A link to an item that has since been removed from the program lands on the list
+  useEffect(() => {
+    if (!loading && itemId && !items.some(item => item.id === itemId)) {
+      toast.error('Fant ikke programposten');
+      navigate(`/events/${slug}/program`, { replace: true });
+    }
+  }, [loading, items, itemId, slug, navigate]);
+
   const fetchData = async () => {
-    const { data: eventData } = await supabase
-      .from('events')
-      .select('*')
-      .eq('slug', slug)
-      .eq('published', true)
-      .single();
+    const { data: eventData } = await withEventAccess(
+      supabase
+        .from('events')
+        .select('*')
+        .eq('slug', slug)
+        .in('published', publishedStates(slug))
+        .single(),
+      slug
+    );
 
     if (eventData) {
       setEvent(eventData);
       
-      const { data: programData } = await supabase
-        .from('program_items')
-        .select('*')
-        .eq('event_id', eventData.id)
-        .order('day', { ascending: true })
-        .order('start_time', { ascending: true });
+      const { data: programData } = await withEventAccess(
+        supabase
+          .from('program_items')
+          .select('*')
+          .eq('event_id', eventData.id)
+          .order('day', { ascending: true })
+          .order('start_time', { ascending: true }),
+        slug
+      );
 
       setItems(programData || []);
     }
@@ -146,16 +195,24 @@ export default function EventProgram() {
   const uniqueCategories = extractCategories(items);
   const showCategoryFilters = uniqueCategories.length > 0;
 
-  // Filter by category
+  // Starred items that overlap each other
+  const favouriteItems = items.filter(item => favourites.has(item.id));
+  const conflicts = findConflicts(favouriteItems);
+
+  const hasPastItems = items.some(item => itemStatus(item, now) === 'past');
+
+  // Filter by "Min plan" and finished items, then by category
+  const planFilteredItems = (planOnly ? favouriteItems : items)
+    .filter(item => !hidePast || itemStatus(item, now) !== 'past');
   const categoryFilteredItems = selectedCategory
-    ? items.filter(item => {
+    ? planFilteredItems.filter(item => {
         if (!item.category) return false;
         const itemCategories = item.category
           .split(',')
           .map(cat => cat.trim().toLowerCase());
         return itemCategories.includes(selectedCategory.toLowerCase());
       })
-    : items;
+    : planFilteredItems;
 
   // Group filtered items by day
   const filteredGroupedByDay = categoryFilteredItems.reduce((acc, item) => {
@@ -170,22 +227,90 @@ export default function EventProgram() {
     ? { [selectedDay]: filteredGroupedByDay[selectedDay] || [] }
     : filteredGroupedByDay;
 
-  const handleDayFilter = (day: string | null) => {
-    setSelectedDay(day);
+  // Filters live in the URL, so they survive a reload and the back button
+  const updateFilters = (changes: { day?: string | null; category?: string | null; plan?: boolean }) => {
+    const day = changes.day !== undefined ? changes.day : selectedDay;
+    const category = changes.category !== undefined ? changes.category : selectedCategory;
+    const plan = changes.plan ?? planOnly;
     const params: Record<string, string> = {};
     if (day) params.day = day;
-    if (selectedCategory) params.category = selectedCategory;
+    if (category) params.category = category;
+    if (plan) params.plan = '1';
     setSearchParams(params);
   };
 
+  const handleDayFilter = (day: string | null) => {
+    setSelectedDay(day);
+    updateFilters({ day });
+  };
+
   const handleCategoryFilter = (category: string | null) => {
     setSelectedCategory(category);
-    const params: Record<string, string> = {};
-    if (selectedDay) params.day = selectedDay;
-    if (category) params.category = category;
-    setSearchParams(params);
+    updateFilters({ category });
+  };
+
+  const handlePlanFilter = (plan: boolean) => {
+    setPlanOnly(plan);
+    updateFilters({ plan });
+  };
+
+  const handleHidePast = (hide: boolean) => {
+    setHidePast(hide);
+    localStorage.setItem(HIDE_PAST_KEY, hide ? '1' : '0');
+  };
+
+  const handleView = (next: ProgramView) => {
+    setView(next);
+    localStorage.setItem(VIEW_KEY, next);
+  };
+
+  // Every item has its own address, so it can be shared or put on a QR code by the door.
+  // The list's filters ride along in the search, so closing the item goes back to the same list.
+  const openItem = (item: ProgramItem) => {
+    navigate({ pathname: `/events/${slug}/program/${item.id}`, search: location.search }, { state: { fromList: true } });
   };
 
+  const closeItem = () => {
+    if ((location.state as { fromList?: boolean } | null)?.fromList) {
+      navigate(-1);
+    } else {
+      navigate({ pathname: `/events/${slug}/program`, search: location.search }, { replace: true });
+    }
+  };
+
+  const handleSubscribe = async () => {
+    try {
+      window.location.href = await programFeedUrl(event.id, slug!, selectedCategory);
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      toast.error('Kunne ikke lage kalenderabonnementet');
+    }
+  };
+
+  const handleShare = async (item: ProgramItem) => {
+    const url = `${window.location.origin}/events/${slug}/program/${item.id}`;
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: item.title, text: `${event.name}: ${item.title}`, url });
+        return;
+      } catch (error) {
+        // Closing the share sheet is not a failure; anything else falls back to copying
+        if (error instanceof Error && error.name === 'AbortError') return;
+      }
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Lenken er kopiert');
+    } catch (error) {
+      // No clipboard access, e.g. over plain http or when the browser says no: show the link instead
+      console.error('Error copying link:', error);
+      toast.error('Kunne ikke kopiere lenken', { description: url, duration: 15000 });
+    }
+  };
+
+  const selectedItem = itemId ? items.find(item => item.id === itemId) ?? null : null;
+  const selectedConflicts = selectedItem ? conflicts.get(selectedItem.id) ?? [] : [];
+
   return (
     <div className="min-h-screen bg-secondary/20 pb-20">
       <header className="bg-card border-b border-border sticky top-0 z-40">
@@ -199,6 +324,66 @@ export default function EventProgram() {
       </header>
 
       <div className="max-w-4xl mx-auto px-4 py-6">
+        <ProgramNowNext items={items} now={now} onSelect={openItem} className="mb-6" />
+
+        <div className="mb-4 flex flex-wrap items-center gap-2">
+          <Button
+            variant={planOnly ? 'default' : 'outline'}
+            onClick={() => handlePlanFilter(!planOnly)}
+          >
+            <Star className={cn('mr-2 h-4 w-4', planOnly && 'fill-current')} />
+            Min plan{favouriteItems.length > 0 && ` (${favouriteItems.length})`}
+          </Button>
+          {conflicts.size > 0 && (
+            <span className="flex items-center gap-1 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              {conflicts.size} poster i planen kolliderer
+            </span>
+          )}
+          {items.length > 0 && (
+            <Button
+              variant="outline"
+              className="ml-auto"
+              onClick={handleSubscribe}
+              title={selectedCategory ? 'Abonner på programmet for denne kategorien' : 'Abonner på hele programmet'}
+            >
+              <CalendarDays className="mr-2 h-4 w-4" />
+              Abonner i kalender
+            </Button>
+          )}
+        </div>
+
+        <div className="mb-4 flex flex-wrap items-center gap-4">
+          <div className="flex rounded-md border border-border" role="group" aria-label="Visning">
+            <Button
+              variant={view === 'list' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="rounded-r-none"
+              aria-pressed={view === 'list'}
+              onClick={() => handleView('list')}
+            >
+              <List className="mr-2 h-4 w-4" />
+              Liste
+            </Button>
+            <Button
+              variant={view === 'grid' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="rounded-l-none"
+              aria-pressed={view === 'grid'}
+              onClick={() => handleView('grid')}
+            >
+              <Columns3 className="mr-2 h-4 w-4" />
+              Rutenett
+            </Button>
+          </div>
+          {hasPastItems && (
+            <div className="flex items-center gap-2">
+              <Switch id="hide_past" checked={hidePast} onCheckedChange={handleHidePast} />
+              <Label htmlFor="hide_past" className="font-normal">Skjul ferdige</Label>
+            </div>
+          )}
+        </div>
+
         {showDayFilters && (
           <div className="mb-4">
             <div className="flex flex-wrap gap-2">
@@ -209,7 +394,7 @@ export default function EventProgram() {
                 Alle dager
               </Button>
               {uniqueDays.map((day) => {
-                const date = new Date(day + 'T00:00:00');
+                const date = parseIsoDay(day);
                 const dayName = date.toLocaleDateString('no-NO', { weekday: 'long' });
                 const capitalized = dayName.charAt(0).toUpperCase() + dayName.slice(1);
                 
@@ -258,7 +443,13 @@ export default function EventProgram() {
           </div>
         )}
         
-        {Object.keys(finalFilteredGroupedByDay).length === 0 ? (
+        {planOnly && favouriteItems.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Du har ikke lagt noe i planen ennå. Trykk på stjernen ved det du vil få med deg.
+            </CardContent>
+          </Card>
+        ) : Object.keys(finalFilteredGroupedByDay).length === 0 ? (
           <Card>
             <CardContent className="py-12 text-center text-muted-foreground">
               Ingen programposter {selectedDay && 'denne dagen'}{selectedCategory && selectedDay && ' og '}{selectedCategory && 'i denne kategorien'}
@@ -269,22 +460,37 @@ export default function EventProgram() {
             {Object.entries(finalFilteredGroupedByDay).map(([day, dayItems]) => (
               <div key={day}>
                 <h2 className="text-xl font-bold mb-3">
-                  {new Date(day).toLocaleDateString('nb-NO', { 
+                  {parseIsoDay(day).toLocaleDateString('nb-NO', { 
                     weekday: 'long', 
                     year: 'numeric', 
                     month: 'long', 
                     day: 'numeric' 
                   })}
                 </h2>
+                {view === 'grid' ? (
+                  <ProgramTimelineGrid
+                    items={dayItems}
+                    categories={uniqueCategories}
+                    now={now}
+                    favourites={favourites}
+                    onSelect={openItem}
+                  />
+                ) : (
                 <div className="space-y-2">
                   {dayItems.map((item) => {
                     const img1 = convertGoogleDriveUrl(item.image_url);
                     const img2 = convertGoogleDriveUrl(item.image_url_2);
+                    const status = itemStatus(item, now);
                     return (
                     <Card 
                       key={item.id} 
-                      className="cursor-pointer hover:border-primary transition-colors"
-                      onClick={() => setSelectedItem(item)}
+                      id={`program-item-${item.id}`}
+                      className={cn(
+                        "cursor-pointer hover:border-primary transition-colors",
+                        status === 'current' && "border-primary bg-primary/5",
+                        status === 'past' && "opacity-60"
+                      )}
+                      onClick={() => openItem(item)}
                     >
                       <CardHeader className="pb-3">
                         <div className="flex items-start gap-3">
@@ -296,6 +502,13 @@ export default function EventProgram() {
                           <div className="flex-1 min-w-0 flex items-start gap-3">
                             <div className="flex-1 min-w-0">
                               <CardTitle className="text-base">{item.title}</CardTitle>
+                              {status === 'current' && <Badge className="mt-1">Pågår nå</Badge>}
+                              {conflicts.has(item.id) && (
+                                <div className="flex items-center gap-1 text-xs text-destructive mt-1">
+                                  <AlertTriangle className="h-3 w-3" />
+                                  Kolliderer med {conflicts.get(item.id)!.map(other => other.title).join(', ')}
+                                </div>
+                              )}
                               {item.location && (
                                 <div className="flex items-center gap-1 text-sm text-muted-foreground mt-1">
                                   <MapPin className="h-3 w-3" />
@@ -324,6 +537,11 @@ export default function EventProgram() {
                             ) : img1 ? (
                               <ImageWithFallback src={img1} alt="" className="rounded-lg object-cover" style={{ width: 52, height: 52, flexShrink: 0, border: '1px solid #e5e7eb' }} />
                             ) : null}
+                            <FavouriteButton
+                              active={favourites.has(item.id)}
+                              onToggle={() => toggleFavourite(item.id)}
+                              className="-mt-1 -mr-2"
+                            />
                           </div>
                         </div>
                       </CardHeader>
@@ -331,13 +549,14 @@ export default function EventProgram() {
                     );
                   })}
                 </div>
+                )}
               </div>
             ))}
           </div>
         )}
       </div>
 
-      <Dialog open={!!selectedItem} onOpenChange={() => setSelectedItem(null)}>
+      <Dialog open={!!selectedItem} onOpenChange={(open) => !open && closeItem()}>
         <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
           {selectedItem && (() => {
               const modalImg1 = convertGoogleDriveUrl(selectedItem.image_url);
@@ -355,7 +574,13 @@ export default function EventProgram() {
                   </div>
                 )}
                 <DialogHeader>
-                  <DialogTitle className="text-xl">{selectedItem.title}</DialogTitle>
+                  <div className="flex items-start gap-2 pr-6">
+                    <DialogTitle className="text-xl flex-1">{selectedItem.title}</DialogTitle>
+                    <FavouriteButton
+                      active={favourites.has(selectedItem.id)}
+                      onToggle={() => toggleFavourite(selectedItem.id)}
+                    />
+                  </div>
                   <div className="flex flex-col gap-2 text-sm text-muted-foreground pt-2">
                     <div className="flex items-center gap-2">
                       <Clock className="h-4 w-4" />
@@ -380,6 +605,14 @@ export default function EventProgram() {
                         )}
                       </div>
                     )}
+                    {selectedConflicts.length > 0 && (
+                      <div className="flex items-start gap-2 text-destructive">
+                        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                        <span>
+                          Kolliderer med {selectedConflicts.map(other => `${other.title} (${other.start_time.slice(0, 5)})`).join(', ')}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </DialogHeader>
                 {selectedItem.description && (
@@ -387,6 +620,16 @@ export default function EventProgram() {
                     <ReactMarkdown>{selectedItem.description}</ReactMarkdown>
                   </div>
                 )}
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" onClick={() => downloadItemCalendar(selectedItem, event.name)}>
+                    <CalendarPlus className="mr-2 h-4 w-4" />
+                    Legg til i kalender
+                  </Button>
+                  <Button variant="outline" onClick={() => handleShare(selectedItem)}>
+                    <Share2 className="mr-2 h-4 w-4" />
+                    Del
+                  </Button>
+                </div>
               </>
               );
             })()}
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { publishedStates, withEventAccess } from '@/lib/eventAccess';
 import { MEFLogo } from '@/components/MEFLogo';
 import { BottomNav } from '@/components/BottomNav';
 import { Button } from '@/components/ui/button';
@@ -39,12 +40,15 @@ export default function EventSponsors() {
 
   const fetchData = async () => {
     // Fetch event
-    const { data: eventData, error: eventError } = await supabase
-      .from('events')
-      .select('id, name, slug, sponsors_module_title, enable_program, enable_participants, enable_exhibitors, enable_map, enable_info, sponsors_module_enabled')
-      .eq('slug', slug)
-      .eq('published', true)
-      .single();
+    const { data: eventData, error: eventError } = await withEventAccess(
+      supabase
+        .from('events')
+        .select('id, name, slug, sponsors_module_title, enable_program, enable_participants, enable_exhibitors, enable_map, enable_info, sponsors_module_enabled')
+        .eq('slug', slug)
+        .in('published', publishedStates(slug))
+        .single(),
+      slug
+    );
 
     if (eventError || !eventData) {
       setLoading(false);
@@ -54,11 +58,14 @@ export default function EventSponsors() {
     setEvent(eventData);
 
     // Fetch sponsors
-    const { data: sponsorsData } = await supabase
-      .from('event_sponsors')
-      .select('*')
-      .eq('event_id', eventData.id)
-      .order('display_order', { ascending: true });
+    const { data: sponsorsData } = await withEventAccess(
+      supabase
+        .from('event_sponsors')
+        .select('*')
+        .eq('event_id', eventData.id)
+        .order('display_order', { ascending: true }),
+      slug
+    );
 
     setSponsors(sponsorsData || []);
     setLoading(false);
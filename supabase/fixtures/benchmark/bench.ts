@@ -0,0 +1,149 @@
+/**
+ * Sync benchmark with 10 000 rows (MAX_ROWS) in each of Program, Deltakere and Utstillere.
+ *
+ *   deno run -A supabase/fixtures/benchmark/bench.ts
+ *     Parses the generated tabs and reports the time per module. Needs no database.
+ *
+ *   deno run -A supabase/fixtures/benchmark/bench.ts --write <dir>
+ *     Also writes the tabs as CSV, e.g. for an upload import or SYNC_FIXTURES_DIR.
+ *
+ *   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... deno run -A supabase/fixtures/benchmark/bench.ts --event <id>
+ *     Runs the full sync into the given event, twice: once into empty tables and once more
+ *     unchanged. REPLACES THE EVENT'S DATA, so only point it at a test event. The program is
+ *     spread over the event's own days, since rows on other days are skipped and never written.
+ *
+ * The whole sync has to finish within the edge function wall clock limit (150 s on the free plan).
+ *
+ * Measured 2026-10-19 on one CPU core, without a database: parsing the three tabs takes 0.3 s
+ * (Program 146 ms, Deltakere 86 ms, Utstillere 88 ms). The end-to-end write with --event has
+ * not been measured yet; run it against a test project and add both "Full sync" lines here.
+ */
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { EventDates } from '../../functions/_shared/dateNormalization.ts';
+import { SHEET_MODULES, getSheetTab, type SheetModule } from '../../functions/_shared/sheetColumns.ts';
+import { MAX_ROWS, SheetNotFoundError, parseCsv, type SheetSource } from '../../functions/_shared/sheetSources.ts';
+import { parseModuleSheet, runSheetSync } from '../../functions/_shared/sheetSync.ts';
+
+const EDGE_LIMIT_MS = 150_000;
+
+const BENCH_EVENT_ID = '00000000-0000-4000-8000-000000000000';
+
+// Used for the days without --event, or when the event has no date yet
+const DEFAULT_DATES: EventDates = { date: '2026-03-12', end_date: '2026-03-13' };
+
+const TIMES = ['09:00', '9.30', '1015', '13:45:00'];
+
+// Every day of the event, each typed in one of the formats organisers use
+function eventDays({ date, end_date }: EventDates): string[] {
+  const days: string[] = [];
+  const last = new Date(`${end_date || date}T00:00:00Z`);
+  for (let day = new Date(`${date}T00:00:00Z`); day <= last; day.setUTCDate(day.getUTCDate() + 1)) {
+    const [year, month, dayOfMonth] = day.toISOString().slice(0, 10).split('-');
+    const formats = [`${year}-${month}-${dayOfMonth}`, `${dayOfMonth}.${month}.${year}`, `${dayOfMonth}/${month}/${year}`];
+    days.push(formats[days.length % formats.length]);
+  }
+  return days;
+}
+
+function csvLine(cells: string[]): string {
+  return cells.map((cell) => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(',');
+}
+
+function generateCsv(module: SheetModule, count: number, days: string[]): string {
+  const lines: string[] = [];
+  for (let i = 1; i <= count; i++) {
+    const n = String(i).padStart(5, '0');
+    switch (module) {
+      case 'program':
+        lines.push(csvLine([
+          `P${n}`, days[i % days.length], TIMES[i % TIMES.length], '',
+          `Foredrag ${i}`, `Beskrivelse av foredrag ${i}, med komma`, `Sal ${i % 8}`, `Spor ${i % 5}`,
+        ]));
+        break;
+      case 'participants':
+        lines.push(csvLine([`D${n}`, `Deltaker ${i}`, `Bedrift ${i % 700} AS`, i % 10 === 0 ? 'Foredragsholder' : 'Medlem']));
+        break;
+      case 'exhibitors':
+        lines.push(csvLine([`U${n}`, `Utstiller ${i} AS`, `${String.fromCharCode(65 + (i % 6))}${i % 100}`]));
+        break;
+    }
+  }
+  const headers: Partial<Record<SheetModule, string[]>> = {
+    program: ['id', 'dag', 'start', 'end', 'tittel', 'beskrivelse', 'sted', 'kategori'],
+    participants: ['id', 'navn', 'bedrift', 'kategori'],
+    exhibitors: ['id', 'bedriftsnavn', 'standnummer'],
+  };
+  return [csvLine(headers[module] ?? []), ...lines].join('\n');
+}
+
+function flag(name: string): string | undefined {
+  const idx = Deno.args.indexOf(name);
+  return idx >= 0 ? Deno.args[idx + 1] : undefined;
+}
+
+const eventId = flag('--event');
+const supabase = eventId
+  ? createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')
+  : null;
+
+let eventDates = DEFAULT_DATES;
+if (supabase && eventId) {
+  const { data, error } = await supabase.from('events').select('date, end_date').eq('id', eventId).maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error(`No event ${eventId}`);
+  if (data.date) eventDates = data;
+}
+const days = eventDays(eventDates);
+console.log(`Program days: ${eventDates.date} to ${eventDates.end_date || eventDates.date} (${days.length})`);
+
+const BENCH_MODULES: SheetModule[] = ['program', 'participants', 'exhibitors'];
+
+const tabs = new Map(BENCH_MODULES.map((module) => [getSheetTab(module, {}), generateCsv(module, MAX_ROWS, days)]));
+
+const source: SheetSource = {
+  load(tab) {
+    const csv = tabs.get(tab);
+    if (csv === undefined) return Promise.reject(new SheetNotFoundError(`No ${tab} tab in the benchmark`));
+    return Promise.resolve(parseCsv(csv, tab));
+  },
+};
+
+const writeDir = flag('--write');
+if (writeDir) {
+  await Deno.mkdir(writeDir, { recursive: true });
+  for (const [tab, csv] of tabs) await Deno.writeTextFile(`${writeDir}/${tab}.csv`, csv);
+  console.log(`Wrote ${tabs.size} tabs to ${writeDir}`);
+}
+
+let parseTotal = 0;
+for (const module of BENCH_MODULES) {
+  const tab = getSheetTab(module, {});
+  const start = performance.now();
+  const sheet = await source.load(tab);
+  const { rows, problems } = parseModuleSheet(module, sheet, tab, {}, BENCH_EVENT_ID, { eventDates });
+  const ms = performance.now() - start;
+  parseTotal += ms;
+  console.log(`${SHEET_MODULES[module].defaultTab}: ${rows.length} rows parsed, ${problems.length} problems, ${ms.toFixed(0)} ms`);
+}
+console.log(`Parsing: ${parseTotal.toFixed(0)} ms`);
+
+if (supabase && eventId) {
+  for (const [label, clearFirst] of [['into empty tables', true], ['unchanged', false]] as const) {
+    if (clearFirst) {
+      for (const table of ['program_items', 'participants', 'exhibitors']) {
+        const { error } = await supabase.from(table).delete().eq('event_id', eventId);
+        if (error) throw error;
+      }
+    }
+
+    const start = performance.now();
+    const results = await runSheetSync(supabase, { eventId, source, sheetConfig: {}, dryRun: false });
+    const ms = performance.now() - start;
+
+    const errors = Object.entries(results).flatMap(([module, result]) => result.errors.map((error) => `${module}: ${error}`));
+    const verdict = ms < EDGE_LIMIT_MS ? 'within' : 'OVER';
+    const written = BENCH_MODULES.map((module) => `${module} ${results[module].count}`).join(', ');
+    console.log(`Full sync ${label}: ${(ms / 1000).toFixed(1)} s, ${verdict} the ${EDGE_LIMIT_MS / 1000} s limit (${written})`);
+    if (errors.length > 0) console.log('Errors:', errors);
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { attemptPolicy, clientIp, codeMatches } from './accessCode.ts';
+
+const MINUTE = 60_000;
+const NOW = Date.parse('2026-06-10T12:00:00Z');
+
+const request = (headers: Record<string, string>) => new Request('https://example.org/', { headers });
+
+describe('clientIp', () => {
+  it('prefers the address the platform puts in cf-connecting-ip', () => {
+    expect(clientIp(request({ 'cf-connecting-ip': '203.0.113.7', 'x-forwarded-for': '198.51.100.1' }))).toBe('203.0.113.7');
+  });
+
+  it('takes the last x-forwarded-for entry, which the proxy appended', () => {
+    expect(clientIp(request({ 'x-forwarded-for': '10.0.0.1, 1.2.3.4, 203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('is not fooled by a client that sends a new first entry', () => {
+    const first = clientIp(request({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7' }));
+    const second = clientIp(request({ 'x-forwarded-for': '2.2.2.2, 203.0.113.7' }));
+    expect(first).toBe(second);
+  });
+
+  it('falls back to unknown without any address', () => {
+    expect(clientIp(request({}))).toBe('unknown');
+  });
+});
+
+describe('codeMatches', () => {
+  it('ignores case and surrounding spaces', () => {
+    expect(codeMatches('  Sommer2026 ', 'sommer2026')).toBe(true);
+  });
+
+  it('rejects a wrong code and codes of another length', () => {
+    expect(codeMatches('sommer2025', 'sommer2026')).toBe(false);
+    expect(codeMatches('sommer', 'sommer2026')).toBe(false);
+  });
+
+  it('never matches when no code is set', () => {
+    expect(codeMatches('', '')).toBe(false);
+    expect(codeMatches('x', null)).toBe(false);
+  });
+});
+
+describe('attemptPolicy', () => {
+  const quiet = { clientFailures: 0, lastClientFailureAt: null, eventFailures: 0 };
+
+  it('lets a visitor with few wrong codes try again at once', () => {
+    expect(attemptPolicy({ ...quiet, clientFailures: 4, lastClientFailureAt: NOW }, NOW)).toEqual({ retryAfterMs: 0, delayMs: 0 });
+  });
+
+  it('makes a visitor wait after five wrong codes, doubling with each further one', () => {
+    expect(attemptPolicy({ ...quiet, clientFailures: 5, lastClientFailureAt: NOW }, NOW).retryAfterMs).toBe(0.5 * MINUTE);
+    expect(attemptPolicy({ ...quiet, clientFailures: 6, lastClientFailureAt: NOW }, NOW).retryAfterMs).toBe(1 * MINUTE);
+    expect(attemptPolicy({ ...quiet, clientFailures: 8, lastClientFailureAt: NOW }, NOW).retryAfterMs).toBe(4 * MINUTE);
+  });
+
+  it('caps the wait at 15 minutes', () => {
+    expect(attemptPolicy({ ...quiet, clientFailures: 40, lastClientFailureAt: NOW }, NOW).retryAfterMs).toBe(15 * MINUTE);
+  });
+
+  it('counts the wait from the latest wrong code', () => {
+    const policy = attemptPolicy({ ...quiet, clientFailures: 6, lastClientFailureAt: NOW - 45_000 }, NOW);
+    expect(policy.retryAfterMs).toBe(15_000);
+    expect(attemptPolicy({ ...quiet, clientFailures: 6, lastClientFailureAt: NOW - 2 * MINUTE }, NOW).retryAfterMs).toBe(0);
+  });
+
+  it('never refuses other visitors because of guessing at the event', () => {
+    expect(attemptPolicy({ ...quiet, eventFailures: 10_000 }, NOW).retryAfterMs).toBe(0);
+  });
+
+  it('slows every answer down once the event is being guessed at, up to a limit', () => {
+    expect(attemptPolicy({ ...quiet, eventFailures: 100 }, NOW).delayMs).toBe(0);
+    expect(attemptPolicy({ ...quiet, eventFailures: 120 }, NOW).delayMs).toBe(2_000);
+    expect(attemptPolicy({ ...quiet, eventFailures: 10_000 }, NOW).delayMs).toBe(8_500);
+  });
+});
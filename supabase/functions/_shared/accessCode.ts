@@ -0,0 +1,127 @@
+// Checking access codes typed by visitors, shared by the event-access and participant-access
+// edge functions. Both answer a right code with a random token the site sends along afterwards.
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Wrong codes are answered slowly so the code cannot be guessed by trying many in a row
+export const FAILED_ATTEMPT_DELAY_MS = 1_500;
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Whether a typed code matches the stored one, ignoring case and surrounding spaces */
+export function codeMatches(typed: string, expected: string | null | undefined): boolean {
+  if (!expected?.trim()) return false;
+  return timingSafeEqual(typed.trim().toLowerCase(), expected.trim().toLowerCase());
+}
+
+// Compares in constant time so the code cannot be guessed character by character from response times
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+export function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export type AccessScope = 'event' | 'participants';
+
+// Wrong codes counted over this window
+const FAILURE_WINDOW_MS = 60 * 60_000;
+// One visitor gets this many wrong codes per window before having to wait between tries
+const FREE_FAILURES_PER_CLIENT = 5;
+// The first wait; it doubles with every further wrong code, up to the longest wait
+const CLIENT_BACKOFF_BASE_MS = 30_000;
+const CLIENT_BACKOFF_MAX_MS = 15 * 60_000;
+// Guessing spread over many addresses slows every check of the code down instead of refusing
+// them, so nobody can lock the members of a closed event out by sending wrong codes on purpose
+const EVENT_SLOWDOWN_AFTER = 100;
+const EVENT_SLOWDOWN_STEP_MS = 100;
+const EVENT_SLOWDOWN_MAX_MS = 8_500;
+
+/**
+ * The visitor's address. The platform's proxy sets cf-connecting-ip itself and appends the
+ * address it saw to x-forwarded-for, so only that last entry is trusted; anything before it
+ * came from the client and could be anything.
+ */
+export function clientIp(req: Request): string {
+  const connecting = req.headers.get('cf-connecting-ip')?.trim();
+  if (connecting) return connecting;
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',').map((entry) => entry.trim()).filter(Boolean);
+  return forwarded?.[forwarded.length - 1] || 'unknown';
+}
+
+export interface AttemptHistory {
+  // Wrong codes from this visitor within the window, and when the latest one came
+  clientFailures: number;
+  lastClientFailureAt: number | null;
+  // Wrong codes from everyone for this slug within the window
+  eventFailures: number;
+}
+
+export interface AttemptPolicy {
+  // The visitor has to wait this long before the next code is checked; 0 when it may go ahead
+  retryAfterMs: number;
+  // How long to hold every answer, right or wrong, while the event is being guessed at
+  delayMs: number;
+}
+
+/** What to do with the next code from a visitor, given the recent wrong codes */
+export function attemptPolicy({ clientFailures, lastClientFailureAt, eventFailures }: AttemptHistory, now: number): AttemptPolicy {
+  let retryAfterMs = 0;
+  if (clientFailures >= FREE_FAILURES_PER_CLIENT && lastClientFailureAt !== null) {
+    const wait = Math.min(
+      CLIENT_BACKOFF_BASE_MS * 2 ** (clientFailures - FREE_FAILURES_PER_CLIENT),
+      CLIENT_BACKOFF_MAX_MS,
+    );
+    retryAfterMs = Math.max(lastClientFailureAt + wait - now, 0);
+  }
+  const delayMs = Math.min(Math.max(eventFailures - EVENT_SLOWDOWN_AFTER, 0) * EVENT_SLOWDOWN_STEP_MS, EVENT_SLOWDOWN_MAX_MS);
+  return { retryAfterMs, delayMs };
+}
+
+/** Reads the recent wrong codes for the slug and decides what to do with the visitor's next one */
+export async function checkAttempt(supabase: SupabaseClient, scope: AccessScope, slug: string, ip: string): Promise<AttemptPolicy> {
+  const since = new Date(Date.now() - FAILURE_WINDOW_MS).toISOString();
+  const [client, all] = await Promise.all([
+    supabase
+      .from('access_code_failures')
+      .select('created_at', { count: 'exact' })
+      .eq('slug', slug)
+      .eq('scope', scope)
+      .eq('client_ip', ip)
+      .gt('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(1),
+    supabase
+      .from('access_code_failures')
+      .select('id', { count: 'exact', head: true })
+      .eq('slug', slug)
+      .eq('scope', scope)
+      .gt('created_at', since),
+  ]);
+  if (client.error) throw client.error;
+  if (all.error) throw all.error;
+
+  const latest = client.data?.[0] as { created_at: string } | undefined;
+  return attemptPolicy({
+    clientFailures: client.count ?? 0,
+    lastClientFailureAt: latest ? new Date(latest.created_at).getTime() : null,
+    eventFailures: all.count ?? 0,
+  }, Date.now());
+}
+
+export async function recordFailure(supabase: SupabaseClient, scope: AccessScope, slug: string, ip: string) {
+  const { error } = await supabase.from('access_code_failures').insert({ slug, scope, client_ip: ip });
+  if (error) console.error('Could not record failed access code:', error);
+  // Older failures no longer count; clear them out while we are here
+  await supabase
+    .from('access_code_failures')
+    .delete()
+    .eq('slug', slug)
+    .lt('created_at', new Date(Date.now() - FAILURE_WINDOW_MS).toISOString());
+}
@@ -0,0 +1,52 @@
+// Runs every case in supabase/fixtures/dates/normalization.json: npm test
+import { describe, expect, it } from 'vitest';
+import fixtures from '../../fixtures/dates/normalization.json';
+import {
+  isDayWithinEvent,
+  normalizeDate,
+  normalizeDateTime,
+  normalizeTime,
+  osloTimeToIso,
+} from './dateNormalization.ts';
+
+const label = (input: unknown, note?: string) => `${JSON.stringify(input)}${note ? ` (${note})` : ''}`;
+
+describe('normalizeDate', () => {
+  for (const { input, referenceYear, expected, note } of fixtures.normalizeDate) {
+    it(label(input, note), () => {
+      expect(normalizeDate(input, { referenceYear })).toBe(expected);
+    });
+  }
+});
+
+describe('normalizeTime', () => {
+  for (const { input, expected, note } of fixtures.normalizeTime) {
+    it(label(input, note), () => {
+      expect(normalizeTime(input)).toBe(expected);
+    });
+  }
+});
+
+describe('normalizeDateTime', () => {
+  for (const { input, referenceYear, expected } of fixtures.normalizeDateTime) {
+    it(label(input), () => {
+      expect(normalizeDateTime(input, { referenceYear })).toEqual(expected);
+    });
+  }
+});
+
+describe('isDayWithinEvent', () => {
+  for (const { day, event, expected, note } of fixtures.isDayWithinEvent) {
+    it(label(`${day} in ${event.date}..${event.end_date}`, note), () => {
+      expect(isDayWithinEvent(day, event)).toBe(expected);
+    });
+  }
+});
+
+describe('osloTimeToIso', () => {
+  for (const { day, time, expected, note } of fixtures.osloTimeToIso) {
+    it(label(`${day} ${time}`, note), () => {
+      expect(osloTimeToIso(day, time)).toBe(expected);
+    });
+  }
+});
@@ -0,0 +1,222 @@
+/**
+ * Turns the dates and times organisers type into a sheet into YYYY-MM-DD and HH:MM. Everything is
+ * done on the calendar fields themselves, never through Date and toISOString, so a day cannot move
+ * with the time zone the code happens to run in. Used by the sheet sync and by the front end, so it
+ * must not depend on Deno or the browser.
+ */
+
+export interface EventDates {
+  // events.date and events.end_date, YYYY-MM-DD
+  date: string | null;
+  end_date: string | null;
+}
+
+export interface NormalizeDateOptions {
+  // Year used when the value has none, e.g. "tirsdag 12. mars". Without it such values are rejected.
+  referenceYear?: number | null;
+}
+
+// Norwegian and English month names and their usual abbreviations
+const MONTHS: Record<string, number> = {
+  januar: 1, january: 1, jan: 1,
+  februar: 2, february: 2, feb: 2,
+  mars: 3, march: 3, mar: 3,
+  april: 4, apr: 4,
+  mai: 5, may: 5,
+  juni: 6, june: 6, jun: 6,
+  juli: 7, july: 7, jul: 7,
+  august: 8, aug: 8,
+  september: 9, sept: 9, sep: 9,
+  oktober: 10, october: 10, okt: 10, oct: 10,
+  november: 11, nov: 11,
+  desember: 12, december: 12, des: 12, dec: 12,
+};
+
+// Excel and Google Sheets count days from 1899-12-30; serial 25569 is 1970-01-01
+const EXCEL_UNIX_EPOCH = 25569;
+const MS_PER_DAY = 86_400_000;
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function toIsoDay(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function fullYear(year: string): number {
+  // "26" is 2026; nobody plans programmes for the last century
+  return year.length === 2 ? 2000 + Number(year) : Number(year);
+}
+
+/**
+ * Normalizes a programme day to YYYY-MM-DD, or null when it cannot be read. Accepts ISO dates
+ * (with or without a time part), 12.03.2026, 12/3/26, 12-03-2026, 2026/03/12, "12. mars 2026",
+ * "tirsdag 12. mars", "12 mar" and Excel serial dates such as 46093.
+ */
+export function normalizeDate(value: string | null | undefined, { referenceYear }: NormalizeDateOptions = {}): string | null {
+  if (value === null || value === undefined) return null;
+  // A leading weekday or "den" adds nothing: "tirsdag 12. mars", "den 12.03.2026"
+  const text = String(value).trim().toLowerCase()
+    .replace(/^([a-zæøå]+)\.?,?\s+(?=\d)/, (prefix, word: string) => (MONTHS[word] ? prefix : ''));
+  if (!text) return null;
+
+  // 2026-03-12, 2026/03/12, 2026.03.12, optionally followed by a time
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[t\s].*)?$/);
+  if (match) return toIsoDay(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  // 12.03.2026, 12/03/26, 12-3-2026
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (match) return toIsoDay(fullYear(match[3]), Number(match[2]), Number(match[1]));
+
+  // 12.03 or 12/3 without a year
+  match = text.match(/^(\d{1,2})[./](\d{1,2})\.?$/);
+  if (match) return referenceYear ? toIsoDay(referenceYear, Number(match[2]), Number(match[1])) : null;
+
+  // 12. mars 2026, 12 mar, 12.mars
+  match = text.match(/^(\d{1,2})\.?\s*([a-zæøå]+)\.?,?(?:\s+(\d{4}))?$/);
+  if (match && MONTHS[match[2]]) {
+    const year = match[3] ? Number(match[3]) : referenceYear;
+    return year ? toIsoDay(year, MONTHS[match[2]], Number(match[1])) : null;
+  }
+
+  // mars 12, 2026 / March 12 2026
+  match = text.match(/^([a-z]+)\.?\s+(\d{1,2}),?(?:\s+(\d{4}))?$/);
+  if (match && MONTHS[match[1]]) {
+    const year = match[3] ? Number(match[3]) : referenceYear;
+    return year ? toIsoDay(year, MONTHS[match[1]], Number(match[2])) : null;
+  }
+
+  // Excel serial date, sometimes with a time fraction. Five digits keeps years like "2026" out.
+  match = text.match(/^(\d{5})(?:[.,]\d+)?$/);
+  if (match) {
+    const date = new Date((Number(match[1]) - EXCEL_UNIX_EPOCH) * MS_PER_DAY);
+    return toIsoDay(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+
+  return null;
+}
+
+function toTime(hours: number, minutes: number): string | null {
+  if (hours > 23 || minutes > 59) return null;
+  return `${pad(hours)}:${pad(minutes)}`;
+}
+
+/**
+ * Normalizes a time of day to HH:MM, or null when it cannot be read. Accepts 09:30, 9.30, 930,
+ * 0930, 9, "kl 0930", "kl. 9.30", 09:30:00, "9:30 AM", "9 pm" and Excel day fractions such as 0.3958.
+ */
+export function normalizeTime(value: string | null | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim().toLowerCase().replace(/^(kl\.?|klokka|klokken)\s*/, '');
+  if (!text) return null;
+
+  // 9:30 am, 9 pm, 12.15 p.m.
+  let match = text.match(/^(\d{1,2})(?:[:.](\d{2}))?\s*([ap])\.?m\.?$/);
+  if (match) {
+    const hours = Number(match[1]);
+    if (hours < 1 || hours > 12) return null;
+    return toTime((hours % 12) + (match[3] === 'p' ? 12 : 0), Number(match[2] ?? 0));
+  }
+
+  // 09:30, 9.30, 9:30:00, 9. Something like 0.75 is no time of day and is read as an Excel fraction below.
+  match = text.match(/^(\d{1,2})(?:[:.](\d{2})(?::\d{2})?)?$/);
+  const clockTime = match && toTime(Number(match[1]), Number(match[2] ?? 0));
+  if (clockTime) return clockTime;
+
+  // 0930, 930
+  match = text.match(/^(\d{1,2})(\d{2})$/);
+  if (match) return toTime(Number(match[1]), Number(match[2]));
+
+  // Excel time, stored as a fraction of a day
+  match = text.match(/^0?[.,](\d+)$/);
+  if (match) {
+    const minutes = Math.round(Number(`0.${match[1]}`) * 24 * 60);
+    return minutes < 24 * 60 ? toTime(Math.floor(minutes / 60), minutes % 60) : null;
+  }
+
+  return null;
+}
+
+/** The year to assume for days typed without one: the year the event starts */
+export function eventReferenceYear(dates: EventDates | null): number | null {
+  return dates?.date ? Number(dates.date.slice(0, 4)) : null;
+}
+
+/** Whether a YYYY-MM-DD day falls within the event. Events without a date accept any day. */
+export function isDayWithinEvent(day: string, dates: EventDates | null): boolean {
+  if (!dates?.date) return true;
+  // ISO days compare correctly as strings
+  return day >= dates.date && day <= (dates.end_date || dates.date);
+}
+
+/** 12.03.2026 */
+export function formatDay(day: string): string {
+  const [year, month, date] = day.split('-');
+  return `${date}.${month}.${year}`;
+}
+
+/** A YYYY-MM-DD day as a Date at local midnight; new Date('2026-03-12') would be UTC midnight */
+export function parseIsoDay(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+}
+
+/**
+ * Normalizes a date with an optional time, e.g. "13.03.2026 18:00", "2026-03-13T18:00" or
+ * "tirsdag 13. mars kl 18", to a day and HH:MM. Without a time the day starts at 00:00.
+ */
+export function normalizeDateTime(
+  value: string | null | undefined,
+  options: NormalizeDateOptions = {},
+): { day: string; time: string } | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+
+  // Excel serial date with the time as a fraction of the day
+  const serial = text.match(/^(\d{5})[.,](\d+)$/);
+  if (serial) {
+    const day = normalizeDate(serial[1]);
+    const time = normalizeTime(`0.${serial[2]}`);
+    return day && time ? { day, time } : null;
+  }
+
+  const match = text.match(/^(.*?)(?:[\sT,]+)(?:kl\.?\s*|klokka\s+|klokken\s+)?(\d{1,2}(?:[:.]\d{2}(?::\d{2})?)?)$/i);
+  if (match) {
+    const day = normalizeDate(match[1], options);
+    const time = normalizeTime(match[2]);
+    if (day && time) return { day, time };
+  }
+
+  // "tirsdag 12.03" ends in something that looks like a time, but is a day
+  const day = normalizeDate(text, options);
+  return day ? { day, time: '00:00' } : null;
+}
+
+// Europe/Oslo follows the EU rule: UTC+2 from 01:00 UTC on the last Sunday of March until 01:00
+// UTC on the last Sunday of October, UTC+1 otherwise
+function lastSundayAtOneUtc(year: number, month: number): number {
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  return Date.UTC(year, month - 1, lastDay.getUTCDate() - lastDay.getUTCDay(), 1);
+}
+
+/** Offset of Europe/Oslo from UTC, in minutes, at the given moment */
+export function osloOffsetMinutes(utcMs: number): number {
+  const year = new Date(utcMs).getUTCFullYear();
+  const summer = utcMs >= lastSundayAtOneUtc(year, 3) && utcMs < lastSundayAtOneUtc(year, 10);
+  return summer ? 120 : 60;
+}
+
+/** A day and HH:MM on the clock in Norway as an ISO timestamp in UTC */
+export function osloTimeToIso(day: string, time: string): string {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const local = Date.UTC(year, month - 1, date, hours, minutes);
+  // The offset an hour before is the one in force, also right after the clocks change
+  return new Date(local - osloOffsetMinutes(local - 60 * 60_000) * 60_000).toISOString();
+}
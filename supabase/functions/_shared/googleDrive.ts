@@ -0,0 +1,30 @@
+/**
+ * Google Drive link handling shared by the sheet sync and the program page, which still has to
+ * show rows synced before images were mirrored into storage.
+ */
+
+// Extract the file ID from the usual Google Drive share URL formats
+export function extractDriveFileId(url: string): string | null {
+  // /file/d/FILE_ID/...
+  const fileMatch = url.match(/drive\.google\.com\/file\/d\/([a-zA-Z0-9_-]+)/);
+  if (fileMatch) return fileMatch[1];
+  // /open?id=FILE_ID
+  const openMatch = url.match(/drive\.google\.com\/open\?id=([a-zA-Z0-9_-]+)/);
+  if (openMatch) return openMatch[1];
+  // uc?export=view&id=FILE_ID
+  const ucMatch = url.match(/drive\.google\.com\/uc\?.*id=([a-zA-Z0-9_-]+)/);
+  if (ucMatch) return ucMatch[1];
+  // Already converted: lh3.googleusercontent.com/d/FILE_ID
+  const lh3Match = url.match(/lh3\.googleusercontent\.com\/d\/([a-zA-Z0-9_-]+)/);
+  if (lh3Match) return lh3Match[1];
+  return null;
+}
+
+// Helper to convert Google Drive share URLs to direct image URLs. Other URLs are returned unchanged.
+export function convertGoogleDriveUrl(url: string | null): string | null {
+  if (!url) return null;
+  const fileId = extractDriveFileId(url);
+  // Use lh3.googleusercontent.com which works cross-origin
+  if (fileId) return `https://lh3.googleusercontent.com/d/${fileId}`;
+  return url;
+}
@@ -0,0 +1,99 @@
+// iCalendar output for the program: npm test
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildCalendar, itemTimes, type CalendarItem } from './ics.ts';
+
+const item = (overrides: Partial<CalendarItem> = {}): CalendarItem => ({
+  id: '5d0c1f2e-0000-4000-8000-000000000001',
+  day: '2026-03-12',
+  start_time: '09:00:00',
+  end_time: '09:30:00',
+  title: 'Åpning',
+  description: null,
+  location: null,
+  ...overrides,
+});
+
+// The document's lines with folded continuation lines joined up again
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('itemTimes', () => {
+  it('reads times as Norwegian winter and summer time', () => {
+    expect(itemTimes(item())).toEqual({ start: '2026-03-12T08:00:00.000Z', end: '2026-03-12T08:30:00.000Z' });
+    expect(itemTimes(item({ day: '2026-06-10' }))).toEqual({ start: '2026-06-10T07:00:00.000Z', end: '2026-06-10T07:30:00.000Z' });
+  });
+
+  it('gives items without an end time the default length', () => {
+    expect(itemTimes(item({ end_time: null })).end).toBe('2026-03-12T08:30:00.000Z');
+  });
+
+  it('puts an end time before the start on the next day', () => {
+    expect(itemTimes(item({ start_time: '22:00', end_time: '01:00' }))).toEqual({
+      start: '2026-03-12T21:00:00.000Z',
+      end: '2026-03-13T00:00:00.000Z',
+    });
+  });
+});
+
+describe('buildCalendar', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2026-03-01T12:00:00.000Z') });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('writes one event per item in UTC, with CRLF line ends', () => {
+    const ics = buildCalendar([item()], { name: 'Vårmøtet' });
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.split('\r\n').every((line) => !line.includes('\n'))).toBe(true);
+    expect(unfold(ics)).toEqual(expect.arrayContaining([
+      'X-WR-CALNAME:Vårmøtet',
+      'BEGIN:VEVENT',
+      'DTSTAMP:20260301T120000Z',
+      'DTSTART:20260312T080000Z',
+      'DTEND:20260312T083000Z',
+      'SUMMARY:Åpning',
+      'END:VEVENT',
+    ]));
+  });
+
+  it('keeps the same UID for an item across exports, so calendars update it instead of adding it again', () => {
+    const before = unfold(buildCalendar([item()], { name: 'Vårmøtet' })).find((line) => line.startsWith('UID:'));
+    const after = unfold(buildCalendar([item({ title: 'Åpning (flyttet)', start_time: '10:00' })], { name: 'Vårmøtet' }))
+      .find((line) => line.startsWith('UID:'));
+    expect(before).toBe('UID:program-5d0c1f2e-0000-4000-8000-000000000001@mef-event-creator');
+    expect(after).toBe(before);
+  });
+
+  it('escapes text values', () => {
+    const ics = buildCalendar(
+      [item({ title: 'Lunsj; mat, drikke', location: 'Sal A\\B', description: 'Første linje\nAndre linje' })],
+      { name: 'Vårmøtet' },
+    );
+    expect(unfold(ics)).toEqual(expect.arrayContaining([
+      'SUMMARY:Lunsj\\; mat\\, drikke',
+      'LOCATION:Sal A\\\\B',
+      'DESCRIPTION:Første linje\\nAndre linje',
+    ]));
+  });
+
+  it('folds long lines at 75 octets without splitting a character', () => {
+    const description = 'Æøå '.repeat(40);
+    const ics = buildCalendar([item({ description })], { name: 'Vårmøtet' });
+    const encoder = new TextEncoder();
+    for (const line of ics.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('�');
+    }
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description}`);
+  });
+
+  it('suggests a refresh interval for subscribed feeds only', () => {
+    expect(buildCalendar([], { name: 'Vårmøtet' })).not.toContain('REFRESH-INTERVAL');
+    expect(unfold(buildCalendar([], { name: 'Vårmøtet', refreshMinutes: 60 }))).toEqual(expect.arrayContaining([
+      'REFRESH-INTERVAL;VALUE=DURATION:PT60M',
+      'X-PUBLISHED-TTL:PT60M',
+    ]));
+  });
+});
@@ -0,0 +1,112 @@
+// iCalendar (RFC 5545) output for program items, used by the "Legg til i kalender" download on
+// the program page and by the program-calendar feed. Shared with the frontend via @shared/ics.
+import { osloTimeToIso } from './dateNormalization.ts';
+
+export interface CalendarItem {
+  id: string;
+  day: string;
+  start_time: string;
+  end_time: string | null;
+  title: string;
+  description: string | null;
+  location: string | null;
+}
+
+export interface CalendarOptions {
+  // Shown as the calendar's name by apps that subscribe to the feed
+  name: string;
+  // Suggested refresh interval for subscribers, in minutes
+  refreshMinutes?: number;
+}
+
+// Items without an end time get this length, since most calendar apps hide zero-length entries
+export const DEFAULT_DURATION_MINUTES = 30;
+
+// The primary key survives sheet syncs, so a re-synced item replaces the old entry in calendars
+// that already have it instead of turning up twice
+const uid = (item: CalendarItem) => `program-${item.id}@mef-event-creator`;
+
+// 2026-06-10T07:30:00.000Z -> 20260610T073000Z
+const icsUtc = (iso: string) => iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space,
+// without splitting a multi-byte character
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function nextDay(day: string): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date + 1)).toISOString().slice(0, 10);
+}
+
+/** Start and end of an item in UTC, reading its day and times as Norwegian clock time */
+export function itemTimes(item: Pick<CalendarItem, 'day' | 'start_time' | 'end_time'>): { start: string; end: string } {
+  const start = osloTimeToIso(item.day, item.start_time.slice(0, 5));
+  if (!item.end_time) {
+    return { start, end: new Date(new Date(start).getTime() + DEFAULT_DURATION_MINUTES * 60_000).toISOString() };
+  }
+  const endTime = item.end_time.slice(0, 5);
+  // An end time before the start, e.g. 22:00-01:00, is on the clock the next day
+  const endDay = endTime <= item.start_time.slice(0, 5) ? nextDay(item.day) : item.day;
+  return { start, end: osloTimeToIso(endDay, endTime) };
+}
+
+/** A complete VCALENDAR document with one VEVENT per item */
+export function buildCalendar(items: CalendarItem[], { name, refreshMinutes }: CalendarOptions): string {
+  const stamp = icsUtc(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//MEF//Event Creator//NO',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-WR-TIMEZONE:Europe/Oslo',
+  ];
+  if (refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${refreshMinutes}M`, `X-PUBLISHED-TTL:PT${refreshMinutes}M`);
+  }
+
+  for (const item of items) {
+    const { start, end } = itemTimes(item);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid(item)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsUtc(start)}`,
+      `DTEND:${icsUtc(end)}`,
+      `SUMMARY:${escapeText(item.title)}`,
+    );
+    if (item.location) lines.push(`LOCATION:${escapeText(item.location)}`);
+    if (item.description) lines.push(`DESCRIPTION:${escapeText(item.description)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,169 @@
+/**
+ * Copies Google Drive images referenced from the sheet into the event-images bucket, so what
+ * attendees see no longer depends on Drive sharing settings or rate limits.
+ *
+ * Files are stored under drive/<sha256>.<ext>, so the same picture used by several rows or events
+ * is stored once. mirrored_images remembers which Drive file went where, so each file is only
+ * downloaded the first time it shows up. A file replaced in Drive under the same link keeps its
+ * old copy; upload it as a new file to change the picture.
+ */
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { extractDriveFileId } from './googleDrive.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const BUCKET = 'event-images';
+
+// Max image size (10MB)
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+// Downloads running at the same time
+const CONCURRENCY = 4;
+
+// Drive file ids per mirrored_images lookup; they travel in the query string, which has a length limit
+const LOOKUP_CHUNK_SIZE = 200;
+
+// SVG is left out on purpose: it can carry scripts and would be served from our own domain
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+};
+
+export interface MirrorResult {
+  // Original URL -> public URL of the stored copy
+  mirrored: Map<string, string>;
+  // Original URL -> reason it could not be mirrored, in Norwegian for the validation report
+  failed: Map<string, string>;
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Reads the body, giving up as soon as it is larger than the limit instead of buffering all of it
+async function readBody(res: Response): Promise<Uint8Array> {
+  const contentLength = res.headers.get('content-length');
+  if (contentLength && parseInt(contentLength) > MAX_IMAGE_SIZE) {
+    await res.body?.cancel();
+    throw new Error('Bildet er større enn 10 MB');
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = res.body!.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_IMAGE_SIZE) {
+      await reader.cancel();
+      throw new Error('Bildet er større enn 10 MB');
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// Downloads one Drive file and stores it, returning the storage path
+async function mirrorDriveFile(supabase: SupabaseClient, fileId: string): Promise<string> {
+  const res = await fetch(`https://lh3.googleusercontent.com/d/${fileId}`, {
+    signal: AbortSignal.timeout(20000)
+  });
+  if (!res.ok) {
+    throw new Error(`Kunne ikke hente bildet (HTTP ${res.status}) – sjekk at filen er delt med «Alle med linken»`);
+  }
+
+  const contentType = (res.headers.get('content-type') || '').split(';')[0].trim();
+  const ext = IMAGE_EXTENSIONS[contentType];
+  if (!ext) {
+    await res.body?.cancel();
+    throw new Error('Filen er ikke et bilde (JPG, PNG, WebP, GIF eller AVIF)');
+  }
+
+  const bytes = await readBody(res);
+
+  const hash = await sha256Hex(bytes);
+  const path = `drive/${hash}.${ext}`;
+
+  // Same content always lands on the same path, so overwriting is harmless
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, bytes, { contentType, cacheControl: '31536000', upsert: true });
+  if (uploadError) throw uploadError;
+
+  const { error: cacheError } = await supabase
+    .from('mirrored_images')
+    .upsert({ drive_file_id: fileId, storage_path: path, content_hash: hash, content_type: contentType });
+  if (cacheError) throw cacheError;
+
+  return path;
+}
+
+// Mirrors every Drive URL in the list. Other URLs are ignored. A dry run only looks up files that
+// were mirrored before and never downloads or uploads anything.
+export async function mirrorDriveImages(
+  supabase: SupabaseClient,
+  urls: string[],
+  { dryRun }: { dryRun: boolean },
+): Promise<MirrorResult> {
+  const result: MirrorResult = { mirrored: new Map(), failed: new Map() };
+
+  const fileIds = new Map<string, string>();
+  for (const url of new Set(urls)) {
+    const fileId = extractDriveFileId(url);
+    if (fileId) fileIds.set(url, fileId);
+  }
+  if (fileIds.size === 0) return result;
+
+  const uniqueIds = [...new Set(fileIds.values())];
+  const paths = new Map<string, string>();
+  for (let i = 0; i < uniqueIds.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data: cached, error } = await supabase
+      .from('mirrored_images')
+      .select('drive_file_id, storage_path')
+      .in('drive_file_id', uniqueIds.slice(i, i + LOOKUP_CHUNK_SIZE));
+    if (error) throw error;
+    for (const row of cached || []) paths.set(row.drive_file_id, row.storage_path);
+  }
+
+  if (!dryRun) {
+    const missing = uniqueIds.filter((fileId) => !paths.has(fileId));
+    const failedIds = new Map<string, string>();
+
+    for (let i = 0; i < missing.length; i += CONCURRENCY) {
+      await Promise.all(missing.slice(i, i + CONCURRENCY).map(async (fileId) => {
+        try {
+          paths.set(fileId, await mirrorDriveFile(supabase, fileId));
+        } catch (e) {
+          console.warn(`Could not mirror Drive file ${fileId}:`, e);
+          failedIds.set(fileId, e instanceof Error ? e.message : 'Kunne ikke hente bildet');
+        }
+      }));
+    }
+
+    for (const [url, fileId] of fileIds) {
+      const reason = failedIds.get(fileId);
+      if (reason) result.failed.set(url, reason);
+    }
+  }
+
+  for (const [url, fileId] of fileIds) {
+    const path = paths.get(fileId);
+    if (path) result.mirrored.set(url, supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl);
+  }
+
+  return result;
+}
@@ -0,0 +1,54 @@
+// Column mapping of the sheet import: npm test
+import { describe, expect, it } from 'vitest';
+import { getSheetTab, missingRequiredColumns, resolveSheetColumns } from './sheetColumns.ts';
+
+describe('getSheetTab', () => {
+  it('uses the default tab name without a configured one', () => {
+    expect(getSheetTab('program', null)).toBe('Program');
+    expect(getSheetTab('sponsors', { tabs: { sponsors: '  ' } })).toBe('Leverandører');
+  });
+
+  it('uses the configured tab name, trimmed', () => {
+    expect(getSheetTab('participants', { tabs: { participants: ' Påmeldte ' } })).toBe('Påmeldte');
+  });
+});
+
+describe('resolveSheetColumns', () => {
+  it('recognises Norwegian and English headers whatever their case', () => {
+    const columns = resolveSheetColumns('participants', ['Navn', ' COMPANY ', 'Samtykke'], null);
+    expect(columns).toEqual({ id: null, name: 'Navn', company: ' COMPANY ', category: null, visible: 'Samtykke' });
+  });
+
+  it('takes the first matching header when several match', () => {
+    expect(resolveSheetColumns('program', ['title', 'tittel'], null).title).toBe('title');
+  });
+
+  it('lets a mapping point a field at any header', () => {
+    const config = { columns: { participants: { name: 'Fullt navn', company: 'Arbeidsgiver' } } };
+    const columns = resolveSheetColumns('participants', ['Fullt navn', 'Arbeidsgiver', 'navn'], config);
+    expect(columns.name).toBe('Fullt navn');
+    expect(columns.company).toBe('Arbeidsgiver');
+  });
+
+  it('falls back to the aliases when the mapped header is not in the sheet', () => {
+    const config = { columns: { participants: { name: 'Fullt navn' } } };
+    expect(resolveSheetColumns('participants', ['Navn'], config).name).toBe('Navn');
+  });
+
+  it('only applies a mapping to its own module', () => {
+    const config = { columns: { exhibitors: { name: 'Firma' } } };
+    expect(resolveSheetColumns('participants', ['Firma'], config).name).toBeNull();
+  });
+});
+
+describe('missingRequiredColumns', () => {
+  it('lists the labels of required fields without a column', () => {
+    const columns = resolveSheetColumns('program', ['dag', 'beskrivelse'], null);
+    expect(missingRequiredColumns('program', columns)).toEqual(['Starttid', 'Tittel']);
+  });
+
+  it('is empty when every required field has a column', () => {
+    const columns = resolveSheetColumns('sponsors', ['navn', 'logo'], null);
+    expect(missingRequiredColumns('sponsors', columns)).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Sheet import layout: which tabs are read and which header feeds each field.
+ * Shared by the sync-sheets edge function and the column mapping editor in the event editor,
+ * so this file must stay free of Deno and browser specific imports.
+ */
+
+export type SheetModule = 'program' | 'participants' | 'exhibitors' | 'info' | 'sponsors';
+
+export interface SheetField {
+  key: string;
+  label: string;
+  // Header names recognised without any mapping, compared case-insensitively
+  aliases: string[];
+  required?: boolean;
+}
+
+export interface SheetModuleDefinition {
+  defaultTab: string;
+  fields: SheetField[];
+  // Optional tabs may be left out of the sheet; the module's data is then left alone
+  optional?: boolean;
+}
+
+// Stored per event in events.sheet_config. Anything left out falls back to the defaults below.
+export type SheetConfig = {
+  tabs?: Partial<Record<SheetModule, string>>;
+  columns?: Partial<Record<SheetModule, Record<string, string>>>;
+};
+
+export const SHEET_MODULES: Record<SheetModule, SheetModuleDefinition> = {
+  program: {
+    defaultTab: 'Program',
+    fields: [
+      { key: 'id', label: 'ID', aliases: ['id'] },
+      { key: 'day', label: 'Dag', aliases: ['dag', 'day'], required: true },
+      { key: 'start', label: 'Starttid', aliases: ['start'], required: true },
+      { key: 'end', label: 'Sluttid', aliases: ['end'] },
+      { key: 'title', label: 'Tittel', aliases: ['tittel', 'title'], required: true },
+      { key: 'description', label: 'Beskrivelse', aliases: ['beskrivelse', 'description'] },
+      { key: 'location', label: 'Sted', aliases: ['sted', 'location'] },
+      { key: 'category', label: 'Kategori', aliases: ['kategori', 'category'] },
+      { key: 'location_url', label: 'Sted-lenke', aliases: ['sted_url', 'location_url'] },
+      { key: 'image_url', label: 'Bilde', aliases: ['bilde_url', 'image_url'] },
+      { key: 'image_url_2', label: 'Bilde 2', aliases: ['bilde_url_2', 'image_url_2'] },
+    ],
+  },
+  participants: {
+    defaultTab: 'Deltakere',
+    fields: [
+      { key: 'id', label: 'ID', aliases: ['id'] },
+      { key: 'name', label: 'Navn', aliases: ['navn', 'name'], required: true },
+      { key: 'company', label: 'Bedrift', aliases: ['bedrift', 'company'] },
+      { key: 'category', label: 'Kategori', aliases: ['kategori', 'category'] },
+      { key: 'visible', label: 'Synlig', aliases: ['synlig', 'samtykke', 'visible', 'consent'] },
+    ],
+  },
+  exhibitors: {
+    defaultTab: 'Utstillere',
+    fields: [
+      { key: 'id', label: 'ID', aliases: ['id'] },
+      { key: 'company_name', label: 'Bedriftsnavn', aliases: ['bedriftsnavn', 'company'], required: true },
+      { key: 'stand_number', label: 'Standnummer', aliases: ['standnummer', 'stand'] },
+      { key: 'logo_url', label: 'Logo', aliases: ['logo_url', 'logo'] },
+      { key: 'description', label: 'Beskrivelse', aliases: ['beskrivelse', 'description'] },
+      { key: 'website_url', label: 'Nettside', aliases: ['nettside', 'website', 'website_url'] },
+      { key: 'categories', label: 'Produktkategorier', aliases: ['kategorier', 'kategori', 'categories', 'category'] },
+      { key: 'contact_name', label: 'Kontaktperson', aliases: ['kontaktperson', 'kontakt', 'contact_name', 'contact'] },
+      { key: 'contact_email', label: 'E-post', aliases: ['epost', 'e-post', 'email', 'contact_email'] },
+      { key: 'contact_phone', label: 'Telefon', aliases: ['telefon', 'tlf', 'phone', 'contact_phone'] },
+    ],
+  },
+  info: {
+    defaultTab: 'Info',
+    optional: true,
+    fields: [
+      { key: 'id', label: 'ID', aliases: ['id'] },
+      { key: 'title', label: 'Tittel', aliases: ['tittel', 'title'], required: true },
+      { key: 'content', label: 'Innhold (Markdown)', aliases: ['innhold', 'content', 'tekst'], required: true },
+      { key: 'order', label: 'Rekkefølge', aliases: ['rekkefølge', 'rekkefolge', 'sortering', 'order'] },
+      { key: 'image_url', label: 'Bilde', aliases: ['bilde_url', 'image_url'] },
+      { key: 'publish_at', label: 'Vis fra', aliases: ['vis fra', 'vis_fra', 'publish_at'] },
+      { key: 'unpublish_at', label: 'Vis til', aliases: ['vis til', 'vis_til', 'unpublish_at'] },
+    ],
+  },
+  sponsors: {
+    defaultTab: 'Leverandører',
+    optional: true,
+    fields: [
+      { key: 'id', label: 'ID', aliases: ['id'] },
+      { key: 'name', label: 'Navn', aliases: ['navn', 'name'], required: true },
+      { key: 'logo_url', label: 'Logo', aliases: ['logo_url', 'logo'], required: true },
+      { key: 'website_url', label: 'Nettside', aliases: ['nettside', 'website', 'website_url'] },
+      { key: 'order', label: 'Rekkefølge', aliases: ['rekkefølge', 'rekkefolge', 'sortering', 'order'] },
+    ],
+  },
+};
+
+export function getSheetTab(module: SheetModule, config: SheetConfig | null | undefined): string {
+  return config?.tabs?.[module]?.trim() || SHEET_MODULES[module].defaultTab;
+}
+
+/**
+ * Works out which header feeds each field of a module. An explicit mapping wins when that header
+ * exists in the sheet; otherwise the first header matching one of the field's aliases is used.
+ */
+export function resolveSheetColumns(
+  module: SheetModule,
+  headers: string[],
+  config: SheetConfig | null | undefined,
+): Record<string, string | null> {
+  const mapping = config?.columns?.[module] || {};
+  const resolved: Record<string, string | null> = {};
+
+  for (const field of SHEET_MODULES[module].fields) {
+    const mapped = mapping[field.key];
+    if (mapped && headers.includes(mapped)) {
+      resolved[field.key] = mapped;
+      continue;
+    }
+    resolved[field.key] = headers.find((header) => field.aliases.includes(header.trim().toLowerCase())) ?? null;
+  }
+
+  return resolved;
+}
+
+// Labels of the required fields that have no column in the sheet
+export function missingRequiredColumns(module: SheetModule, columns: Record<string, string | null>): string[] {
+  return SHEET_MODULES[module].fields
+    .filter((field) => field.required && !columns[field.key])
+    .map((field) => field.label);
+}
@@ -0,0 +1,429 @@
+/**
+ * Data sources for the sheet import. Every source hands the pipeline the same thing: the rows of
+ * one named tab, keyed by header. The module parsers in sheetSync.ts never see where the data
+ * came from, so a new source only has to implement SheetSource.
+ *
+ * For offline work, point SYNC_FIXTURES_DIR at a directory with one <Tab>.csv or <Tab>.json per
+ * tab (see supabase/fixtures/sheets) and call sync-sheets with { "source": { "kind": "fixtures" } }.
+ */
+import Papa from 'https://esm.sh/papaparse@5.4.1';
+// From the SheetJS CDN: the npm registry stops at 0.18.5, which has known parsing vulnerabilities
+import * as XLSX from 'https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs';
+import { getSheetTab, type SheetConfig, type SheetModule } from './sheetColumns.ts';
+
+// Max file size (10MB)
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Max rows per sheet
+export const MAX_ROWS = 10000;
+
+// Thrown when a source has no tab with the requested name, so optional tabs can be told apart
+// from tabs that exist but could not be read
+export class SheetNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SheetNotFoundError';
+  }
+}
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface SheetSource {
+  // Returns the parsed contents of one tab, or throws SheetNotFoundError when the source has no such tab
+  load(tab: string): Promise<ParsedSheet>;
+}
+
+export interface UploadedFile {
+  name: string;
+  // Base64 encoded file contents
+  content: string;
+  // For single-sheet files: the module the file holds. Workbooks use their sheet names instead.
+  module?: SheetModule | null;
+}
+
+export type SheetSourceConfig =
+  | { kind: 'google_sheets'; url: string }
+  // url may contain {tab}, replaced by the tab name, to fetch one document per tab
+  | { kind: 'url'; url: string; format?: 'csv' | 'json' }
+  | { kind: 'upload'; files: UploadedFile[] }
+  | { kind: 'fixtures' };
+
+// Parses CSV text with the header row as keys
+export function parseCsv(csv: string, tab: string): ParsedSheet {
+  const parsed = Papa.parse<Record<string, string>>(csv, {
+    header: true,
+    skipEmptyLines: false, // Blank rows are dropped later so row numbers match the sheet
+    dynamicTyping: false // Safer - keep as strings initially
+  });
+
+  if (parsed.data.length > MAX_ROWS) {
+    throw new Error(`${tab} sheet exceeds maximum row count (${MAX_ROWS})`);
+  }
+
+  const headers = (parsed.meta.fields || []).filter((header: string) => header.trim() !== '');
+  return { headers, rows: parsed.data };
+}
+
+// Turns a JSON array of objects into a sheet. Headers are the keys in order of first appearance
+// and every value is read as text, the same as a CSV cell.
+export function parseJsonRows(data: unknown, tab: string): ParsedSheet {
+  if (!Array.isArray(data)) {
+    throw new Error(`${tab} is not a list of rows`);
+  }
+  if (data.length > MAX_ROWS) {
+    throw new Error(`${tab} sheet exceeds maximum row count (${MAX_ROWS})`);
+  }
+
+  const headers: string[] = [];
+  const rows = data.map((item) => {
+    const row: Record<string, string> = {};
+    if (item && typeof item === 'object') {
+      for (const [key, value] of Object.entries(item)) {
+        if (!headers.includes(key)) headers.push(key);
+        if (value === null || value === undefined) continue;
+        row[key] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      }
+    }
+    return row;
+  });
+  return { headers, rows };
+}
+
+// A JSON document is either the rows of one tab, or an object with one list of rows per tab name
+function parseJsonDocument(text: string, tab: string): ParsedSheet {
+  const data = JSON.parse(text);
+  if (Array.isArray(data)) return parseJsonRows(data, tab);
+  if (data && typeof data === 'object' && tab in data) return parseJsonRows(data[tab], tab);
+  throw new SheetNotFoundError(`No ${tab} sheet in the JSON document`);
+}
+
+async function fetchText(url: string, tab: string): Promise<{ text: string; contentType: string }> {
+  const res = await fetch(url, {
+    signal: AbortSignal.timeout(30000) // 30 second timeout
+  });
+
+  if (res.status === 404) {
+    throw new SheetNotFoundError(`No ${tab} sheet at the source URL`);
+  }
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${tab} sheet: ${res.statusText}`);
+  }
+
+  const contentLength = res.headers.get('content-length');
+  if (contentLength && parseInt(contentLength) > MAX_FILE_SIZE) {
+    throw new Error(`${tab} sheet exceeds maximum file size (10MB)`);
+  }
+
+  const text = await res.text();
+
+  if (text.length > MAX_FILE_SIZE) {
+    throw new Error(`${tab} sheet exceeds maximum file size (10MB)`);
+  }
+
+  return { text, contentType: res.headers.get('content-type') || '' };
+}
+
+// Pulls the spreadsheet id out of a Google Sheets URL, null when the URL is not a Google Sheet
+export function extractSheetId(sheetsUrl: string): string | null {
+  const match = sheetsUrl.match(/^https:\/\/docs\.google\.com\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+  return match ? match[1] : null;
+}
+
+// Reads Google Sheets tabs through the gviz CSV export. The sheet must be shared with "anyone with the link".
+export function googleSheetsSource(sheetId: string): SheetSource {
+  return {
+    async load(tab) {
+      const url = `https://docs.google.com/spreadsheets/d/${sheetId}/gviz/tq?tqx=out:csv&sheet=${encodeURIComponent(tab)}`;
+      const { text } = await fetchText(url, tab);
+      return parseCsv(text, tab);
+    },
+  };
+}
+
+function ipv4Bytes(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.map(Number);
+}
+
+// Loopback, private, link-local, shared, multicast and reserved ranges: nothing a registration
+// system on the internet would be served from, but where the function's own network could be
+function isNonPublicAddress(address: string): boolean {
+  const v4 = ipv4Bytes(address);
+  if (v4) {
+    const [a, b] = v4;
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b < 128)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b < 32)
+      || (a === 192 && (b === 168 || (b === 0 && v4[2] === 0)))
+      || (a === 198 && (b === 18 || b === 19));
+  }
+  const v6 = address.toLowerCase();
+  const mapped = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isNonPublicAddress(mapped[1]);
+  return v6 === '::' || v6 === '::1' || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || v6.startsWith('ff') || v6.startsWith('::ffff:');
+}
+
+// Resolves the host of a url source and returns the address to connect to, refusing hosts that
+// are or resolve to a non-public address, so a url source cannot be used to reach the database,
+// the metadata service or anything else on the function's own network.
+export async function resolvePublicAddress(url: string): Promise<string> {
+  let host: string;
+  try {
+    host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    throw new Error('Invalid source URL');
+  }
+  if (host === 'localhost' || /\.(localhost|local|internal)$/i.test(host)) {
+    throw new Error('Source URL must point to a public host');
+  }
+
+  let addresses: string[];
+  if (ipv4Bytes(host) || host.includes(':')) {
+    addresses = [host];
+  } else {
+    const lookups = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+    addresses = lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []));
+    if (addresses.length === 0) throw new Error(`Could not resolve the source host ${host}`);
+  }
+  if (addresses.some(isNonPublicAddress)) {
+    throw new Error('Source URL must point to a public host');
+  }
+  return addresses[0];
+}
+
+function indexOfBytes(bytes: Uint8Array, pattern: number[], from = 0): number {
+  outer: for (let i = from; i <= bytes.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+const CRLF = [13, 10];
+
+function decodeChunked(body: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [];
+  let pos = 0;
+  for (;;) {
+    const lineEnd = indexOfBytes(body, CRLF, pos);
+    const size = lineEnd < 0 ? NaN : parseInt(new TextDecoder().decode(body.subarray(pos, lineEnd)), 16);
+    if (Number.isNaN(size)) throw new Error('Malformed chunked response from the source URL');
+    if (size === 0) break;
+    parts.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    pos = lineEnd + 2 + size + 2;
+  }
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// GET over a connection to the address resolvePublicAddress checked. fetch would look the host up
+// again, and a host that answers with a public address for the check and an internal one a moment
+// later (DNS rebinding) would get it past the check. TLS is still verified against the host name.
+// Redirects are refused, since their target would not have been checked.
+async function fetchPinned(url: string, address: string, tab: string): Promise<{ text: string; contentType: string }> {
+  const target = new URL(url);
+  const tcp = await Deno.connect({ hostname: address, port: Number(target.port) || 443 });
+  const conn = await Deno.startTls(tcp, { hostname: target.hostname });
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    conn.close();
+  }, 30000); // 30 second timeout
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  try {
+    const request = new TextEncoder().encode(
+      `GET ${target.pathname}${target.search} HTTP/1.1\r\nHost: ${target.host}\r\n` +
+      'Accept: text/csv, application/json, */*\r\nAccept-Encoding: identity\r\nConnection: close\r\n\r\n',
+    );
+    for (let written = 0; written < request.length;) {
+      written += await conn.write(request.subarray(written));
+    }
+    const buffer = new Uint8Array(64 * 1024);
+    for (;;) {
+      const n = await conn.read(buffer);
+      if (n === null) break;
+      chunks.push(buffer.slice(0, n));
+      total += n;
+      if (total > MAX_FILE_SIZE + buffer.length) {
+        throw new Error(`${tab} sheet exceeds maximum file size (10MB)`);
+      }
+    }
+  } catch (e) {
+    if (timedOut) throw new Error(`Failed to fetch ${tab} sheet: the source URL did not answer in time`);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    if (!timedOut) conn.close();
+  }
+
+  const response = new Uint8Array(total);
+  chunks.reduce((offset, chunk) => (response.set(chunk, offset), offset + chunk.length), 0);
+  const headerEnd = indexOfBytes(response, [...CRLF, ...CRLF]);
+  if (headerEnd < 0) throw new Error(`Failed to fetch ${tab} sheet: incomplete response`);
+
+  const [statusLine, ...headerLines] = new TextDecoder().decode(response.subarray(0, headerEnd)).split('\r\n');
+  const [, statusCode, statusText = ''] = statusLine.match(/^HTTP\/1\.[01] (\d{3}) ?(.*)$/) ?? [];
+  const headers = new Headers();
+  for (const line of headerLines) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+  }
+  const status = Number(statusCode);
+
+  if (status >= 300 && status < 400) {
+    throw new Error(`Failed to fetch ${tab} sheet: the source URL redirects`);
+  }
+  if (status === 404) {
+    throw new SheetNotFoundError(`No ${tab} sheet at the source URL`);
+  }
+  if (!(status >= 200 && status < 300)) {
+    throw new Error(`Failed to fetch ${tab} sheet: ${statusText}`);
+  }
+  if ((headers.get('content-encoding') ?? 'identity') !== 'identity') {
+    throw new Error(`Failed to fetch ${tab} sheet: unsupported content encoding`);
+  }
+
+  let body = response.subarray(headerEnd + 4);
+  if (headers.get('transfer-encoding')?.toLowerCase().includes('chunked')) {
+    body = decodeChunked(body);
+  } else if (headers.has('content-length')) {
+    body = body.subarray(0, parseInt(headers.get('content-length')!));
+  }
+  if (body.length > MAX_FILE_SIZE) {
+    throw new Error(`${tab} sheet exceeds maximum file size (10MB)`);
+  }
+
+  return { text: new TextDecoder().decode(body), contentType: headers.get('content-type') || '' };
+}
+
+// Reads CSV or JSON from any public https URL, e.g. an export endpoint of a registration system.
+// Without an explicit format, a JSON content type or a .json URL means JSON and anything else CSV.
+export function urlSource(urlTemplate: string, format?: 'csv' | 'json'): SheetSource {
+  return {
+    async load(tab) {
+      const url = urlTemplate.replaceAll('{tab}', encodeURIComponent(tab));
+      const address = await resolvePublicAddress(url);
+      const { text, contentType } = await fetchPinned(url, address, tab);
+      const isJson = format ? format === 'json' : contentType.includes('json') || /\.json(\?|$)/i.test(url);
+      return isJson ? parseJsonDocument(text, tab) : parseCsv(text, tab);
+    },
+  };
+}
+
+function decodeBase64(content: string): Uint8Array {
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Reads uploaded CSV and XLSX files into tabs. A workbook contributes one tab per worksheet,
+// named like the worksheet. A CSV file (or single-sheet workbook) assigned to a module becomes
+// that module's tab; otherwise the file name without extension is used as the tab name.
+export function uploadSource(files: UploadedFile[], sheetConfig: SheetConfig): SheetSource {
+  const tabs = new Map<string, ParsedSheet>();
+
+  for (const file of files) {
+    const bytes = decodeBase64(file.content);
+    if (bytes.length > MAX_FILE_SIZE) {
+      throw new Error(`${file.name} exceeds maximum file size (10MB)`);
+    }
+
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    const assignedTab = file.module ? getSheetTab(file.module, sheetConfig) : null;
+
+    if (/\.xlsx$/i.test(file.name)) {
+      // Date cells with the default short date format come out as YYYY-MM-DD
+      const workbook = XLSX.read(bytes, { type: 'array', cellDates: true, dateNF: 'yyyy-mm-dd' });
+      const single = workbook.SheetNames.length === 1;
+      for (const sheetName of workbook.SheetNames) {
+        const csv = XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName], { blankrows: true });
+        const tab = single && assignedTab ? assignedTab : sheetName;
+        tabs.set(tab, parseCsv(csv, tab));
+      }
+    } else if (/\.csv$/i.test(file.name)) {
+      const tab = assignedTab || baseName;
+      tabs.set(tab, parseCsv(new TextDecoder().decode(bytes), tab));
+    } else {
+      throw new Error(`Unsupported file type: ${file.name} (use .csv or .xlsx)`);
+    }
+  }
+
+  return {
+    async load(tab) {
+      const sheet = tabs.get(tab);
+      if (!sheet) throw new SheetNotFoundError(`No ${tab} sheet in the uploaded files`);
+      return sheet;
+    },
+  };
+}
+
+// Reads <dir>/<tab>.csv, falling back to <dir>/<tab>.json. Meant for local runs and parser checks.
+export function fixtureDirSource(dir: string): SheetSource {
+  return {
+    async load(tab) {
+      const base = `${dir.replace(/\/$/, '')}/${tab}`;
+      try {
+        return parseCsv(await Deno.readTextFile(`${base}.csv`), tab);
+      } catch (e) {
+        if (!(e instanceof Deno.errors.NotFound)) throw e;
+      }
+      try {
+        return parseJsonDocument(await Deno.readTextFile(`${base}.json`), tab);
+      } catch (e) {
+        if (e instanceof Deno.errors.NotFound) throw new SheetNotFoundError(`No ${tab}.csv or ${tab}.json in fixture directory`);
+        throw e;
+      }
+    },
+  };
+}
+
+// Builds the source described by a request. Throws with a client-facing message when the
+// description is invalid.
+export function createSheetSource(config: SheetSourceConfig, sheetConfig: SheetConfig): SheetSource {
+  switch (config?.kind) {
+    case 'google_sheets': {
+      const sheetId = typeof config.url === 'string' ? extractSheetId(config.url) : null;
+      if (!sheetId) throw new Error('Invalid Google Sheets URL format. Must be a valid Google Sheets URL.');
+      return googleSheetsSource(sheetId);
+    }
+    case 'url': {
+      if (typeof config.url !== 'string' || !config.url.startsWith('https://')) {
+        throw new Error('Invalid source URL. Must be an https:// URL.');
+      }
+      if (config.format && config.format !== 'csv' && config.format !== 'json') {
+        throw new Error('Invalid source format. Use csv or json.');
+      }
+      return urlSource(config.url, config.format);
+    }
+    case 'upload': {
+      const valid = Array.isArray(config.files) && config.files.length > 0 && config.files.every((file) =>
+        file && typeof file.name === 'string' && typeof file.content === 'string'
+      );
+      if (!valid) throw new Error('Invalid uploaded file');
+      return uploadSource(config.files, sheetConfig);
+    }
+    case 'fixtures': {
+      // Only available where the operator has set up a fixture directory, never in production
+      const dir = Deno.env.get('SYNC_FIXTURES_DIR');
+      if (!dir) throw new Error('Fixture source is not enabled (SYNC_FIXTURES_DIR is not set)');
+      return fixtureDirSource(dir);
+    }
+    default:
+      throw new Error('Unknown data source');
+  }
+}
@@ -0,0 +1,253 @@
+// Module parsers and stable ids, without a database: npm test
+import { describe, expect, it } from 'vitest';
+import { assignStableIds, parseModuleSheet } from './sheetSync.ts';
+import type { ParsedSheet } from './sheetSources.ts';
+
+const EVENT_ID = 'event-1';
+const eventDates = { date: '2026-03-12', end_date: '2026-03-13' };
+
+const sheet = (headers: string[], ...rows: string[][]): ParsedSheet => ({
+  headers,
+  rows: rows.map((cells) => Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? '']))),
+});
+
+describe('assignStableIds', () => {
+  const identity = (row: Record<string, string | null>) => [row.day, row.start_time, row.title];
+
+  it('keeps the id from the sheet', async () => {
+    const rows = [{ external_id: 'P001', day: '2026-03-12', start_time: '09:00', title: 'Åpning' }];
+    await assignStableIds(rows, identity);
+    expect(rows[0].external_id).toBe('P001');
+  });
+
+  it('gives rows without an id the same hash on every sync', async () => {
+    const first = [{ external_id: null, day: '2026-03-12', start_time: '09:00', title: 'Åpning' }];
+    const second = [{ external_id: null, day: '2026-03-12', start_time: '09:00', title: 'ÅPNING' }];
+    await assignStableIds(first, identity);
+    await assignStableIds(second, identity);
+    expect(first[0].external_id).toMatch(/^h[0-9a-f]{16}$/);
+    expect(second[0].external_id).toBe(first[0].external_id);
+  });
+
+  it('gives rows with other identifying fields another hash', async () => {
+    const rows = [
+      { external_id: null, day: '2026-03-12', start_time: '09:00', title: 'Åpning' },
+      { external_id: null, day: '2026-03-12', start_time: '09:30', title: 'Åpning' },
+    ];
+    await assignStableIds(rows, identity);
+    expect(rows[1].external_id).not.toBe(rows[0].external_id);
+  });
+
+  it('numbers repeated ids in sheet order', async () => {
+    const rows = [
+      { external_id: 'P001', day: '2026-03-12', start_time: '09:00', title: 'Åpning' },
+      { external_id: 'P001', day: '2026-03-12', start_time: '10:00', title: 'Pause' },
+      { external_id: null, day: '2026-03-12', start_time: '11:00', title: 'Lunsj' },
+      { external_id: null, day: '2026-03-12', start_time: '11:00', title: 'Lunsj' },
+    ];
+    await assignStableIds(rows, identity);
+    expect(rows.map((row) => row.external_id)).toEqual([
+      'P001',
+      'P001~2',
+      rows[2].external_id,
+      `${rows[2].external_id}~2`,
+    ]);
+  });
+});
+
+describe('parseModuleSheet: program', () => {
+  const headers = ['id', 'dag', 'start', 'end', 'tittel', 'sted', 'sted_url'];
+
+  it('normalizes days, times and links', () => {
+    const { rows, problems } = parseModuleSheet(
+      'program',
+      sheet(headers, ['P002', '12.03.2026', '9.30', '10.15', 'Bransjen i tall', 'Storsalen', 'maps.google.com/?q=Sal+B']),
+      'Program',
+      {},
+      EVENT_ID,
+      { eventDates },
+    );
+    expect(problems).toEqual([]);
+    expect(rows).toEqual([
+      expect.objectContaining({
+        event_id: EVENT_ID,
+        external_id: 'P002',
+        day: '2026-03-12',
+        start_time: '09:30',
+        end_time: '10:15',
+        title: 'Bransjen i tall',
+        location: 'Storsalen',
+        location_url: 'https://maps.google.com/?q=Sal+B',
+      }),
+    ]);
+  });
+
+  it('skips rows it cannot place and reports them by sheet row', () => {
+    const { rows, rowNumbers, problems } = parseModuleSheet(
+      'program',
+      sheet(
+        headers,
+        ['', '2026-03-12', '09:00', '', 'Åpning'],
+        ['', '', '', '', ''],
+        ['', '2026-03-20', '09:00', '', 'For sent'],
+        ['', '2026-03-12', 'snart', '', 'Uten tid'],
+        ['', '2026-03-13', '10:00', 'senere', ''],
+      ),
+      'Program',
+      {},
+      EVENT_ID,
+      { eventDates },
+    );
+    expect(rows.map((row) => row.title)).toEqual(['Åpning']);
+    expect(rowNumbers).toEqual([2]);
+    expect(problems).toEqual([
+      expect.objectContaining({ row: 4, column: 'dag', value: '2026-03-20', skipped: true }),
+      { row: 5, column: 'start', value: 'snart', reason: 'Ukjent klokkeslett', skipped: true },
+      { row: 6, column: 'tittel', value: null, reason: 'Mangler tittel', skipped: true },
+      { row: 6, column: 'end', value: 'senere', reason: 'Ukjent klokkeslett, sluttid blir tom', skipped: false },
+    ]);
+  });
+
+  it('refuses a sheet without a column for a required field', () => {
+    expect(() =>
+      parseModuleSheet('program', sheet(['dag', 'start'], ['2026-03-12', '09:00']), 'Program', {}, EVENT_ID),
+    ).toThrow('Program sheet has no column for: Tittel');
+  });
+
+  it('accepts an empty sheet without the required columns', () => {
+    expect(parseModuleSheet('program', sheet(['dag']), 'Program', {}, EVENT_ID).rows).toEqual([]);
+  });
+});
+
+describe('parseModuleSheet: participants', () => {
+  it('shows everyone when the sheet has no consent column', () => {
+    const { rows } = parseModuleSheet(
+      'participants',
+      sheet(['navn', 'bedrift'], ['Kari Nordmann', 'Nordmann Maskin AS']),
+      'Deltakere',
+      {},
+      EVENT_ID,
+    );
+    expect(rows).toEqual([
+      {
+        event_id: EVENT_ID,
+        external_id: null,
+        name: 'Kari Nordmann',
+        company: 'Nordmann Maskin AS',
+        category: null,
+        visible: 'true',
+      },
+    ]);
+  });
+
+  it('only shows participants who said yes', () => {
+    const { rows, problems } = parseModuleSheet(
+      'participants',
+      sheet(['navn', 'synlig'], ['Kari', 'Ja'], ['Ola', 'nei'], ['Ingrid', ''], ['Per', 'kanskje']),
+      'Deltakere',
+      {},
+      EVENT_ID,
+    );
+    expect(rows.map((row) => [row.name, row.visible])).toEqual([
+      ['Kari', 'true'],
+      ['Ola', 'false'],
+      ['Ingrid', 'false'],
+      ['Per', 'false'],
+    ]);
+    expect(problems).toEqual([
+      { row: 5, column: 'synlig', value: 'kanskje', reason: 'Ukjent verdi, bruk ja eller nei – deltakeren skjules', skipped: false },
+    ]);
+  });
+});
+
+describe('parseModuleSheet: info', () => {
+  const headers = ['tittel', 'innhold', 'rekkefølge', 'vis fra', 'vis til'];
+
+  it('reads Markdown sections with their order and show times in Norwegian time', () => {
+    const { rows, problems } = parseModuleSheet(
+      'info',
+      sheet(headers, ['Parkering', '**Gratis** parkering', '2', '12.03.2026 18:00', '13.03.2026 18:00']),
+      'Info',
+      {},
+      EVENT_ID,
+      { eventDates },
+    );
+    expect(problems).toEqual([]);
+    expect(rows).toEqual([
+      expect.objectContaining({
+        title: 'Parkering',
+        content: '**Gratis** parkering',
+        content_format: 'markdown',
+        order_index: '2',
+        publish_at: '2026-03-12T17:00:00.000Z',
+        unpublish_at: '2026-03-13T17:00:00.000Z',
+      }),
+    ]);
+  });
+
+  it('falls back to the place in the sheet for an unreadable order', () => {
+    const { rows, problems } = parseModuleSheet(
+      'info',
+      sheet(headers, ['Velkommen', 'Hei', ''], ['Kart', 'Se kartet', 'først']),
+      'Info',
+      {},
+      EVENT_ID,
+    );
+    expect(rows.map((row) => row.order_index)).toEqual(['1', '2']);
+    expect(problems).toEqual([
+      expect.objectContaining({ row: 3, column: 'rekkefølge', value: 'først', skipped: false }),
+    ]);
+  });
+
+  it('drops an end time before the start time and keeps the section', () => {
+    const { rows, problems } = parseModuleSheet(
+      'info',
+      sheet(headers, ['Middag', 'Kl. 19', '', '13.03.2026 18:00', '12.03.2026 18:00']),
+      'Info',
+      {},
+      EVENT_ID,
+      { eventDates },
+    );
+    expect(rows).toEqual([expect.objectContaining({ publish_at: '2026-03-13T17:00:00.000Z', unpublish_at: null })]);
+    expect(problems).toEqual([expect.objectContaining({ column: 'vis til', skipped: false })]);
+  });
+});
+
+describe('parseModuleSheet: sponsors', () => {
+  const headers = ['navn', 'logo', 'nettside'];
+
+  it('links Drive logos directly and gives websites a protocol', () => {
+    const { rows } = parseModuleSheet(
+      'sponsors',
+      sheet(headers, ['Nordmann Maskin', 'https://drive.google.com/file/d/abc123/view', 'nordmann.no']),
+      'Leverandører',
+      {},
+      EVENT_ID,
+    );
+    expect(rows).toEqual([
+      {
+        event_id: EVENT_ID,
+        external_id: null,
+        name: 'Nordmann Maskin',
+        logo_url: 'https://lh3.googleusercontent.com/d/abc123',
+        website_url: 'https://nordmann.no',
+        display_order: '1',
+      },
+    ]);
+  });
+
+  it('skips sponsors without a name or logo', () => {
+    const { rows, problems } = parseModuleSheet(
+      'sponsors',
+      sheet(headers, ['Uten logo', ''], ['', 'https://example.org/logo.png']),
+      'Leverandører',
+      {},
+      EVENT_ID,
+    );
+    expect(rows).toEqual([]);
+    expect(problems).toEqual([
+      { row: 2, column: 'logo', value: null, reason: 'Mangler logo', skipped: true },
+      { row: 3, column: 'navn', value: null, reason: 'Mangler navn', skipped: true },
+    ]);
+  });
+});
@@ -0,0 +1,928 @@
+/**
+ * Sheet import pipeline shared by the manual sync (sync-sheets) and the scheduled auto-sync
+ * (sync-scheduled). Loads each tab from a SheetSource, runs the module parser over its rows,
+ * and either diffs against or replaces the stored rows for one event.
+ */
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  SHEET_MODULES,
+  getSheetTab,
+  missingRequiredColumns,
+  resolveSheetColumns,
+  type SheetConfig,
+  type SheetModule,
+} from './sheetColumns.ts';
+import { MAX_ROWS, SheetNotFoundError, type ParsedSheet, type SheetSource } from './sheetSources.ts';
+import { convertGoogleDriveUrl } from './googleDrive.ts';
+import {
+  eventReferenceYear,
+  formatDay,
+  isDayWithinEvent,
+  normalizeDate,
+  normalizeDateTime,
+  normalizeTime,
+  osloTimeToIso,
+  type EventDates,
+} from './dateNormalization.ts';
+import { mirrorDriveImages } from './imageMirror.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Rows per database request. PostgREST returns at most 1000 rows per read, and larger writes are
+// staged in chunks of this size so no single request grows with the sheet.
+const DB_CHUNK_SIZE = 1000;
+
+// Least time between two progress updates of the same module and phase
+const PROGRESS_INTERVAL_MS = 1000;
+
+// Helper to safely get and trim string value
+function getTrimmed(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const str = String(value).trim();
+  return str === '' ? null : str;
+}
+
+function isBlankRow(row: Record<string, unknown>): boolean {
+  return Object.values(row).every((value) => getTrimmed(value) === null);
+}
+
+function countSkippedRows(problems: RowProblem[]): number {
+  return new Set(problems.filter((problem) => problem.skipped).map((problem) => problem.row)).size;
+}
+
+// Reads a field through the resolved column mapping, null when the sheet has no column for it
+function getCell(row: Record<string, unknown>, columns: Record<string, string | null>, key: string): string | null {
+  const header = columns[key];
+  return header ? getTrimmed(row[header]) : null;
+}
+
+// Resolves the columns of a tab and refuses to import when a required field has nowhere to come from
+function resolveColumnsOrThrow(
+  module: SheetModule,
+  sheet: ParsedSheet,
+  tab: string,
+  config: SheetConfig,
+): Record<string, string | null> {
+  const columns = resolveSheetColumns(module, sheet.headers, config);
+  const missing = missingRequiredColumns(module, columns);
+
+  if (missing.length > 0 && sheet.rows.some((row) => !isBlankRow(row))) {
+    throw new Error(`${tab} sheet has no column for: ${missing.join(', ')}`);
+  }
+  return columns;
+}
+
+type SyncRow = Record<string, string | null>;
+
+// A problem found in one cell of the sheet. row is the row number as shown in Google Sheets
+// (the header is row 1). skipped tells whether the whole row was left out of the import.
+export interface RowProblem {
+  row: number;
+  column: string | null;
+  value: string | null;
+  reason: string;
+  skipped: boolean;
+}
+
+interface RowChange {
+  external_id: string;
+  label: string;
+  fields: { field: string; before: string | null; after: string | null }[];
+}
+
+export interface ModuleDiff {
+  added: { external_id: string; label: string }[];
+  removed: { external_id: string; label: string }[];
+  changed: RowChange[];
+  unchanged: number;
+}
+
+export interface ModuleResult {
+  count: number;
+  removed: number;
+  skipped: number;
+  errors: string[];
+  problems: RowProblem[];
+  keptPreviousData: boolean;
+  // Optional tab not found in the sheet; the module's stored rows were not touched
+  absent?: boolean;
+  diff?: ModuleDiff;
+}
+
+export type SyncResults = Record<SheetModule, ModuleResult>;
+
+// Postgres returns time columns as HH:MM:SS while the sheet parser produces HH:MM
+function normalizeForDiff(field: string, value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const str = String(value);
+  if (field === 'start_time' || field === 'end_time') return str.slice(0, 5);
+  // The database writes timestamps as +00:00 where the parser writes Z
+  if (field === 'publish_at' || field === 'unpublish_at') return new Date(str).toISOString();
+  return str;
+}
+
+// Reads all of an event's rows in pages, since a single read stops at the API's row limit
+async function fetchAllEventRows(
+  supabase: SupabaseClient,
+  table: string,
+  eventId: string,
+  columns: string[],
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  for (let from = 0; ; from += DB_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns.join(', '))
+      .eq('event_id', eventId)
+      .order('id')
+      .range(from, from + DB_CHUNK_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as Record<string, unknown>[]));
+    if (!data || data.length < DB_CHUNK_SIZE) return rows;
+  }
+}
+
+// Compare the parsed sheet rows with what is stored for the event, matching rows on external_id
+async function diffAgainstExisting(
+  supabase: SupabaseClient,
+  table: string,
+  eventId: string,
+  rows: SyncRow[],
+  fields: string[],
+  label: (row: Record<string, unknown>) => string,
+  keepsAppRows = false,
+): Promise<ModuleDiff> {
+  const existingRows = await fetchAllEventRows(supabase, table, eventId, ['external_id', ...fields]);
+  const existingByKey = new Map<string, Record<string, unknown>>();
+  for (const row of existingRows) {
+    if (row.external_id) existingByKey.set(String(row.external_id), row);
+  }
+
+  const diff: ModuleDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    const key = String(row.external_id);
+    seen.add(key);
+    const before = existingByKey.get(key);
+    if (!before) {
+      diff.added.push({ external_id: key, label: label(row) });
+      continue;
+    }
+
+    const changedFields = fields
+      .map((field) => ({
+        field,
+        before: normalizeForDiff(field, before[field]),
+        after: normalizeForDiff(field, row[field]),
+      }))
+      .filter((change) => change.before !== change.after);
+
+    if (changedFields.length > 0) {
+      diff.changed.push({ external_id: key, label: label(row), fields: changedFields });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  existingRows.forEach((row, idx) => {
+    if (!row.external_id ? !keepsAppRows : !seen.has(String(row.external_id))) {
+      diff.removed.push({ external_id: String(row.external_id ?? `legacy-${idx}`), label: label(row) });
+    }
+  });
+
+  return diff;
+}
+
+const PROGRAM_FIELDS = ['day', 'start_time', 'end_time', 'title', 'description', 'location', 'location_url', 'category', 'image_url', 'image_url_2'];
+const PARTICIPANT_FIELDS = ['name', 'company', 'category', 'visible'];
+const EXHIBITOR_FIELDS = [
+  'company_name', 'stand_number', 'logo_url', 'description', 'website_url', 'categories', 'contact_name', 'contact_email', 'contact_phone',
+];
+const INFO_FIELDS = ['title', 'content', 'order_index', 'image_url', 'publish_at', 'unpublish_at'];
+const SPONSOR_FIELDS = ['name', 'logo_url', 'website_url', 'display_order'];
+
+const programLabel = (row: Record<string, unknown>) =>
+  `${row.day ?? ''} ${normalizeForDiff('start_time', row.start_time) ?? ''} ${row.title ?? ''}`.trim();
+const participantLabel = (row: Record<string, unknown>) =>
+  row.company ? `${row.name} (${row.company})` : String(row.name ?? '');
+const exhibitorLabel = (row: Record<string, unknown>) =>
+  row.stand_number ? `${row.company_name} (stand ${row.stand_number})` : String(row.company_name ?? '');
+const infoLabel = (row: Record<string, unknown>) => String(row.title ?? '');
+const sponsorLabel = (row: Record<string, unknown>) => String(row.name ?? '');
+
+// Short SHA-256 of the identifying fields, used as external_id when the sheet has no id column
+async function contentHash(parts: (string | null | undefined)[]): Promise<string> {
+  const data = new TextEncoder().encode(parts.map((part) => (part ?? '').toLowerCase()).join('\u241f'));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .slice(0, 8)
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Give every row a stable external_id: the sheet's own id column when filled in, otherwise a
+// content hash. Repeated keys within one sheet get a ~2, ~3... suffix in sheet order.
+export async function assignStableIds(rows: SyncRow[], identity: (row: SyncRow) => (string | null)[]) {
+  const seen = new Map<string, number>();
+  for (const row of rows) {
+    const base = row.external_id ?? `h${await contentHash(identity(row))}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    row.external_id = count === 1 ? base : `${base}~${count}`;
+  }
+}
+
+// Replace a module's rows through the replace_synced_rows RPC, which upserts on
+// (event_id, external_id) and deletes rows no longer in the sheet in a single transaction.
+// On any error the transaction is rolled back and the previous data is left untouched.
+// Rows that still exist keep their primary key, so anything referencing them survives a sync.
+// Sheets larger than one chunk are first staged in sync_staged_rows chunk by chunk, then swapped in
+// with replace_staged_rows, which keeps the replacement in one transaction. onChunk gets the number
+// of rows sent so far.
+async function replaceModuleRows(
+  supabase: SupabaseClient,
+  table: string,
+  eventId: string,
+  rows: SyncRow[],
+  onChunk?: (done: number) => Promise<void>,
+): Promise<{ upserted: number; deleted: number }> {
+  if (rows.length <= DB_CHUNK_SIZE) {
+    const { data, error } = await supabase.rpc('replace_synced_rows', {
+      _table: table,
+      _event_id: eventId,
+      _rows: rows,
+    });
+    if (error) throw error;
+    await onChunk?.(rows.length);
+    return data;
+  }
+
+  const batchId = crypto.randomUUID();
+  try {
+    for (let start = 0; start < rows.length; start += DB_CHUNK_SIZE) {
+      const { error } = await supabase.from('sync_staged_rows').insert({
+        batch_id: batchId,
+        chunk: start / DB_CHUNK_SIZE,
+        rows: rows.slice(start, start + DB_CHUNK_SIZE),
+      });
+      if (error) throw error;
+      await onChunk?.(Math.min(start + DB_CHUNK_SIZE, rows.length));
+    }
+
+    const { data, error } = await supabase.rpc('replace_staged_rows', {
+      _table: table,
+      _event_id: eventId,
+      _batch_id: batchId,
+    });
+    if (error) throw error;
+    return data;
+  } catch (e) {
+    // replace_staged_rows also clears old leftovers, so a failure here is not worth reporting
+    await supabase.from('sync_staged_rows').delete().eq('batch_id', batchId);
+    throw e;
+  }
+}
+
+// What a module parser gets for one sheet row
+interface RowContext {
+  rowNum: number;
+  eventId: string;
+  // The event's own dates, when known; programme days must fall within them
+  eventDates: EventDates | null;
+  // Cell value for a field, read through the event's column mapping
+  get: (key: string) => string | null;
+  // Whether the sheet has a column for the field at all
+  hasColumn: (key: string) => boolean;
+  // Records a problem against the column that feeds the given field
+  problem: (key: string, value: string | null, reason: string, skipped?: boolean) => void;
+}
+
+interface ModuleParser {
+  table: string;
+  // Columns compared in the dry-run diff
+  fields: string[];
+  label: (row: Record<string, unknown>) => string;
+  // Fields hashed into external_id when the sheet has no id column
+  identity: (row: SyncRow) => (string | null)[];
+  // Turns one sheet row into a database row, or null when the row has to be skipped
+  parseRow: (ctx: RowContext) => SyncRow | null;
+  // Optional async step over all parsed rows before they are compared or written
+  finishRows?: (supabase: SupabaseClient, rows: SyncRow[], ctx: FinishContext) => Promise<void>;
+  // Decisions organisers made in the app that win over the sheet, applied once rows have their ids
+  applyOverrides?: (supabase: SupabaseClient, rows: SyncRow[], eventId: string) => Promise<void>;
+  // Rows added in the app (without external_id) survive the sync instead of being replaced.
+  // Must match the tables replace_synced_rows treats this way.
+  keepsAppRows?: boolean;
+}
+
+interface FinishContext {
+  dryRun: boolean;
+  // Records a problem for the row at the given index of the parsed rows
+  problem: (rowIndex: number, key: string, value: string | null, reason: string) => void;
+}
+
+// Swaps Drive image links in the given fields for copies in our storage. Images that cannot be
+// fetched keep the Drive link and are reported, without skipping the row.
+const mirrorImageFields = (imageFields: string[]) =>
+  async (supabase: SupabaseClient, rows: SyncRow[], { dryRun, problem }: FinishContext) => {
+    const urls = rows.flatMap((row) => imageFields.map((field) => row[field])).filter(Boolean);
+    const { mirrored, failed } = await mirrorDriveImages(supabase, urls, { dryRun });
+
+    rows.forEach((row, idx) => {
+      for (const field of imageFields) {
+        const url = row[field];
+        if (!url) continue;
+        if (mirrored.has(url)) {
+          row[field] = mirrored.get(url);
+        } else if (failed.has(url)) {
+          problem(idx, field, url, failed.get(url));
+        }
+      }
+    });
+  };
+
+// Makes sure a link opens as a web address, not relative to our own site
+function withProtocol(url: string | null): string | null {
+  if (!url) return null;
+  return url.startsWith('http://') || url.startsWith('https://') ? url : `https://${url}`;
+}
+
+// Sort order from the sheet. Rows without one keep their place in the sheet.
+function parseOrder({ rowNum, get, problem }: RowContext): string {
+  const orderRaw = get('order');
+  if (orderRaw) {
+    if (/^-?\d+$/.test(orderRaw)) return orderRaw;
+    problem('order', orderRaw, 'Rekkefølge må være et heltall, radens plass i arket brukes', false);
+  }
+  return String(rowNum - 1);
+}
+
+function parseProgramRow({ eventId, eventDates, get, problem }: RowContext): SyncRow | null {
+  const dayRaw = get('day');
+  const startRaw = get('start');
+  const endRaw = get('end');
+  const titleRaw = get('title');
+  const locationUrl = withProtocol(get('location_url'));
+
+  // Parse and validate
+  const day = normalizeDate(dayRaw, { referenceYear: eventReferenceYear(eventDates) });
+  const start_time = normalizeTime(startRaw);
+  const end_time = normalizeTime(endRaw);
+  const dayWithinEvent = !day || isDayWithinEvent(day, eventDates);
+
+  // Record validation problems so organisers can fix the sheet
+  if (!titleRaw) {
+    problem('title', null, 'Mangler tittel');
+  }
+  if (!dayRaw) {
+    problem('day', null, 'Mangler dag');
+  } else if (!day) {
+    problem('day', dayRaw, 'Ukjent datoformat');
+  } else if (!dayWithinEvent && eventDates?.date) {
+    const range = eventDates.end_date && eventDates.end_date !== eventDates.date
+      ? `${formatDay(eventDates.date)}–${formatDay(eventDates.end_date)}`
+      : formatDay(eventDates.date);
+    problem('day', dayRaw, `${formatDay(day)} er utenfor arrangementets datoer (${range})`);
+  }
+  if (!startRaw) {
+    problem('start', null, 'Mangler starttid');
+  } else if (!start_time) {
+    problem('start', startRaw, 'Ukjent klokkeslett');
+  }
+  if (endRaw && !end_time) {
+    problem('end', endRaw, 'Ukjent klokkeslett, sluttid blir tom', false);
+  }
+
+  // Only include items that have minimum required fields
+  if (!titleRaw || !day || !dayWithinEvent || !start_time) {
+    return null;
+  }
+
+  return {
+    event_id: eventId,
+    external_id: get('id'),
+    day: day,
+    start_time: start_time,
+    end_time: end_time,
+    title: titleRaw,
+    description: get('description'),
+    location: get('location'),
+    location_url: locationUrl,
+    category: get('category'),
+    image_url: convertGoogleDriveUrl(get('image_url')),
+    image_url_2: convertGoogleDriveUrl(get('image_url_2')),
+  };
+}
+
+const YES = ['ja', 'j', 'yes', 'y', 'true', '1', 'x'];
+const NO = ['nei', 'n', 'no', 'false', '0'];
+
+// Consent from the "synlig" column. Sheets without the column show everyone, as before; with the
+// column, only rows marked yes are shown and anything else keeps the participant out of the list.
+function parseVisible({ get, hasColumn, problem }: RowContext): string {
+  if (!hasColumn('visible')) return 'true';
+  const visibleRaw = get('visible');
+  const answer = visibleRaw?.toLowerCase();
+  if (answer && YES.includes(answer)) return 'true';
+  if (visibleRaw && !NO.includes(answer!)) {
+    problem('visible', visibleRaw, 'Ukjent verdi, bruk ja eller nei – deltakeren skjules', false);
+  }
+  return 'false';
+}
+
+function parseParticipantRow(ctx: RowContext): SyncRow | null {
+  const { eventId, get, problem } = ctx;
+  const nameRaw = get('name');
+
+  if (!nameRaw) {
+    problem('name', null, 'Mangler navn');
+    return null;
+  }
+
+  return {
+    event_id: eventId,
+    external_id: get('id'),
+    name: nameRaw,
+    company: get('company'),
+    category: get('category'),
+    visible: parseVisible(ctx),
+  };
+}
+
+// Participants whose removal request an organiser has carried out stay hidden, whatever the sheet says
+async function hideRemovedParticipants(supabase: SupabaseClient, rows: SyncRow[], eventId: string) {
+  const { data, error } = await supabase
+    .from('participant_removal_requests')
+    .select('external_id')
+    .eq('event_id', eventId)
+    .eq('status', 'done')
+    .not('external_id', 'is', null);
+  if (error) throw error;
+
+  const removed = new Set((data || []).map((request: { external_id: string }) => request.external_id));
+  for (const row of rows) {
+    if (removed.has(row.external_id!)) row.visible = 'false';
+  }
+}
+
+// "Maskiner;  dekk, Maskiner" -> "Maskiner, dekk": one separator, no blanks or repeats
+function normalizeCategories(value: string | null): string | null {
+  if (!value) return null;
+  const seen = new Set<string>();
+  const categories = value.split(/[,;]/).map((category) => category.trim()).filter((category) => {
+    const key = category.toLowerCase();
+    if (!category || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return categories.length > 0 ? categories.join(', ') : null;
+}
+
+function parseExhibitorRow({ eventId, get, problem }: RowContext): SyncRow | null {
+  const companyRaw = get('company_name');
+  const emailRaw = get('contact_email');
+
+  if (!companyRaw) {
+    problem('company_name', null, 'Mangler bedriftsnavn');
+    return null;
+  }
+
+  const emailValid = !emailRaw || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(emailRaw);
+  if (!emailValid) {
+    problem('contact_email', emailRaw, 'Ugyldig e-postadresse, feltet blir tomt', false);
+  }
+
+  return {
+    event_id: eventId,
+    external_id: get('id'),
+    company_name: companyRaw,
+    stand_number: get('stand_number'),
+    logo_url: convertGoogleDriveUrl(get('logo_url')),
+    description: get('description'),
+    website_url: withProtocol(get('website_url')),
+    categories: normalizeCategories(get('categories')),
+    contact_name: get('contact_name'),
+    contact_email: emailValid ? emailRaw : null,
+    contact_phone: get('contact_phone'),
+  };
+}
+
+// When an info card is shown, as clock time in Norway. An unreadable value is dropped, so the card
+// is shown rather than hidden by mistake.
+function parseShowTime({ eventDates, get, problem }: RowContext, key: string): string | null {
+  const raw = get(key);
+  if (!raw) return null;
+  const parsed = normalizeDateTime(raw, { referenceYear: eventReferenceYear(eventDates) });
+  if (!parsed) {
+    problem(key, raw, 'Ukjent tidspunkt, bruk f.eks. 13.03.2026 18:00', false);
+    return null;
+  }
+  return osloTimeToIso(parsed.day, parsed.time);
+}
+
+function parseInfoRow(ctx: RowContext): SyncRow | null {
+  const { eventId, get, problem } = ctx;
+  const titleRaw = get('title');
+
+  if (!titleRaw) {
+    problem('title', null, 'Mangler tittel');
+    return null;
+  }
+
+  const publishAt = parseShowTime(ctx, 'publish_at');
+  let unpublishAt = parseShowTime(ctx, 'unpublish_at');
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    problem('unpublish_at', get('unpublish_at'), '«Vis til» er før «Vis fra», kortet vises uten sluttid', false);
+    unpublishAt = null;
+  }
+
+  return {
+    event_id: eventId,
+    external_id: get('id'),
+    title: titleRaw,
+    content: get('content') ?? '',
+    // Written as Markdown in the sheet; sections made in the editor stay HTML
+    content_format: 'markdown',
+    order_index: parseOrder(ctx),
+    image_url: convertGoogleDriveUrl(get('image_url')),
+    publish_at: publishAt,
+    unpublish_at: unpublishAt,
+  };
+}
+
+function parseSponsorRow(ctx: RowContext): SyncRow | null {
+  const { eventId, get, problem } = ctx;
+  const nameRaw = get('name');
+  const logoRaw = get('logo_url');
+
+  if (!nameRaw) {
+    problem('name', null, 'Mangler navn');
+  }
+  if (!logoRaw) {
+    problem('logo_url', null, 'Mangler logo');
+  }
+  if (!nameRaw || !logoRaw) {
+    return null;
+  }
+
+  return {
+    event_id: eventId,
+    external_id: get('id'),
+    name: nameRaw,
+    logo_url: convertGoogleDriveUrl(logoRaw),
+    website_url: withProtocol(get('website_url')),
+    display_order: parseOrder(ctx),
+  };
+}
+
+const MODULE_PARSERS: Record<SheetModule, ModuleParser> = {
+  program: {
+    table: 'program_items',
+    fields: PROGRAM_FIELDS,
+    label: programLabel,
+    identity: (row) => [row.day, row.start_time, row.title],
+    parseRow: parseProgramRow,
+    finishRows: mirrorImageFields(['image_url', 'image_url_2']),
+  },
+  participants: {
+    table: 'participants',
+    fields: PARTICIPANT_FIELDS,
+    label: participantLabel,
+    identity: (row) => [row.name, row.company],
+    parseRow: parseParticipantRow,
+    applyOverrides: hideRemovedParticipants,
+  },
+  exhibitors: {
+    table: 'exhibitors',
+    fields: EXHIBITOR_FIELDS,
+    label: exhibitorLabel,
+    identity: (row) => [row.company_name],
+    parseRow: parseExhibitorRow,
+    finishRows: mirrorImageFields(['logo_url']),
+  },
+  info: {
+    table: 'info_sections',
+    fields: INFO_FIELDS,
+    label: infoLabel,
+    identity: (row) => [row.title],
+    parseRow: parseInfoRow,
+    finishRows: mirrorImageFields(['image_url']),
+    keepsAppRows: true,
+  },
+  sponsors: {
+    table: 'event_sponsors',
+    fields: SPONSOR_FIELDS,
+    label: sponsorLabel,
+    identity: (row) => [row.name],
+    parseRow: parseSponsorRow,
+    finishRows: mirrorImageFields(['logo_url']),
+    keepsAppRows: true,
+  },
+};
+
+// Runs a module parser over every non-blank row of a tab. Needs no database or network, so it can
+// be pointed at fixtures directly.
+export function parseModuleSheet(
+  module: SheetModule,
+  sheet: ParsedSheet,
+  tab: string,
+  sheetConfig: SheetConfig,
+  eventId: string,
+  { debug = false, eventDates = null }: { debug?: boolean; eventDates?: EventDates | null } = {},
+): { rows: SyncRow[]; rowNumbers: number[]; columns: Record<string, string | null>; problems: RowProblem[] } {
+  const columns = resolveColumnsOrThrow(module, sheet, tab, sheetConfig);
+  const parser = MODULE_PARSERS[module];
+  const rows: SyncRow[] = [];
+  // Sheet row number of each parsed row, for problems found after parsing
+  const rowNumbers: number[] = [];
+  const problems: RowProblem[] = [];
+
+  sheet.rows.slice(0, MAX_ROWS).forEach((row, idx) => {
+    // Header is row 1 in the sheet
+    const rowNum = idx + 2;
+    if (isBlankRow(row)) return;
+    if (debug) console.log(`Processing ${tab} row ${rowNum}:`, row);
+
+    const parsed = parser.parseRow({
+      rowNum,
+      eventId,
+      eventDates,
+      get: (key) => getCell(row, columns, key),
+      hasColumn: (key) => !!columns[key],
+      problem: (key, value, reason, skipped = true) => {
+        problems.push({ row: rowNum, column: columns[key] || key, value, reason, skipped });
+      },
+    });
+    if (parsed) {
+      rows.push(parsed);
+      rowNumbers.push(rowNum);
+    }
+  });
+
+  return { rows, rowNumbers, columns, problems };
+}
+
+// Header detection only reads the first row of each tab so the editor can offer them for mapping
+export async function detectSheetHeaders(source: SheetSource, sheetConfig: SheetConfig) {
+  const sheets: Record<string, { tab: string; headers: string[]; error?: string }> = {};
+  for (const module of Object.keys(SHEET_MODULES) as SheetModule[]) {
+    const tab = getSheetTab(module, sheetConfig);
+    try {
+      const { headers } = await source.load(tab);
+      sheets[module] = { tab, headers };
+    } catch (e) {
+      sheets[module] = { tab, headers: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }
+  return sheets;
+}
+
+export type SyncPhase = 'reading' | 'images' | 'comparing' | 'writing';
+
+// Where a running sync is, stored on its sync_runs row for the editor
+export interface SyncProgress {
+  module: SheetModule;
+  phase: SyncPhase;
+  // Rows handled so far in this phase, out of total (0 of 0 while the count is not known yet)
+  done: number;
+  total: number;
+}
+
+// Per-row logging is off unless asked for by the caller or with SYNC_DEBUG=true on the function
+export function syncDebugEnabled(requested = false): boolean {
+  return requested || Deno.env.get('SYNC_DEBUG') === 'true';
+}
+
+// Progress callback for runSheetSync that writes to the run's row. Updates to the same module and
+// phase are dropped when they come less than PROGRESS_INTERVAL_MS apart, except the last one.
+export function syncRunProgress(supabase: SupabaseClient, runId: string) {
+  let lastKey = '';
+  let lastAt = 0;
+  return async (progress: SyncProgress) => {
+    const key = `${progress.module}:${progress.phase}`;
+    const now = Date.now();
+    if (key === lastKey && now - lastAt < PROGRESS_INTERVAL_MS && progress.done < progress.total) return;
+    lastKey = key;
+    lastAt = now;
+
+    const { error } = await supabase.from('sync_runs').update({ progress }).eq('id', runId);
+    if (error) console.error('Failed to record sync progress:', error);
+  };
+}
+
+export async function runSheetSync(
+  supabase: SupabaseClient,
+  { eventId, source, sheetConfig, dryRun, debug = false, onProgress }: {
+    eventId: string;
+    source: SheetSource;
+    sheetConfig: SheetConfig;
+    dryRun: boolean;
+    debug?: boolean;
+    onProgress?: (progress: SyncProgress) => Promise<void>;
+  },
+): Promise<SyncResults> {
+  const results = {} as SyncResults;
+  const verbose = syncDebugEnabled(debug);
+  const mode = dryRun ? 'dry run' : 'sync';
+
+  const { data: eventDates, error: eventError } = await supabase
+    .from('events')
+    .select('date, end_date')
+    .eq('id', eventId)
+    .maybeSingle();
+  if (eventError) throw eventError;
+
+  // Modules are independent: one failing keeps its previous data and the others still sync
+  for (const module of Object.keys(MODULE_PARSERS) as SheetModule[]) {
+    const parser = MODULE_PARSERS[module];
+    const result: ModuleResult = { count: 0, removed: 0, skipped: 0, errors: [], problems: [], keptPreviousData: false };
+    results[module] = result;
+    const moduleStart = Date.now();
+    const report = (phase: SyncPhase, done = 0, total = 0) => onProgress?.({ module, phase, done, total });
+
+    try {
+      const tab = getSheetTab(module, sheetConfig);
+      const optional = SHEET_MODULES[module].optional;
+      await report('reading');
+      let sheet: ParsedSheet;
+      try {
+        sheet = await source.load(tab);
+      } catch (e) {
+        if (optional && e instanceof SheetNotFoundError) {
+          result.absent = true;
+          if (verbose) console.log(`[${mode} ${eventId}] ${module}: tab "${tab}" not found, left unchanged`);
+          continue;
+        }
+        throw e;
+      }
+
+      // Google serves the first tab when the named one does not exist, so an optional tab without
+      // its required columns is taken to be missing rather than broken
+      if (optional && missingRequiredColumns(module, resolveSheetColumns(module, sheet.headers, sheetConfig)).length > 0) {
+        result.absent = true;
+        if (verbose) console.log(`[${mode} ${eventId}] ${module}: tab "${tab}" lacks required columns, left unchanged`);
+        continue;
+      }
+
+      const { rows, rowNumbers, columns, problems } = parseModuleSheet(module, sheet, tab, sheetConfig, eventId, {
+        debug: verbose,
+        eventDates: eventDates as EventDates | null,
+      });
+      result.problems = problems;
+      result.skipped = countSkippedRows(problems);
+
+      // A sheet full of rows that all fail validation is almost certainly a broken edit - keep what we have
+      if (rows.length === 0 && result.skipped > 0) {
+        throw new Error(`No valid rows in ${tab} sheet (${result.skipped} rows skipped)`);
+      }
+
+      if (parser.finishRows) {
+        await report('images');
+        await parser.finishRows(supabase, rows, {
+          dryRun,
+          problem: (rowIndex, key, value, reason) => {
+            problems.push({ row: rowNumbers[rowIndex], column: columns[key] || key, value, reason, skipped: false });
+          },
+        });
+      }
+
+      await assignStableIds(rows, parser.identity);
+      await parser.applyOverrides?.(supabase, rows, eventId);
+
+      if (dryRun) {
+        await report('comparing');
+        result.diff = await diffAgainstExisting(supabase, parser.table, eventId, rows, parser.fields, parser.label, parser.keepsAppRows);
+      } else {
+        await report('writing', 0, rows.length);
+        const { deleted } = await replaceModuleRows(supabase, parser.table, eventId, rows, (done) => report('writing', done, rows.length));
+        result.removed = deleted;
+      }
+      result.count = rows.length;
+
+      if (verbose) {
+        for (const p of problems) console.log(`[${mode} ${eventId}] ${module} row ${p.row} ${p.column}: ${p.reason}`, p.value);
+      }
+    } catch (e) {
+      result.errors.push(e instanceof Error ? e.message : String(e));
+      result.keptPreviousData = !dryRun;
+    }
+
+    // One line per module; row level detail only with debug on
+    if (!result.absent) {
+      const outcome = result.errors.length > 0 ? `failed: ${result.errors.join('; ')}` : `${result.count} rows, ${result.skipped} skipped, ${result.removed} removed`;
+      console.log(`[${mode} ${eventId}] ${module}: ${outcome} (${Date.now() - moduleStart} ms)`);
+    }
+  }
+
+  return results;
+}
+
+export type SyncTrigger = 'manual' | 'scheduled' | 'webhook';
+
+// The run that holds an event's sync lock, or the earlier run of a repeated request
+export interface BlockingSyncRun {
+  runId: string | null;
+  status: string | null;
+  startedAt: string | null;
+  trigger: SyncTrigger | null;
+  triggeredBy: string | null;
+  // True when the same request id was seen before, false when another sync is running
+  duplicate: boolean;
+}
+
+export type SyncRunStart =
+  | { acquired: true; runId: string; startedAt: Date }
+  | { acquired: false; blocking: BlockingSyncRun };
+
+// Takes the event's sync lock by creating its running sync_runs row. Only one sync per event can
+// hold it, so two admins (or a double-click, or an overlapping cron run) cannot interleave their
+// writes. requestId makes a retried request return the earlier run instead of syncing again.
+// triggerDetail is shown in the run history, e.g. what sent a webhook call.
+export async function startSyncRun(
+  supabase: SupabaseClient,
+  { eventId, trigger, triggeredBy, requestId, triggerDetail }: {
+    eventId: string;
+    trigger: SyncTrigger;
+    triggeredBy?: string | null;
+    requestId?: string | null;
+    triggerDetail?: string | null;
+  },
+): Promise<SyncRunStart> {
+  const { data, error } = await supabase.rpc('start_sync_run', {
+    _event_id: eventId,
+    _trigger: trigger,
+    _triggered_by: triggeredBy ?? null,
+    _request_id: requestId ?? null,
+    _trigger_detail: triggerDetail ?? null,
+  });
+  if (error) throw error;
+
+  if (data.acquired) {
+    return { acquired: true, runId: data.run_id, startedAt: new Date(data.started_at) };
+  }
+  return {
+    acquired: false,
+    blocking: {
+      runId: data.run_id ?? null,
+      status: data.status ?? null,
+      startedAt: data.started_at ?? null,
+      trigger: data.trigger ?? null,
+      triggeredBy: data.triggered_by ?? null,
+      duplicate: !!data.duplicate,
+    },
+  };
+}
+
+// Completes the run started by startSyncRun, which releases the lock, and stamps
+// events.last_synced_at when at least one module went through
+export async function finishSyncRun(
+  supabase: SupabaseClient,
+  { runId, eventId, startedAt, results, error }: {
+    runId: string;
+    eventId: string;
+    startedAt: Date;
+    results?: SyncResults;
+    error?: string;
+  },
+): Promise<void> {
+  const finishedAt = new Date();
+  const modules = results ? Object.values(results).filter((result) => !result.absent) : [];
+  const failedModules = modules.filter((result) => result.errors.length > 0).length;
+  const status = error || failedModules === modules.length
+    ? 'failed'
+    : failedModules > 0 ? 'partial' : 'success';
+
+  // Row level problems can be long; the run history keeps the counts and module errors only
+  const summary = results
+    ? Object.fromEntries(Object.entries(results).filter(([, result]) => !result.absent).map(([module, result]) => [module, {
+      count: result.count,
+      removed: result.removed,
+      skipped: result.skipped,
+      errors: result.errors,
+      keptPreviousData: result.keptPreviousData,
+    }]))
+    : null;
+
+  const { error: updateRunError } = await supabase
+    .from('sync_runs')
+    .update({
+      status,
+      finished_at: finishedAt.toISOString(),
+      duration_ms: finishedAt.getTime() - startedAt.getTime(),
+      results: summary,
+      error: error ?? null,
+      progress: null,
+    })
+    .eq('id', runId);
+  // Left running, the lock would block syncs until it expires
+  if (updateRunError) console.error('Failed to record sync run:', updateRunError);
+
+  if (status !== 'failed') {
+    const { error: updateError } = await supabase
+      .from('events')
+      .update({ last_synced_at: finishedAt.toISOString() })
+      .eq('id', eventId);
+    if (updateError) console.error('Failed to update last_synced_at:', updateError);
+  }
+}
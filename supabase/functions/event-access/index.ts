@@ -0,0 +1,101 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import {
+  FAILED_ATTEMPT_DELAY_MS,
+  checkAttempt,
+  clientIp,
+  codeMatches,
+  randomToken,
+  recordFailure,
+  sleep,
+} from '../_shared/accessCode.ts';
+
+// How long a device stays let in before the code must be entered again
+const TOKEN_TTL_MS = 90 * 24 * 60 * 60_000;
+
+const MAX_SLUG_LENGTH = 200;
+const MAX_CODE_LENGTH = 200;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+// Called by the public site when a visitor enters the code of a closed event:
+//   POST /functions/v1/event-access  {"slug": "medlemsmote-2026", "code": "..."}
+// Answers {token, expiresAt}. The site sends the token in the x-event-access header, which RLS
+// checks through public.can_view_event.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  let slug: unknown;
+  let code: unknown;
+  try {
+    ({ slug, code } = await req.json());
+  } catch {
+    return jsonResponse({ success: false, error: 'Body must be JSON' }, 400);
+  }
+  if (typeof slug !== 'string' || !slug || slug.length > MAX_SLUG_LENGTH ||
+      typeof code !== 'string' || !code.trim() || code.length > MAX_CODE_LENGTH) {
+    return jsonResponse({ success: false, error: 'Missing slug or code' }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const ip = clientIp(req);
+
+  try {
+    // Checked before the code, so a visitor who has to wait learns nothing from further guesses
+    const { retryAfterMs, delayMs } = await checkAttempt(supabase, 'event', slug, ip);
+    if (retryAfterMs > 0) {
+      return jsonResponse({ success: false, error: 'For mange forsøk. Prøv igjen om litt.', retryAfterSeconds: Math.ceil(retryAfterMs / 1000) }, 429);
+    }
+    await sleep(delayMs);
+
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .select('id, access_protected, publish_at, unpublish_at, event_private_settings(event_access_code)')
+      .eq('slug', slug)
+      .eq('published', true)
+      .maybeSingle();
+    if (eventError) throw eventError;
+
+    // Same answer for unknown, open and closed events, so the function cannot be used to probe slugs
+    const settings = Array.isArray(event?.event_private_settings)
+      ? event?.event_private_settings[0]
+      : event?.event_private_settings;
+    // Outside its publishing window the event counts as unpublished
+    const now = Date.now();
+    const scheduledOut = !!event && (
+      (event.publish_at && new Date(event.publish_at).getTime() > now) ||
+      (event.unpublish_at && new Date(event.unpublish_at).getTime() <= now)
+    );
+    if (!event?.access_protected || scheduledOut || !codeMatches(code, settings?.event_access_code)) {
+      await recordFailure(supabase, 'event', slug, ip);
+      await sleep(FAILED_ATTEMPT_DELAY_MS);
+      return jsonResponse({ success: false, error: 'Feil tilgangskode' }, 403);
+    }
+
+    // Expired tokens are of no use to anyone; clear them out while we are here
+    await supabase.from('event_access_tokens').delete().eq('event_id', event.id).lt('expires_at', new Date().toISOString());
+
+    const token = randomToken();
+    const expiresAt = new Date(Date.now() + TOKEN_TTL_MS).toISOString();
+    const { error: insertError } = await supabase
+      .from('event_access_tokens')
+      .insert({ token, event_id: event.id, expires_at: expiresAt });
+    if (insertError) throw insertError;
+
+    return jsonResponse({ success: true, token, expiresAt });
+  } catch (error) {
+    console.error('Event access error:', error);
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -0,0 +1,99 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import {
+  FAILED_ATTEMPT_DELAY_MS,
+  checkAttempt,
+  clientIp,
+  codeMatches,
+  randomToken,
+  recordFailure,
+  sleep,
+} from '../_shared/accessCode.ts';
+
+// The directory code is remembered for about a day, like a browser session
+const TOKEN_TTL_MS = 24 * 60 * 60_000;
+
+const MAX_SLUG_LENGTH = 200;
+const MAX_CODE_LENGTH = 200;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+// Called by the public participant page when a visitor enters the directory's access code:
+//   POST /functions/v1/participant-access  {"slug": "medlemsmote-2026", "code": "..."}
+// Answers {token, expiresAt}. The site sends the token in the x-participant-access header, which
+// RLS checks through public.has_participant_access. The event's own access rules still apply.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  let slug: unknown;
+  let code: unknown;
+  try {
+    ({ slug, code } = await req.json());
+  } catch {
+    return jsonResponse({ success: false, error: 'Body must be JSON' }, 400);
+  }
+  if (typeof slug !== 'string' || !slug || slug.length > MAX_SLUG_LENGTH ||
+      typeof code !== 'string' || !code.trim() || code.length > MAX_CODE_LENGTH) {
+    return jsonResponse({ success: false, error: 'Missing slug or code' }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const ip = clientIp(req);
+
+  try {
+    // Checked before the code, so a visitor who has to wait learns nothing from further guesses
+    const { retryAfterMs, delayMs } = await checkAttempt(supabase, 'participants', slug, ip);
+    if (retryAfterMs > 0) {
+      return jsonResponse({ success: false, error: 'For mange forsøk. Prøv igjen om litt.', retryAfterSeconds: Math.ceil(retryAfterMs / 1000) }, 429);
+    }
+    await sleep(delayMs);
+
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .select('id, participant_directory, publish_at, unpublish_at, event_private_settings(participant_access_code)')
+      .eq('slug', slug)
+      .eq('published', true)
+      .maybeSingle();
+    if (eventError) throw eventError;
+
+    // Same answer for unknown events and other directory modes, so slugs cannot be probed
+    const settings = Array.isArray(event?.event_private_settings)
+      ? event?.event_private_settings[0]
+      : event?.event_private_settings;
+    const now = Date.now();
+    const scheduledOut = !!event && (
+      (event.publish_at && new Date(event.publish_at).getTime() > now) ||
+      (event.unpublish_at && new Date(event.unpublish_at).getTime() <= now)
+    );
+    if (event?.participant_directory !== 'access_code' || scheduledOut || !codeMatches(code, settings?.participant_access_code)) {
+      await recordFailure(supabase, 'participants', slug, ip);
+      await sleep(FAILED_ATTEMPT_DELAY_MS);
+      return jsonResponse({ success: false, error: 'Feil tilgangskode' }, 403);
+    }
+
+    await supabase.from('participant_access_tokens').delete().eq('event_id', event.id).lt('expires_at', new Date().toISOString());
+
+    const token = randomToken();
+    const expiresAt = new Date(Date.now() + TOKEN_TTL_MS).toISOString();
+    const { error: insertError } = await supabase
+      .from('participant_access_tokens')
+      .insert({ token, event_id: event.id, expires_at: expiresAt });
+    if (insertError) throw insertError;
+
+    return jsonResponse({ success: true, token, expiresAt });
+  } catch (error) {
+    console.error('Participant access error:', error);
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -0,0 +1,115 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { buildCalendar } from '../_shared/ics.ts';
+
+// How often subscribed calendar apps are asked to fetch the feed again
+const REFRESH_MINUTES = 60;
+
+const MAX_PARAM_LENGTH = 200;
+
+function textResponse(body: string, status: number): Response {
+  return new Response(body, { status, headers: { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' } });
+}
+
+interface FeedItem {
+  id: string;
+  day: string;
+  start_time: string;
+  end_time: string | null;
+  title: string;
+  description: string | null;
+  location: string | null;
+  category: string | null;
+}
+
+// Subscribable calendar of an event's program, optionally of one category:
+//   GET /functions/v1/program-calendar?event=<slug>[&category=<name>][&feed=<token>]
+// The program page links to it with webcal://. Open events are read with the anon key and RLS
+// decides what the feed may show, exactly as for the public pages. Calendar apps cannot send
+// headers, so a closed event's feed carries a feed token from create_calendar_feed_token in the
+// address instead; it opens this feed only, and changing the access code revokes it.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== 'GET') {
+    return textResponse('Method not allowed', 405);
+  }
+
+  const params = new URL(req.url).searchParams;
+  const slug = params.get('event');
+  const category = params.get('category')?.trim().toLowerCase() || null;
+  const feedToken = params.get('feed');
+  if (!slug || slug.length > MAX_PARAM_LENGTH || (category && category.length > MAX_PARAM_LENGTH) ||
+      (feedToken && feedToken.length > MAX_PARAM_LENGTH)) {
+    return textResponse('Missing event', 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    // The slug header lets unlisted events through, as on the public pages
+    { global: { headers: { 'x-event-slug': slug } } }
+  );
+
+  try {
+    let event: { id: string; name: string } | null;
+    let items: FeedItem[] | null;
+    if (feedToken) {
+      const { data: feed, error: feedError } = await supabase.rpc('get_calendar_feed', { _slug: slug, _token: feedToken });
+      if (feedError) throw feedError;
+      event = feed;
+      items = feed?.items ?? null;
+    } else {
+      const { data: eventData, error: eventError } = await supabase
+        .from('events')
+        .select('id, name')
+        .eq('slug', slug)
+        .maybeSingle();
+      if (eventError) throw eventError;
+      event = eventData;
+      if (event) {
+        const { data: itemsData, error: itemsError } = await supabase
+          .from('program_items')
+          .select('id, day, start_time, end_time, title, description, location, category')
+          .eq('event_id', event.id)
+          .order('day', { ascending: true })
+          .order('start_time', { ascending: true });
+        if (itemsError) throw itemsError;
+        items = itemsData;
+      } else {
+        items = null;
+      }
+    }
+    if (!event) {
+      return textResponse('Event not found', 404);
+    }
+
+    // Same matching as the category filter on the program page
+    const selected = category
+      ? (items ?? []).filter((item) =>
+          (item.category ?? '').split(',').map((c: string) => c.trim().toLowerCase()).includes(category))
+      : items ?? [];
+    const categoryLabel = category
+      ? (items ?? [])
+          .flatMap((item) => (item.category ?? '').split(',').map((c: string) => c.trim()))
+          .find((c: string) => c.toLowerCase() === category) ?? category
+      : null;
+
+    const calendar = buildCalendar(selected, {
+      name: categoryLabel ? `${event.name} – ${categoryLabel}` : event.name,
+      refreshMinutes: REFRESH_MINUTES,
+    });
+    return new Response(calendar, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${slug}.ics"`,
+        'Cache-Control': `private, max-age=${REFRESH_MINUTES * 60}`,
+      },
+    });
+  } catch (error) {
+    console.error('Program calendar error:', error);
+    return textResponse('Could not build the calendar', 500);
+  }
+});
@@ -0,0 +1,174 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { SheetConfig } from '../_shared/sheetColumns.ts';
+import { extractSheetId, googleSheetsSource } from '../_shared/sheetSources.ts';
+import { finishSyncRun, runSheetSync, startSyncRun, syncRunProgress } from '../_shared/sheetSync.ts';
+
+// Oslo calendar date as YYYY-MM-DD, which is what events.date and events.end_date hold
+function osloToday(): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: 'Europe/Oslo' }).format(new Date());
+}
+
+// Keeps the function alive for work that continues after the response has been sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Events handed out per cron round, most overdue first; the rest are due again in the next round
+const MAX_EVENTS_PER_ROUND = 5;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+// Webhook calls the sync-webhook function could not serve itself, because another sync was running
+// when its debounce ran out, are picked up here once they are this old
+const WEBHOOK_PICKUP_AFTER_MS = 60_000;
+
+interface DueEvent {
+  id: string;
+  trigger: 'scheduled' | 'webhook';
+  // What sent a webhook call, shown in the run history
+  triggerDetail: string | null;
+  overdueMs: number;
+}
+
+// Start of the latest sync run of each event that has one
+async function lastRunStarts(supabase: SupabaseClient, eventIds: string[]): Promise<Map<string, number>> {
+  if (eventIds.length === 0) return new Map();
+  const { data, error } = await supabase.rpc('latest_sync_run_starts', { _event_ids: eventIds });
+  if (error) throw error;
+  return new Map((data || []).map((run: { event_id: string; started_at: string }) => [run.event_id, new Date(run.started_at).getTime()]));
+}
+
+// The events with auto-sync switched on that are running today and whose latest sync run is
+// older than their interval, and the events with a webhook call no sync run has started since.
+// Most overdue first, each event once.
+async function dueEvents(supabase: SupabaseClient): Promise<DueEvent[]> {
+  const today = osloToday();
+  const { data: events, error } = await supabase
+    .from('events')
+    .select('id, auto_sync_interval_minutes, date, end_date')
+    .not('auto_sync_interval_minutes', 'is', null)
+    .not('google_sheets_url', 'is', null)
+    .lte('date', today);
+  if (error) throw error;
+
+  const { data: webhookCalls, error: webhookError } = await supabase
+    .from('event_private_settings')
+    .select('event_id, webhook_requested_at, webhook_request_detail')
+    .not('webhook_secret', 'is', null)
+    .lt('webhook_requested_at', new Date(Date.now() - WEBHOOK_PICKUP_AFTER_MS).toISOString());
+  if (webhookError) throw webhookError;
+
+  const running = (events || []).filter((event) => (event.end_date || event.date) >= today);
+  const lastRuns = await lastRunStarts(supabase, [
+    ...new Set([...(webhookCalls || []).map((call) => call.event_id), ...running.map((event) => event.id)]),
+  ]);
+
+  const due = new Map<string, DueEvent>();
+  for (const call of webhookCalls || []) {
+    const lastRun = lastRuns.get(call.event_id);
+    const requestedAt = new Date(call.webhook_requested_at).getTime();
+    if (lastRun === undefined || lastRun < requestedAt) {
+      due.set(call.event_id, {
+        id: call.event_id,
+        trigger: 'webhook',
+        triggerDetail: call.webhook_request_detail,
+        overdueMs: Date.now() - requestedAt,
+      });
+    }
+  }
+
+  for (const event of running) {
+    if (due.has(event.id)) continue;
+    const lastRun = lastRuns.get(event.id);
+    // A minute of slack so cron jitter does not push a 15 minute interval to 20
+    const dueAfter = event.auto_sync_interval_minutes * 60_000 - 60_000;
+    const overdueMs = lastRun !== undefined ? Date.now() - lastRun - dueAfter : Number.MAX_SAFE_INTEGER;
+    if (overdueMs >= 0) due.set(event.id, { id: event.id, trigger: 'scheduled', triggerDetail: null, overdueMs });
+  }
+  return [...due.values()].sort((a, b) => b.overdueMs - a.overdueMs);
+}
+
+// Syncs one event, in an invocation of its own so each sync gets the full time limit
+async function syncEvent(
+  supabase: SupabaseClient,
+  eventId: string,
+  { trigger, triggerDetail }: Pick<DueEvent, 'trigger' | 'triggerDetail'>,
+): Promise<Response> {
+  const { data: event, error } = await supabase
+    .from('events')
+    .select('google_sheets_url, sheet_config')
+    .eq('id', eventId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!event) {
+    return jsonResponse({ success: false, error: 'Event not found' }, 404);
+  }
+
+  // An admin may be syncing by hand right now; the next cron round picks the event up again
+  const run = await startSyncRun(supabase, { eventId, trigger, triggerDetail });
+  if (!run.acquired) {
+    console.log(`Skipping event ${eventId}: sync already running since ${run.blocking.startedAt}`);
+    return jsonResponse({ success: true, synced: false });
+  }
+  const { runId, startedAt } = run;
+
+  const sheetId = event.google_sheets_url ? extractSheetId(event.google_sheets_url) : null;
+  if (!sheetId) {
+    await finishSyncRun(supabase, { runId, eventId, startedAt, error: 'Invalid Google Sheets URL' });
+    return jsonResponse({ success: false, error: 'Invalid Google Sheets URL' });
+  }
+
+  try {
+    const results = await runSheetSync(supabase, {
+      eventId,
+      source: googleSheetsSource(sheetId),
+      sheetConfig: (event.sheet_config as SheetConfig) ?? {},
+      dryRun: false,
+      onProgress: syncRunProgress(supabase, runId),
+    });
+    await finishSyncRun(supabase, { runId, eventId, startedAt, results });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    console.error(`Scheduled sync failed for event ${eventId}:`, message);
+    await finishSyncRun(supabase, { runId, eventId, startedAt, error: message });
+  }
+  return jsonResponse({ success: true, synced: true });
+}
+
+// Called every five minutes by pg_cron with an empty body. That call only works out which events
+// are due and calls this function again once per event with {"eventId", "trigger", "triggerDetail"},
+// so one slow sheet cannot hold up the others or push the round past the function's time limit.
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (typeof body?.eventId === 'string') {
+      return await syncEvent(supabase, body.eventId, {
+        trigger: body.trigger === 'webhook' ? 'webhook' : 'scheduled',
+        triggerDetail: typeof body.triggerDetail === 'string' ? body.triggerDetail : null,
+      });
+    }
+
+    const due = await dueEvents(supabase);
+    const dispatched = due.slice(0, MAX_EVENTS_PER_ROUND);
+    // The client sends the service role key, which the per-event calls check like the cron call
+    EdgeRuntime.waitUntil(Promise.allSettled(dispatched.map(async ({ id, trigger, triggerDetail }) => {
+      const { error } = await supabase.functions.invoke('sync-scheduled', { body: { eventId: id, trigger, triggerDetail } });
+      if (error) console.error(`Scheduled sync call failed for event ${id}:`, error);
+    })));
+
+    console.log(`Scheduled sync: ${due.length} events due, ${dispatched.length} dispatched`);
+    return jsonResponse({ success: true, dispatched: dispatched.map((event) => event.id) }, 202);
+  } catch (error) {
+    console.error('Scheduled sync error:', error);
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -1,6 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import Papa from 'https://esm.sh/papaparse@5.4.1';
+import type { SheetConfig } from '../_shared/sheetColumns.ts';
+import { createSheetSource, type SheetSource, type SheetSourceConfig } from '../_shared/sheetSources.ts';
+import {
+  detectSheetHeaders,
+  finishSyncRun,
+  runSheetSync,
+  startSyncRun,
+  syncRunProgress,
+  type SyncResults,
+} from '../_shared/sheetSync.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,115 +19,6 @@ const corsHeaders = {
 // UUID validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-// Max file size (10MB)
-const MAX_FILE_SIZE = 10 * 1024 * 1024;
-
-// Max rows per sheet
-const MAX_ROWS = 10000;
-
-// Helper function to parse flexible date formats
-function parseFlexibleDate(dateStr: string | null | undefined): string | null {
-  if (!dateStr) return null;
-  
-  const trimmed = String(dateStr).trim();
-  if (!trimmed) return null;
-  
-  console.log(`Parsing date: "${trimmed}"`);
-  
-  // Try ISO format first (YYYY-MM-DD)
-  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
-    return trimmed;
-  }
-  
-  // Try DD/MM/YYYY or DD.MM.YYYY or DD-MM-YYYY
-  const ddmmyyyyMatch = trimmed.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
-  if (ddmmyyyyMatch) {
-    const [, day, month, year] = ddmmyyyyMatch;
-    const isoDate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-    console.log(`Converted ${trimmed} to ${isoDate}`);
-    return isoDate;
-  }
-  
-  // Try YYYY/MM/DD or YYYY.MM.DD
-  const yyyymmddMatch = trimmed.match(/^(\d{4})[./-](\d{1,2})[./-](\d{1,2})$/);
-  if (yyyymmddMatch) {
-    const [, year, month, day] = yyyymmddMatch;
-    const isoDate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-    console.log(`Converted ${trimmed} to ${isoDate}`);
-    return isoDate;
-  }
-  
-  // Try parsing as a timestamp/date object
-  try {
-    const parsed = new Date(trimmed);
-    if (!isNaN(parsed.getTime())) {
-      const isoDate = parsed.toISOString().split('T')[0];
-      console.log(`Parsed ${trimmed} as Date object to ${isoDate}`);
-      return isoDate;
-    }
-  } catch (e) {
-    console.warn(`Could not parse date: "${trimmed}"`);
-  }
-  
-  console.warn(`Failed to parse date: "${trimmed}"`);
-  return null;
-}
-
-// Helper function to parse flexible time formats
-function parseFlexibleTime(timeStr: string | null | undefined): string | null {
-  if (!timeStr) return null;
-  
-  const trimmed = String(timeStr).trim();
-  if (!trimmed) return null;
-  
-  console.log(`Parsing time: "${trimmed}"`);
-  
-  // Try HH:MM format (already valid)
-  if (/^\d{1,2}:\d{2}$/.test(trimmed)) {
-    const [hours, minutes] = trimmed.split(':');
-    const formatted = `${hours.padStart(2, '0')}:${minutes}`;
-    console.log(`Time already valid, formatted: ${formatted}`);
-    return formatted;
-  }
-  
-  // Try HH.MM format (with dot separator)
-  const dotMatch = trimmed.match(/^(\d{1,2})\.(\d{2})$/);
-  if (dotMatch) {
-    const [, hours, minutes] = dotMatch;
-    const formatted = `${hours.padStart(2, '0')}:${minutes}`;
-    console.log(`Converted ${trimmed} to ${formatted}`);
-    return formatted;
-  }
-  
-  // Try HHMM format (no separator)
-  const noSepMatch = trimmed.match(/^(\d{1,2})(\d{2})$/);
-  if (noSepMatch) {
-    const [, hours, minutes] = noSepMatch;
-    const formatted = `${hours.padStart(2, '0')}:${minutes}`;
-    console.log(`Converted ${trimmed} to ${formatted}`);
-    return formatted;
-  }
-  
-  // Try with seconds HH:MM:SS
-  const withSecondsMatch = trimmed.match(/^(\d{1,2}):(\d{2}):\d{2}$/);
-  if (withSecondsMatch) {
-    const [, hours, minutes] = withSecondsMatch;
-    const formatted = `${hours.padStart(2, '0')}:${minutes}`;
-    console.log(`Converted ${trimmed} to ${formatted}`);
-    return formatted;
-  }
-  
-  console.warn(`Failed to parse time: "${trimmed}"`);
-  return null;
-}
-
-// Helper to safely get and trim string value
-function getTrimmed(value: any): string | null {
-  if (value === null || value === undefined || value === '') return null;
-  const str = String(value).trim();
-  return str === '' ? null : str;
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -247,7 +147,7 @@ serve(async (req) => {
     console.log('Admin authorization confirmed for user:', user.id, 'with role:', userRole);
 
     // 4. Parse and validate request body
-    const { sheetsUrl, eventId } = await req.json();
+    const { sheetsUrl, files, source, eventId, dryRun = false, detectHeaders = false, sheetConfig: requestedSheetConfig, requestId, debug = false } = await req.json();
     
     // Validate eventId format
     if (!eventId || !UUID_REGEX.test(eventId)) {
@@ -257,31 +157,24 @@ serve(async (req) => {
       );
     }
 
-    // Validate sheetsUrl format
-    if (!sheetsUrl || typeof sheetsUrl !== 'string') {
+    // 5. Work out the data source. sheetsUrl and files are shorthands kept for the editor.
+    const sourceConfig: SheetSourceConfig | null = source
+      ?? (Array.isArray(files) && files.length > 0 ? { kind: 'upload', files } : null)
+      ?? (typeof sheetsUrl === 'string' && sheetsUrl ? { kind: 'google_sheets', url: sheetsUrl } : null);
+
+    if (!sourceConfig) {
       return new Response(
         JSON.stringify({ success: false, error: 'Invalid sheets URL' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
-    // 5. Validate Google Sheets URL format
-    const sheetsUrlPattern = /^https:\/\/docs\.google\.com\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/;
-    const sheetIdMatch = sheetsUrl.match(sheetsUrlPattern);
-    
-    if (!sheetIdMatch) {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Invalid Google Sheets URL format. Must be a valid Google Sheets URL.' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
     
-    const sheetId = sheetIdMatch[1];
-    console.log('Syncing sheets for event:', eventId, 'by user:', user.id);
+    console.log('Syncing', sourceConfig.kind, 'source for event:', eventId, 'by user:', user.id);
 
     // 6. Verify event exists and user has access
     const { data: eventData, error: eventError } = await supabaseClient
       .from('events')
-      .select('id, created_by')
+      .select('id, created_by, sheet_config')
       .eq('id', eventId)
       .maybeSingle();
 
@@ -311,289 +204,76 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const results: any = {
-      program: { count: 0, errors: [] },
-      participants: { count: 0, errors: [] },
-      exhibitors: { count: 0, errors: [] },
-    };
+    // The editor sends its unsaved mapping so organisers can try it before saving
+    const sheetConfig: SheetConfig = requestedSheetConfig ?? eventData.sheet_config ?? {};
 
-    // Sync Program
+    let sheetSource: SheetSource;
     try {
-      const programUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/gviz/tq?tqx=out:csv&sheet=Program`;
-      const programRes = await fetch(programUrl, { 
-        signal: AbortSignal.timeout(30000) // 30 second timeout
-      });
-      
-      if (!programRes.ok) {
-        throw new Error(`Failed to fetch Program sheet: ${programRes.statusText}`);
-      }
-
-      const contentLength = programRes.headers.get('content-length');
-      if (contentLength && parseInt(contentLength) > MAX_FILE_SIZE) {
-        throw new Error('Program sheet exceeds maximum file size (10MB)');
-      }
-
-      const programCsv = await programRes.text();
-      
-      if (programCsv.length > MAX_FILE_SIZE) {
-        throw new Error('Program sheet exceeds maximum file size (10MB)');
-      }
-      
-      const programData: any = Papa.parse(programCsv, { 
-        header: true, 
-        skipEmptyLines: 'greedy' as any,
-        dynamicTyping: false // Safer - keep as strings initially
-      });
-      
-      if (programData.data.length > MAX_ROWS) {
-        throw new Error(`Program sheet exceeds maximum row count (${MAX_ROWS})`);
-      }
-      
-      await supabase.from('program_items').delete().eq('event_id', eventId);
-      
-      const programItems = programData.data
-        .filter((row: any) => row && Object.keys(row).length > 0)
-        .slice(0, MAX_ROWS)
-        .map((row: any, idx: number) => {
-          const rowNum = idx + 1;
-          console.log(`Processing Program row ${rowNum}:`, row);
-          
-          // Get raw values with multiple column name fallbacks
-          const dayRaw = getTrimmed(row.dag || row.Dag || row.day || row.Day);
-          const startRaw = getTrimmed(row.start || row.Start);
-          const endRaw = getTrimmed(row.end || row.End);
-          const titleRaw = getTrimmed(row.tittel || row.Tittel || row.title || row.Title);
-          const descriptionRaw = getTrimmed(row.beskrivelse || row.Beskrivelse || row.description || row.Description);
-          const locationRaw = getTrimmed(row.sted || row.Sted || row.location || row.Location);
-          const categoryRaw = getTrimmed(row.kategori || row.Kategori || row.category || row.Category);
-          const locationUrlRaw = getTrimmed(row.sted_url || row.Sted_url || row.location_url || row.Location_url);
-          const imageUrlRaw = getTrimmed(row.bilde_url || row.Bilde_url || row.image_url || row.Image_url);
-          const imageUrl2Raw = getTrimmed(row.bilde_url_2 || row.Bilde_url_2 || row.image_url_2 || row.Image_url_2);
-          
-          // Process location URL - ensure it starts with http(s)://
-          let locationUrl: string | null = null;
-          if (locationUrlRaw) {
-            locationUrl = locationUrlRaw.startsWith('http://') || locationUrlRaw.startsWith('https://') 
-              ? locationUrlRaw 
-              : `https://${locationUrlRaw}`;
-          }
-
-          // Helper to convert Google Drive share URLs to direct image URLs
-          function convertGoogleDriveUrl(url: string | null): string | null {
-            if (!url) return null;
-            let fileId: string | null = null;
-            // /file/d/FILE_ID/...
-            const fileMatch = url.match(/drive\.google\.com\/file\/d\/([a-zA-Z0-9_-]+)/);
-            if (fileMatch) fileId = fileMatch[1];
-            // /open?id=FILE_ID
-            if (!fileId) {
-              const openMatch = url.match(/drive\.google\.com\/open\?id=([a-zA-Z0-9_-]+)/);
-              if (openMatch) fileId = openMatch[1];
-            }
-            // uc?export=view&id=FILE_ID
-            if (!fileId) {
-              const ucMatch = url.match(/drive\.google\.com\/uc\?.*id=([a-zA-Z0-9_-]+)/);
-              if (ucMatch) fileId = ucMatch[1];
-            }
-            // Use lh3.googleusercontent.com which works cross-origin
-            if (fileId) return `https://lh3.googleusercontent.com/d/${fileId}`;
-            return url;
-          }
-
-          const imageUrl = convertGoogleDriveUrl(imageUrlRaw);
-          const imageUrl2 = convertGoogleDriveUrl(imageUrl2Raw);
-          
-          // Parse and validate
-          const day = parseFlexibleDate(dayRaw);
-          const start_time = parseFlexibleTime(startRaw);
-          const end_time = parseFlexibleTime(endRaw);
-          
-          // Log validation results
-          if (!day) {
-            console.warn(`Row ${rowNum}: Failed to parse day "${dayRaw}"`);
-          }
-          if (!start_time) {
-            console.warn(`Row ${rowNum}: Failed to parse start_time "${startRaw}"`);
-          }
-          if (!titleRaw) {
-            console.warn(`Row ${rowNum}: Missing required title`);
-          }
-          
-          return {
-            event_id: eventId,
-            external_id: `p${rowNum}`,
-            day: day,
-            start_time: start_time,
-            end_time: end_time,
-            title: titleRaw || 'Untitled',
-            description: descriptionRaw,
-            location: locationRaw,
-            location_url: locationUrl,
-            category: categoryRaw,
-            image_url: imageUrl,
-            image_url_2: imageUrl2,
-          };
-        })
-        .filter((item: any) => {
-          // Only include items that have minimum required fields
-          if (!item.day || !item.start_time || !item.title || item.title === 'Untitled') {
-            console.warn(`Skipping invalid program item: ${JSON.stringify(item)}`);
-            return false;
-          }
-          return true;
-        });
-      
-      const { error } = await supabase.from('program_items').insert(programItems);
-      if (error) throw error;
-      results.program.count = programItems.length;
-    } catch (e: any) {
-      results.program.errors.push(e.message);
+      sheetSource = createSheetSource(sourceConfig, sheetConfig);
+    } catch (e) {
+      return new Response(
+        JSON.stringify({ success: false, error: e instanceof Error ? e.message : 'Invalid data source' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Sync Participants
-    try {
-      const participantsUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/gviz/tq?tqx=out:csv&sheet=Deltakere`;
-      const participantsRes = await fetch(participantsUrl, {
-        signal: AbortSignal.timeout(30000)
-      });
-      
-      if (!participantsRes.ok) {
-        throw new Error(`Failed to fetch Deltakere sheet: ${participantsRes.statusText}`);
-      }
+    if (detectHeaders) {
+      const sheets = await detectSheetHeaders(sheetSource, sheetConfig);
+      return new Response(
+        JSON.stringify({ success: true, sheets }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-      const contentLength = participantsRes.headers.get('content-length');
-      if (contentLength && parseInt(contentLength) > MAX_FILE_SIZE) {
-        throw new Error('Deltakere sheet exceeds maximum file size (10MB)');
-      }
+    // A dry run only reads, so it does not need the sync lock
+    if (dryRun) {
+      const results = await runSheetSync(supabase, { eventId, source: sheetSource, sheetConfig, dryRun, debug: debug === true });
+      return new Response(
+        JSON.stringify({ success: true, dryRun, results, timestamp: new Date().toISOString() }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-      const participantsCsv = await participantsRes.text();
-      
-      if (participantsCsv.length > MAX_FILE_SIZE) {
-        throw new Error('Deltakere sheet exceeds maximum file size (10MB)');
-      }
-      
-      const participantsData: any = Papa.parse(participantsCsv, { 
-        header: true, 
-        skipEmptyLines: 'greedy' as any,
-        dynamicTyping: false
-      });
-      
-      if (participantsData.data.length > MAX_ROWS) {
-        throw new Error(`Deltakere sheet exceeds maximum row count (${MAX_ROWS})`);
-      }
-      
-      await supabase.from('participants').delete().eq('event_id', eventId);
-      
-      const participants = participantsData.data
-        .filter((row: any) => row && Object.keys(row).length > 0)
-        .slice(0, MAX_ROWS)
-        .map((row: any, idx: number) => {
-          const rowNum = idx + 1;
-          console.log(`Processing Participant row ${rowNum}:`, row);
-          
-          const nameRaw = getTrimmed(row.navn || row.Navn || row.name || row.Name);
-          const companyRaw = getTrimmed(row.bedrift || row.Bedrift || row.company || row.Company);
-          const categoryRaw = getTrimmed(row.kategori || row.Kategori || row.category || row.Category);
-          
-          if (!nameRaw) {
-            console.warn(`Row ${rowNum}: Missing required name`);
-          }
-          
-          return {
-            event_id: eventId,
-            external_id: `d${rowNum}`,
-            name: nameRaw || 'Unknown',
-            company: companyRaw,
-            category: categoryRaw,
-          };
-        })
-        .filter((item: any) => {
-          if (!item.name || item.name === 'Unknown') {
-            console.warn(`Skipping invalid participant: ${JSON.stringify(item)}`);
-            return false;
-          }
-          return true;
-        });
-      
-      const { error } = await supabase.from('participants').insert(participants);
-      if (error) throw error;
-      results.participants.count = participants.length;
-    } catch (e: any) {
-      results.participants.errors.push(e.message);
+    // 8. Take the event's sync lock so concurrent syncs cannot interleave their writes
+    const run = await startSyncRun(supabase, {
+      eventId,
+      trigger: 'manual',
+      triggeredBy: user.id,
+      requestId: typeof requestId === 'string' && requestId ? requestId : null,
+    });
+
+    if (!run.acquired) {
+      const { blocking } = run;
+      console.log('Sync refused for event:', eventId, blocking);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          code: blocking.duplicate ? 'duplicate_request' : 'sync_running',
+          error: blocking.duplicate ? 'This sync request has already been received' : 'A sync is already running for this event',
+          running: blocking,
+        }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Sync Exhibitors
+    let results: SyncResults;
     try {
-      const exhibitorsUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/gviz/tq?tqx=out:csv&sheet=Utstillere`;
-      const exhibitorsRes = await fetch(exhibitorsUrl, {
-        signal: AbortSignal.timeout(30000)
-      });
-      
-      if (!exhibitorsRes.ok) {
-        throw new Error(`Failed to fetch Utstillere sheet: ${exhibitorsRes.statusText}`);
-      }
-
-      const contentLength = exhibitorsRes.headers.get('content-length');
-      if (contentLength && parseInt(contentLength) > MAX_FILE_SIZE) {
-        throw new Error('Utstillere sheet exceeds maximum file size (10MB)');
-      }
-
-      const exhibitorsCsv = await exhibitorsRes.text();
-      
-      if (exhibitorsCsv.length > MAX_FILE_SIZE) {
-        throw new Error('Utstillere sheet exceeds maximum file size (10MB)');
-      }
-      
-      const exhibitorsData: any = Papa.parse(exhibitorsCsv, { 
-        header: true, 
-        skipEmptyLines: 'greedy' as any,
-        dynamicTyping: false
+      results = await runSheetSync(supabase, {
+        eventId,
+        source: sheetSource,
+        sheetConfig,
+        dryRun,
+        debug: debug === true,
+        onProgress: syncRunProgress(supabase, run.runId),
       });
-      
-      if (exhibitorsData.data.length > MAX_ROWS) {
-        throw new Error(`Utstillere sheet exceeds maximum row count (${MAX_ROWS})`);
-      }
-      
-      await supabase.from('exhibitors').delete().eq('event_id', eventId);
-      
-      const exhibitors = exhibitorsData.data
-        .filter((row: any) => row && Object.keys(row).length > 0)
-        .slice(0, MAX_ROWS)
-        .map((row: any, idx: number) => {
-          const rowNum = idx + 1;
-          console.log(`Processing Exhibitor row ${rowNum}:`, row);
-          
-          const companyRaw = getTrimmed(row.bedriftsnavn || row.Bedriftsnavn || row.company || row.Company);
-          const standRaw = getTrimmed(row.standnummer || row.Standnummer || row.stand || row.Stand);
-          
-          if (!companyRaw) {
-            console.warn(`Row ${rowNum}: Missing required company_name`);
-          }
-          
-          return {
-            event_id: eventId,
-            external_id: `u${rowNum}`,
-            company_name: companyRaw || 'Unknown Company',
-            stand_number: standRaw,
-          };
-        })
-        .filter((item: any) => {
-          if (!item.company_name || item.company_name === 'Unknown Company') {
-            console.warn(`Skipping invalid exhibitor: ${JSON.stringify(item)}`);
-            return false;
-          }
-          return true;
-        });
-      
-      const { error } = await supabase.from('exhibitors').insert(exhibitors);
-      if (error) throw error;
-      results.exhibitors.count = exhibitors.length;
-    } catch (e: any) {
-      results.exhibitors.errors.push(e.message);
+    } catch (e) {
+      await finishSyncRun(supabase, { runId: run.runId, eventId, startedAt: run.startedAt, error: e instanceof Error ? e.message : String(e) });
+      throw e;
     }
+    await finishSyncRun(supabase, { runId: run.runId, eventId, startedAt: run.startedAt, results });
 
     return new Response(
-      JSON.stringify({ success: true, results, timestamp: new Date().toISOString() }),
+      JSON.stringify({ success: true, dryRun, results, timestamp: new Date().toISOString() }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error: any) {
@@ -0,0 +1,183 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { SheetConfig } from '../_shared/sheetColumns.ts';
+import { extractSheetId, googleSheetsSource } from '../_shared/sheetSources.ts';
+import { finishSyncRun, runSheetSync, startSyncRun, syncRunProgress } from '../_shared/sheetSync.ts';
+
+// Keeps the function alive for work that continues after the response has been sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Calls arriving within this window of each other are merged into one sync
+const DEBOUNCE_MS = 20_000;
+
+// Signed requests older than this are refused, so a captured request cannot be replayed later
+const MAX_CLOCK_SKEW_MS = 5 * 60_000;
+
+// Longest trigger description kept in the run history
+const MAX_DETAIL_LENGTH = 200;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Compares in constant time so the signature cannot be guessed byte by byte from response times
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// Runs one sync for the burst that ended with the call made at requestedAt. Each accepted call
+// schedules this; all but the last one of a burst find a newer call and step aside.
+async function debouncedSync(supabase: SupabaseClient, eventId: string, requestedAt: string, detail: string) {
+  await sleep(DEBOUNCE_MS);
+
+  const { data: settings } = await supabase
+    .from('event_private_settings')
+    .select('webhook_requested_at')
+    .eq('event_id', eventId)
+    .maybeSingle();
+  if (!settings?.webhook_requested_at || new Date(settings.webhook_requested_at).getTime() !== new Date(requestedAt).getTime()) {
+    return;
+  }
+
+  const { data: event, error: eventError } = await supabase
+    .from('events')
+    .select('google_sheets_url, sheet_config')
+    .eq('id', eventId)
+    .maybeSingle();
+  if (eventError || !event) {
+    console.error(`Webhook sync: event ${eventId} not found`, eventError);
+    return;
+  }
+
+  // A sync already running may have read the sheet before this edit. Waiting for it here could run
+  // past the function's time limit, so the call is left to sync-scheduled, which syncs events with
+  // a webhook call no run has started since
+  const run = await startSyncRun(supabase, { eventId, trigger: 'webhook', triggerDetail: detail });
+  if (!run.acquired) {
+    console.log(`Webhook sync for event ${eventId} left for the scheduled sync: a sync is running since ${run.blocking.startedAt}`);
+    return;
+  }
+
+  const { runId, startedAt } = run;
+  const sheetId = event.google_sheets_url ? extractSheetId(event.google_sheets_url) : null;
+  if (!sheetId) {
+    await finishSyncRun(supabase, { runId, eventId, startedAt, error: 'Invalid Google Sheets URL' });
+    return;
+  }
+
+  try {
+    const results = await runSheetSync(supabase, {
+      eventId,
+      source: googleSheetsSource(sheetId),
+      sheetConfig: (event.sheet_config as SheetConfig) ?? {},
+      dryRun: false,
+      onProgress: syncRunProgress(supabase, runId),
+    });
+    await finishSyncRun(supabase, { runId, eventId, startedAt, results });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    console.error(`Webhook sync failed for event ${eventId}:`, message);
+    await finishSyncRun(supabase, { runId, eventId, startedAt, error: message });
+  }
+}
+
+// Called by the spreadsheet, e.g. from an Apps Script onEdit trigger:
+//   POST /functions/v1/sync-webhook?event=<event id>
+//   X-MEF-Timestamp: <unix seconds>
+//   X-MEF-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" with the event's webhook secret>
+//   body (optional): {"source": "Program!B4 edited by ola@example.com"}
+// Answers 202 at once; the sync itself starts when no new call has arrived for DEBOUNCE_MS, or
+// in the next sync-scheduled round if another sync is running at that point.
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  const eventId = new URL(req.url).searchParams.get('event');
+  if (!eventId || !UUID_REGEX.test(eventId)) {
+    return jsonResponse({ success: false, error: 'Invalid event ID format' }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  try {
+    const body = await req.text();
+    const timestamp = req.headers.get('x-mef-timestamp') ?? '';
+    const signature = (req.headers.get('x-mef-signature') ?? '').replace(/^sha256=/, '').toLowerCase();
+
+    const { data: settings, error: settingsError } = await supabase
+      .from('event_private_settings')
+      .select('webhook_secret')
+      .eq('event_id', eventId)
+      .maybeSingle();
+    if (settingsError) throw settingsError;
+
+    // Same answer for unknown events and events without a webhook, so event ids cannot be probed
+    if (!settings?.webhook_secret) {
+      return jsonResponse({ success: false, error: 'Webhook is not enabled for this event' }, 404);
+    }
+
+    const sentAt = Number(timestamp) * 1000;
+    if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > MAX_CLOCK_SKEW_MS) {
+      return jsonResponse({ success: false, error: 'Missing or expired timestamp' }, 401);
+    }
+
+    const expected = await hmacSha256Hex(settings.webhook_secret, `${timestamp}.${body}`);
+    if (!timingSafeEqual(signature, expected)) {
+      console.warn(`Webhook call with invalid signature for event ${eventId}`);
+      return jsonResponse({ success: false, error: 'Invalid signature' }, 401);
+    }
+
+    let detail = 'webhook';
+    if (body.trim()) {
+      try {
+        const payload = JSON.parse(body);
+        if (typeof payload?.source === 'string' && payload.source.trim()) {
+          detail = payload.source.trim().slice(0, MAX_DETAIL_LENGTH);
+        }
+      } catch {
+        return jsonResponse({ success: false, error: 'Body must be JSON' }, 400);
+      }
+    }
+
+    const requestedAt = new Date().toISOString();
+    const { error: updateError } = await supabase
+      .from('event_private_settings')
+      .update({ webhook_requested_at: requestedAt, webhook_request_detail: detail })
+      .eq('event_id', eventId);
+    if (updateError) throw updateError;
+
+    EdgeRuntime.waitUntil(debouncedSync(supabase, eventId, requestedAt, detail));
+
+    return jsonResponse({ success: true, queued: true, debounceSeconds: DEBOUNCE_MS / 1000 }, 202);
+  } catch (error) {
+    console.error('Webhook error:', error);
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -0,0 +1,35 @@
+-- Stable identity for rows synced from Google Sheets.
+-- external_id now comes from the sheet's id column (or a content hash) instead of the row number,
+-- and the sync upserts on (event_id, external_id) so row ids survive a re-sync.
+
+-- Remove duplicate external_ids left behind by overlapping syncs, keeping the newest row
+DELETE FROM public.program_items a
+USING public.program_items b
+WHERE a.event_id = b.event_id
+  AND a.external_id = b.external_id
+  AND (coalesce(a.created_at, '-infinity'), a.id) < (coalesce(b.created_at, '-infinity'), b.id);
+
+DELETE FROM public.participants a
+USING public.participants b
+WHERE a.event_id = b.event_id
+  AND a.external_id = b.external_id
+  AND (coalesce(a.created_at, '-infinity'), a.id) < (coalesce(b.created_at, '-infinity'), b.id);
+
+DELETE FROM public.exhibitors a
+USING public.exhibitors b
+WHERE a.event_id = b.event_id
+  AND a.external_id = b.external_id
+  AND (coalesce(a.created_at, '-infinity'), a.id) < (coalesce(b.created_at, '-infinity'), b.id);
+
+ALTER TABLE public.program_items
+ADD CONSTRAINT program_items_event_id_external_id_key UNIQUE (event_id, external_id);
+
+ALTER TABLE public.participants
+ADD CONSTRAINT participants_event_id_external_id_key UNIQUE (event_id, external_id);
+
+ALTER TABLE public.exhibitors
+ADD CONSTRAINT exhibitors_event_id_external_id_key UNIQUE (event_id, external_id);
+
+COMMENT ON COLUMN public.program_items.external_id IS 'Stable key from the sheet: the id column if present, otherwise a content hash';
+COMMENT ON COLUMN public.participants.external_id IS 'Stable key from the sheet: the id column if present, otherwise a content hash';
+COMMENT ON COLUMN public.exhibitors.external_id IS 'Stable key from the sheet: the id column if present, otherwise a content hash';
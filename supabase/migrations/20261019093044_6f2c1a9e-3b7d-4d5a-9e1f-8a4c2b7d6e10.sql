@@ -0,0 +1,53 @@
+-- Atomic replace of a synced module.
+-- Upserts the given rows on (event_id, external_id) and deletes the event's rows that are not in the
+-- set, all inside the function's transaction. If any statement fails, nothing is changed and the
+-- previously synced data stays visible on the public site.
+CREATE OR REPLACE FUNCTION public.replace_synced_rows(_table text, _event_id uuid, _rows jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _columns text[];
+  _upserted integer := 0;
+  _deleted integer := 0;
+BEGIN
+  IF _table NOT IN ('program_items', 'participants', 'exhibitors') THEN
+    RAISE EXCEPTION 'Unsupported table for sync: %', _table;
+  END IF;
+
+  IF jsonb_typeof(_rows) <> 'array' THEN
+    RAISE EXCEPTION 'Rows must be a JSON array';
+  END IF;
+
+  IF jsonb_array_length(_rows) > 0 THEN
+    -- All rows share the same keys, so the first row decides the column list
+    SELECT array_agg(key ORDER BY key) INTO _columns
+    FROM jsonb_object_keys(_rows -> 0) AS key
+    WHERE key NOT IN ('id', 'event_id', 'created_at');
+
+    EXECUTE format(
+      'INSERT INTO public.%1$I (event_id, %2$s)
+       SELECT $1, %2$s FROM jsonb_populate_recordset(NULL::public.%1$I, $2)
+       ON CONFLICT (event_id, external_id) DO UPDATE SET %3$s',
+      _table,
+      (SELECT string_agg(quote_ident(c), ', ') FROM unnest(_columns) AS c),
+      (SELECT string_agg(format('%1$I = EXCLUDED.%1$I', c), ', ') FROM unnest(_columns) AS c WHERE c <> 'external_id')
+    ) USING _event_id, _rows;
+    GET DIAGNOSTICS _upserted = ROW_COUNT;
+  END IF;
+
+  EXECUTE format(
+    'DELETE FROM public.%I WHERE event_id = $1 AND (external_id IS NULL OR external_id <> ALL ($2))',
+    _table
+  ) USING _event_id, ARRAY(SELECT row_data ->> 'external_id' FROM jsonb_array_elements(_rows) AS row_data);
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+
+  RETURN jsonb_build_object('upserted', _upserted, 'deleted', _deleted);
+END;
+$$;
+
+-- Only the sync edge function (service role) may replace module data
+REVOKE EXECUTE ON FUNCTION public.replace_synced_rows(text, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_synced_rows(text, uuid, jsonb) TO service_role;
@@ -0,0 +1,7 @@
+-- Per-event layout of the Google Sheet: custom tab names and header-to-field mapping.
+-- NULL means the built-in defaults (Program / Deltakere / Utstillere with the standard headers).
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS sheet_config jsonb;
+
+COMMENT ON COLUMN public.events.sheet_config IS
+  'Sheet import layout: {"tabs": {"program": "..."}, "columns": {"program": {"title": "Header"}}}. NULL uses the defaults.';
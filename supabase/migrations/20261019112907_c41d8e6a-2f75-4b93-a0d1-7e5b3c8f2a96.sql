@@ -0,0 +1,54 @@
+-- Automatic sheet sync during the event, and a history of every sync run.
+
+-- How often the sheet is synced automatically while the event is running. NULL turns auto-sync off.
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS auto_sync_interval_minutes integer
+  CHECK (auto_sync_interval_minutes IN (5, 15, 30, 60));
+
+CREATE TABLE IF NOT EXISTS public.sync_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  trigger text NOT NULL CHECK (trigger IN ('manual', 'scheduled')),
+  triggered_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  status text NOT NULL CHECK (status IN ('success', 'partial', 'failed')),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  duration_ms integer,
+  results jsonb,
+  error text
+);
+
+COMMENT ON COLUMN public.sync_runs.results IS
+  'Per module summary: {"program": {"count", "removed", "skipped", "errors", "keptPreviousData"}, ...}';
+
+CREATE INDEX IF NOT EXISTS sync_runs_event_id_started_at_idx
+  ON public.sync_runs (event_id, started_at DESC);
+
+ALTER TABLE public.sync_runs ENABLE ROW LEVEL SECURITY;
+
+-- Runs are written by the edge functions with the service role; admins only read them
+CREATE POLICY "Admins can view sync runs"
+ON public.sync_runs
+FOR SELECT
+USING (public.is_admin());
+
+-- Call the sync-scheduled edge function every five minutes. It decides itself which events are due.
+-- Requires the vault secrets 'project_url' and 'service_role_key' to be set for the project.
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'sync-scheduled-sheets',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sync-scheduled',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 120000
+  );
+  $$
+);
@@ -0,0 +1,15 @@
+-- Google Drive images copied into the event-images bucket by the sheet sync.
+-- One row per Drive file, so a file is only downloaded the first time a sheet references it.
+CREATE TABLE IF NOT EXISTS public.mirrored_images (
+  drive_file_id text PRIMARY KEY,
+  storage_path text NOT NULL,
+  content_hash text NOT NULL,
+  content_type text,
+  mirrored_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.mirrored_images.storage_path IS
+  'Path in the event-images bucket, drive/<sha256>.<ext>; identical images share one object.';
+
+-- Only the sync edge functions (service role) read and write this table
+ALTER TABLE public.mirrored_images ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,66 @@
+-- Info sections and sponsors can now come from optional "Info" and "Leverandører" tabs in the sheet.
+-- They get the same stable external_id as the other synced modules, and info sections remember
+-- whether their content is HTML (written in the editor) or Markdown (from the sheet).
+ALTER TABLE public.info_sections
+ADD COLUMN IF NOT EXISTS external_id text,
+ADD COLUMN IF NOT EXISTS content_format text NOT NULL DEFAULT 'html'
+  CHECK (content_format IN ('html', 'markdown'));
+
+ALTER TABLE public.event_sponsors
+ADD COLUMN IF NOT EXISTS external_id text;
+
+ALTER TABLE public.info_sections
+ADD CONSTRAINT info_sections_event_id_external_id_key UNIQUE (event_id, external_id);
+
+ALTER TABLE public.event_sponsors
+ADD CONSTRAINT event_sponsors_event_id_external_id_key UNIQUE (event_id, external_id);
+
+COMMENT ON COLUMN public.info_sections.external_id IS 'Stable key from the sheet: the id column if present, otherwise a content hash';
+COMMENT ON COLUMN public.event_sponsors.external_id IS 'Stable key from the sheet: the id column if present, otherwise a content hash';
+
+-- Same function as before, with the two new tables allowed
+CREATE OR REPLACE FUNCTION public.replace_synced_rows(_table text, _event_id uuid, _rows jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _columns text[];
+  _upserted integer := 0;
+  _deleted integer := 0;
+BEGIN
+  IF _table NOT IN ('program_items', 'participants', 'exhibitors', 'info_sections', 'event_sponsors') THEN
+    RAISE EXCEPTION 'Unsupported table for sync: %', _table;
+  END IF;
+
+  IF jsonb_typeof(_rows) <> 'array' THEN
+    RAISE EXCEPTION 'Rows must be a JSON array';
+  END IF;
+
+  IF jsonb_array_length(_rows) > 0 THEN
+    -- All rows share the same keys, so the first row decides the column list
+    SELECT array_agg(key ORDER BY key) INTO _columns
+    FROM jsonb_object_keys(_rows -> 0) AS key
+    WHERE key NOT IN ('id', 'event_id', 'created_at', 'updated_at');
+
+    EXECUTE format(
+      'INSERT INTO public.%1$I (event_id, %2$s)
+       SELECT $1, %2$s FROM jsonb_populate_recordset(NULL::public.%1$I, $2)
+       ON CONFLICT (event_id, external_id) DO UPDATE SET %3$s',
+      _table,
+      (SELECT string_agg(quote_ident(c), ', ') FROM unnest(_columns) AS c),
+      (SELECT string_agg(format('%1$I = EXCLUDED.%1$I', c), ', ') FROM unnest(_columns) AS c WHERE c <> 'external_id')
+    ) USING _event_id, _rows;
+    GET DIAGNOSTICS _upserted = ROW_COUNT;
+  END IF;
+
+  EXECUTE format(
+    'DELETE FROM public.%I WHERE event_id = $1 AND (external_id IS NULL OR external_id <> ALL ($2))',
+    _table
+  ) USING _event_id, ARRAY(SELECT row_data ->> 'external_id' FROM jsonb_array_elements(_rows) AS row_data);
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+
+  RETURN jsonb_build_object('upserted', _upserted, 'deleted', _deleted);
+END;
+$$;
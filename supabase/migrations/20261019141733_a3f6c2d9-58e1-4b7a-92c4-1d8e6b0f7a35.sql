@@ -0,0 +1,77 @@
+-- One sheet sync at a time per event.
+-- A sync now starts by inserting its sync_runs row with status 'running' and finishes by updating
+-- that row. The partial unique index allows a single running row per event, so a second sync is
+-- turned away instead of interleaving its writes with the first.
+ALTER TABLE public.sync_runs DROP CONSTRAINT IF EXISTS sync_runs_status_check;
+ALTER TABLE public.sync_runs
+  ADD CONSTRAINT sync_runs_status_check CHECK (status IN ('running', 'success', 'partial', 'failed'));
+
+-- Client-chosen key of the request that started the run; a repeated request is answered from it
+ALTER TABLE public.sync_runs ADD COLUMN IF NOT EXISTS request_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS sync_runs_one_running_per_event_idx
+  ON public.sync_runs (event_id)
+  WHERE status = 'running';
+
+CREATE UNIQUE INDEX IF NOT EXISTS sync_runs_event_id_request_id_idx
+  ON public.sync_runs (event_id, request_id)
+  WHERE request_id IS NOT NULL;
+
+-- Takes the event's sync lock by creating a running sync_runs row.
+-- Returns {"acquired": true, "run_id", "started_at"} on success. Otherwise returns
+-- {"acquired": false, "duplicate", "run_id", "status", "started_at", "trigger", "triggered_by"}
+-- describing the run that holds the lock, or the earlier run with the same request id.
+-- A running row older than _stale_after_seconds belongs to a function that died and is expired.
+CREATE OR REPLACE FUNCTION public.start_sync_run(
+  _event_id uuid,
+  _trigger text,
+  _triggered_by uuid DEFAULT NULL,
+  _request_id text DEFAULT NULL,
+  _stale_after_seconds integer DEFAULT 600
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _run public.sync_runs;
+BEGIN
+  UPDATE public.sync_runs
+  SET status = 'failed',
+      finished_at = now(),
+      duration_ms = (extract(epoch FROM now() - started_at) * 1000)::integer,
+      error = 'Sync did not finish and was expired'
+  WHERE event_id = _event_id
+    AND status = 'running'
+    AND started_at < now() - make_interval(secs => _stale_after_seconds);
+
+  IF _request_id IS NOT NULL THEN
+    SELECT * INTO _run FROM public.sync_runs WHERE event_id = _event_id AND request_id = _request_id;
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'acquired', false, 'duplicate', true, 'run_id', _run.id, 'status', _run.status,
+        'started_at', _run.started_at, 'trigger', _run.trigger, 'triggered_by', _run.triggered_by
+      );
+    END IF;
+  END IF;
+
+  INSERT INTO public.sync_runs (event_id, trigger, triggered_by, request_id, status)
+  VALUES (_event_id, _trigger, _triggered_by, _request_id, 'running')
+  ON CONFLICT (event_id) WHERE status = 'running' DO NOTHING
+  RETURNING * INTO _run;
+
+  IF _run.id IS NOT NULL THEN
+    RETURN jsonb_build_object('acquired', true, 'run_id', _run.id, 'started_at', _run.started_at);
+  END IF;
+
+  SELECT * INTO _run FROM public.sync_runs WHERE event_id = _event_id AND status = 'running';
+  RETURN jsonb_build_object(
+    'acquired', false, 'duplicate', false, 'run_id', _run.id, 'status', _run.status,
+    'started_at', _run.started_at, 'trigger', _run.trigger, 'triggered_by', _run.triggered_by
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_sync_run(uuid, text, uuid, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.start_sync_run(uuid, text, uuid, text, integer) TO service_role;
@@ -0,0 +1,129 @@
+-- Webhook that lets a spreadsheet (e.g. an Apps Script onEdit trigger) ask for a sync.
+
+-- Per event settings that must never be readable by the public site. Admins of the event can read
+-- and change them; the edge functions use the service role.
+CREATE TABLE IF NOT EXISTS public.event_private_settings (
+  event_id uuid PRIMARY KEY REFERENCES public.events(id) ON DELETE CASCADE,
+  -- HMAC-SHA256 key for the sync webhook; NULL turns the webhook off
+  webhook_secret text,
+  webhook_secret_rotated_at timestamptz,
+  -- Time of the latest accepted webhook call, used to merge bursts of calls into one sync
+  webhook_requested_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.event_private_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Event admins can view private settings"
+ON public.event_private_settings
+FOR SELECT
+USING (
+  public.is_super_admin() OR (
+    public.has_role(auth.uid(), 'regional_admin') AND
+    EXISTS (
+      SELECT 1 FROM public.events
+      WHERE events.id = event_private_settings.event_id
+      AND events.created_by = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Event admins can insert private settings"
+ON public.event_private_settings
+FOR INSERT
+WITH CHECK (
+  public.is_super_admin() OR (
+    public.has_role(auth.uid(), 'regional_admin') AND
+    EXISTS (
+      SELECT 1 FROM public.events
+      WHERE events.id = event_private_settings.event_id
+      AND events.created_by = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Event admins can update private settings"
+ON public.event_private_settings
+FOR UPDATE
+USING (
+  public.is_super_admin() OR (
+    public.has_role(auth.uid(), 'regional_admin') AND
+    EXISTS (
+      SELECT 1 FROM public.events
+      WHERE events.id = event_private_settings.event_id
+      AND events.created_by = auth.uid()
+    )
+  )
+);
+
+CREATE TRIGGER update_event_private_settings_updated_at
+BEFORE UPDATE ON public.event_private_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Webhook runs are a third kind of trigger. trigger_detail says what asked for the run, e.g. the
+-- "source" sent by the Apps Script.
+ALTER TABLE public.sync_runs DROP CONSTRAINT IF EXISTS sync_runs_trigger_check;
+ALTER TABLE public.sync_runs
+  ADD CONSTRAINT sync_runs_trigger_check CHECK (trigger IN ('manual', 'scheduled', 'webhook'));
+
+ALTER TABLE public.sync_runs ADD COLUMN IF NOT EXISTS trigger_detail text;
+
+-- start_sync_run gains _trigger_detail; the old signature is dropped so there is a single function
+DROP FUNCTION IF EXISTS public.start_sync_run(uuid, text, uuid, text, integer);
+
+CREATE OR REPLACE FUNCTION public.start_sync_run(
+  _event_id uuid,
+  _trigger text,
+  _triggered_by uuid DEFAULT NULL,
+  _request_id text DEFAULT NULL,
+  _stale_after_seconds integer DEFAULT 600,
+  _trigger_detail text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _run public.sync_runs;
+BEGIN
+  UPDATE public.sync_runs
+  SET status = 'failed',
+      finished_at = now(),
+      duration_ms = (extract(epoch FROM now() - started_at) * 1000)::integer,
+      error = 'Sync did not finish and was expired'
+  WHERE event_id = _event_id
+    AND status = 'running'
+    AND started_at < now() - make_interval(secs => _stale_after_seconds);
+
+  IF _request_id IS NOT NULL THEN
+    SELECT * INTO _run FROM public.sync_runs WHERE event_id = _event_id AND request_id = _request_id;
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'acquired', false, 'duplicate', true, 'run_id', _run.id, 'status', _run.status,
+        'started_at', _run.started_at, 'trigger', _run.trigger, 'triggered_by', _run.triggered_by
+      );
+    END IF;
+  END IF;
+
+  INSERT INTO public.sync_runs (event_id, trigger, triggered_by, trigger_detail, request_id, status)
+  VALUES (_event_id, _trigger, _triggered_by, _trigger_detail, _request_id, 'running')
+  ON CONFLICT (event_id) WHERE status = 'running' DO NOTHING
+  RETURNING * INTO _run;
+
+  IF _run.id IS NOT NULL THEN
+    RETURN jsonb_build_object('acquired', true, 'run_id', _run.id, 'started_at', _run.started_at);
+  END IF;
+
+  SELECT * INTO _run FROM public.sync_runs WHERE event_id = _event_id AND status = 'running';
+  RETURN jsonb_build_object(
+    'acquired', false, 'duplicate', false, 'run_id', _run.id, 'status', _run.status,
+    'started_at', _run.started_at, 'trigger', _run.trigger, 'triggered_by', _run.triggered_by
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_sync_run(uuid, text, uuid, text, integer, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.start_sync_run(uuid, text, uuid, text, integer, text) TO service_role;
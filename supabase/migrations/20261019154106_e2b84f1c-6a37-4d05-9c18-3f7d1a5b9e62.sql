@@ -0,0 +1,44 @@
+-- Large sheets are written in chunks. The sync stages each chunk here and then swaps the whole
+-- module in with a single replace_staged_rows call, so the replacement is still one transaction.
+CREATE TABLE IF NOT EXISTS public.sync_staged_rows (
+  batch_id uuid NOT NULL,
+  chunk integer NOT NULL,
+  rows jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (batch_id, chunk)
+);
+
+-- Only the sync edge functions (service role) read and write this table
+ALTER TABLE public.sync_staged_rows ENABLE ROW LEVEL SECURITY;
+
+-- Progress of a running sync for the editor: {"module", "phase", "done", "total"}
+ALTER TABLE public.sync_runs ADD COLUMN IF NOT EXISTS progress jsonb;
+
+-- Replaces a module's rows with everything staged under _batch_id, in chunk order
+CREATE OR REPLACE FUNCTION public.replace_staged_rows(_table text, _event_id uuid, _batch_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rows jsonb;
+  _result jsonb;
+BEGIN
+  SELECT coalesce(jsonb_agg(staged.row_data ORDER BY s.chunk, staged.ord), '[]'::jsonb) INTO _rows
+  FROM public.sync_staged_rows s
+  CROSS JOIN LATERAL jsonb_array_elements(s.rows) WITH ORDINALITY AS staged(row_data, ord)
+  WHERE s.batch_id = _batch_id;
+
+  _result := public.replace_synced_rows(_table, _event_id, _rows);
+
+  DELETE FROM public.sync_staged_rows WHERE batch_id = _batch_id;
+  -- Leftovers of syncs that died between staging and swapping in
+  DELETE FROM public.sync_staged_rows WHERE created_at < now() - interval '1 day';
+
+  RETURN _result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_staged_rows(text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_staged_rows(text, uuid, uuid) TO service_role;
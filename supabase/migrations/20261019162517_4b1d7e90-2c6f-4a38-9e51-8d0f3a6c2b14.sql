@@ -0,0 +1,10 @@
+-- Exhibitor profiles: logo, description, website, product categories and a contact person.
+-- categories is comma separated, like program_items.category.
+ALTER TABLE public.exhibitors
+  ADD COLUMN IF NOT EXISTS logo_url text,
+  ADD COLUMN IF NOT EXISTS description text,
+  ADD COLUMN IF NOT EXISTS website_url text,
+  ADD COLUMN IF NOT EXISTS categories text,
+  ADD COLUMN IF NOT EXISTS contact_name text,
+  ADD COLUMN IF NOT EXISTS contact_email text,
+  ADD COLUMN IF NOT EXISTS contact_phone text;
@@ -0,0 +1,131 @@
+-- Participant privacy: per-row consent from the sheet, who may see the directory, and requests
+-- from participants who want to be taken off the list.
+
+-- From the sheet's "synlig" column. Hidden participants still count towards the totals.
+ALTER TABLE public.participants ADD COLUMN IF NOT EXISTS visible boolean NOT NULL DEFAULT true;
+
+-- public: anyone with the event link, access_code: only with the code, hidden: counts only
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS participant_directory text NOT NULL DEFAULT 'public'
+  CHECK (participant_directory IN ('public', 'access_code', 'hidden'));
+
+ALTER TABLE public.event_private_settings ADD COLUMN IF NOT EXISTS participant_access_code text;
+
+-- The public site reads participants directly only for open directories; the other modes go
+-- through the functions below
+DROP POLICY IF EXISTS "Anyone can view participants for published events" ON public.participants;
+
+CREATE POLICY "Anyone can view visible participants of open directories"
+ON public.participants
+FOR SELECT
+USING (
+  visible AND EXISTS (
+    SELECT 1 FROM public.events
+    WHERE events.id = participants.event_id
+    AND events.published = true
+    AND events.participant_directory = 'public'
+  )
+);
+
+-- Visible participants of a published event whose directory is behind an access code. Returns
+-- nothing when the code is wrong.
+CREATE OR REPLACE FUNCTION public.get_participant_directory(_event_id uuid, _access_code text)
+RETURNS TABLE (id uuid, name text, company text, category text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.name, p.company, p.category
+  FROM public.participants p
+  JOIN public.events e ON e.id = p.event_id
+  JOIN public.event_private_settings s ON s.event_id = e.id
+  WHERE p.event_id = _event_id
+    AND p.visible
+    AND e.published
+    AND e.participant_directory = 'access_code'
+    AND s.participant_access_code IS NOT NULL
+    AND lower(trim(s.participant_access_code)) = lower(trim(_access_code))
+  ORDER BY p.name;
+$$;
+
+-- Number of participants per category for a published event, whatever the directory setting.
+-- Counts do not identify anyone, so they are shown where the list itself is not.
+CREATE OR REPLACE FUNCTION public.get_participant_counts(_event_id uuid)
+RETURNS TABLE (category text, participants bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.category, count(*)
+  FROM public.participants p
+  JOIN public.events e ON e.id = p.event_id
+  WHERE p.event_id = _event_id AND e.published
+  GROUP BY p.category
+  ORDER BY p.category NULLS LAST;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_participant_directory(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_participant_counts(uuid) TO anon, authenticated;
+
+-- "Remove me" requests sent from the public participant page. Organisers mark them done after
+-- hiding the participant; external_id then keeps that participant hidden through later syncs.
+CREATE TABLE IF NOT EXISTS public.participant_removal_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 200),
+  email text NOT NULL CHECK (length(email) <= 320 AND email LIKE '%_@_%'),
+  message text CHECK (length(message) <= 2000),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done', 'rejected')),
+  -- The participant that was hidden, by its sync key
+  external_id text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  handled_at timestamptz,
+  handled_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS participant_removal_requests_event_idx
+  ON public.participant_removal_requests (event_id, status);
+
+ALTER TABLE public.participant_removal_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can request removal from published events"
+ON public.participant_removal_requests
+FOR INSERT
+WITH CHECK (
+  status = 'pending' AND external_id IS NULL AND handled_at IS NULL AND handled_by IS NULL AND
+  EXISTS (
+    SELECT 1 FROM public.events
+    WHERE events.id = participant_removal_requests.event_id
+    AND events.published = true
+  )
+);
+
+CREATE POLICY "Event admins can view removal requests"
+ON public.participant_removal_requests
+FOR SELECT
+USING (
+  public.is_super_admin() OR (
+    public.has_role(auth.uid(), 'regional_admin') AND
+    EXISTS (
+      SELECT 1 FROM public.events
+      WHERE events.id = participant_removal_requests.event_id
+      AND events.created_by = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Event admins can update removal requests"
+ON public.participant_removal_requests
+FOR UPDATE
+USING (
+  public.is_super_admin() OR (
+    public.has_role(auth.uid(), 'regional_admin') AND
+    EXISTS (
+      SELECT 1 FROM public.events
+      WHERE events.id = participant_removal_requests.event_id
+      AND events.created_by = auth.uid()
+    )
+  )
+);
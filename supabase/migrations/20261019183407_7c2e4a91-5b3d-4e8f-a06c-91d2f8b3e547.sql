@@ -0,0 +1,179 @@
+-- Closed events behind an access code, and unlisted events.
+--
+-- The code is checked by the event-access edge function, which hands out an access token. The
+-- public site sends the token in the x-event-access header, and RLS only lets rows of a protected
+-- event through when the header carries a valid token for that event.
+
+-- access_protected: the public site needs a valid token. unlisted: the event is kept out of
+-- listings and search engines, but anyone with the link can open it.
+ALTER TABLE public.events ADD COLUMN IF NOT EXISTS access_protected boolean NOT NULL DEFAULT false;
+ALTER TABLE public.events ADD COLUMN IF NOT EXISTS unlisted boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.event_private_settings ADD COLUMN IF NOT EXISTS event_access_code text;
+
+-- Issued by the event-access edge function only; nobody reads this table through the API
+CREATE TABLE IF NOT EXISTS public.event_access_tokens (
+  token text PRIMARY KEY,
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_access_tokens_event_id ON public.event_access_tokens(event_id);
+
+ALTER TABLE public.event_access_tokens ENABLE ROW LEVEL SECURITY;
+
+-- A new or removed code locks out everyone who opened the event with the old one
+CREATE OR REPLACE FUNCTION public.revoke_event_access_tokens()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.event_access_code IS DISTINCT FROM OLD.event_access_code THEN
+    DELETE FROM public.event_access_tokens WHERE event_id = NEW.event_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER revoke_event_access_tokens_on_code_change
+AFTER UPDATE OF event_access_code ON public.event_private_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.revoke_event_access_tokens();
+
+-- Whether the public may read an event: it is published, and either open or the request carries
+-- a valid access token for it
+CREATE OR REPLACE FUNCTION public.can_view_event(_event_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = _event_id
+      AND e.published
+      AND (
+        NOT e.access_protected OR EXISTS (
+          SELECT 1 FROM public.event_access_tokens t
+          WHERE t.event_id = e.id
+            AND t.token = NULLIF(current_setting('request.headers', true)::json ->> 'x-event-access', '')
+            AND t.expires_at > now()
+        )
+      )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_view_event(uuid) TO anon, authenticated;
+
+-- What the public site needs to know before it can show a published event: whether to ask for
+-- the code, and whether the token it has (if any) is still good
+CREATE OR REPLACE FUNCTION public.get_event_access(_slug text)
+RETURNS TABLE (event_id uuid, name text, access_protected boolean, unlisted boolean, granted boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.id, e.name, e.access_protected, e.unlisted, public.can_view_event(e.id)
+  FROM public.events e
+  WHERE e.slug = _slug AND e.published;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_access(text) TO anon, authenticated;
+
+-- The public read policies now go through can_view_event
+DROP POLICY IF EXISTS "Anyone can view published events" ON public.events;
+CREATE POLICY "Anyone can view published events"
+ON public.events
+FOR SELECT
+USING (published = true AND public.can_view_event(id));
+
+DROP POLICY IF EXISTS "Anyone can view program items for published events" ON public.program_items;
+CREATE POLICY "Anyone can view program items for published events"
+ON public.program_items
+FOR SELECT
+USING (public.can_view_event(event_id));
+
+DROP POLICY IF EXISTS "Anyone can view visible participants of open directories" ON public.participants;
+CREATE POLICY "Anyone can view visible participants of open directories"
+ON public.participants
+FOR SELECT
+USING (
+  visible AND public.can_view_event(event_id) AND EXISTS (
+    SELECT 1 FROM public.events
+    WHERE events.id = participants.event_id
+    AND events.participant_directory = 'public'
+  )
+);
+
+DROP POLICY IF EXISTS "Anyone can view exhibitors for published events" ON public.exhibitors;
+CREATE POLICY "Anyone can view exhibitors for published events"
+ON public.exhibitors
+FOR SELECT
+USING (public.can_view_event(event_id));
+
+DROP POLICY IF EXISTS "Anyone can view info sections for published events" ON public.info_sections;
+CREATE POLICY "Anyone can view info sections for published events"
+ON public.info_sections
+FOR SELECT
+USING (public.can_view_event(event_id));
+
+DROP POLICY IF EXISTS "Anyone can view maps for published events" ON public.maps;
+CREATE POLICY "Anyone can view maps for published events"
+ON public.maps
+FOR SELECT
+USING (public.can_view_event(event_id));
+
+DROP POLICY IF EXISTS "Anyone can view sponsors for published events" ON public.event_sponsors;
+CREATE POLICY "Anyone can view sponsors for published events"
+ON public.event_sponsors
+FOR SELECT
+USING (public.can_view_event(event_id));
+
+DROP POLICY IF EXISTS "Anyone can request removal from published events" ON public.participant_removal_requests;
+CREATE POLICY "Anyone can request removal from published events"
+ON public.participant_removal_requests
+FOR INSERT
+WITH CHECK (
+  status = 'pending' AND external_id IS NULL AND handled_at IS NULL AND handled_by IS NULL AND
+  public.can_view_event(event_id)
+);
+
+-- The participant functions from the privacy settings follow the same rule
+CREATE OR REPLACE FUNCTION public.get_participant_directory(_event_id uuid, _access_code text)
+RETURNS TABLE (id uuid, name text, company text, category text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.name, p.company, p.category
+  FROM public.participants p
+  JOIN public.events e ON e.id = p.event_id
+  JOIN public.event_private_settings s ON s.event_id = e.id
+  WHERE p.event_id = _event_id
+    AND p.visible
+    AND public.can_view_event(e.id)
+    AND e.participant_directory = 'access_code'
+    AND s.participant_access_code IS NOT NULL
+    AND lower(trim(s.participant_access_code)) = lower(trim(_access_code))
+  ORDER BY p.name;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_participant_counts(_event_id uuid)
+RETURNS TABLE (category text, participants bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.category, count(*)
+  FROM public.participants p
+  WHERE p.event_id = _event_id AND public.can_view_event(_event_id)
+  GROUP BY p.category
+  ORDER BY p.category NULLS LAST;
+$$;
@@ -0,0 +1,66 @@
+-- Scheduled publishing. A published event is shown from publish_at and until unpublish_at; either
+-- may be left empty. Info sections get the same window within their event.
+
+ALTER TABLE public.events ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+ALTER TABLE public.events ADD COLUMN IF NOT EXISTS unpublish_at timestamptz;
+
+ALTER TABLE public.info_sections ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+ALTER TABLE public.info_sections ADD COLUMN IF NOT EXISTS unpublish_at timestamptz;
+
+-- Whether a publishing window is open right now
+CREATE OR REPLACE FUNCTION public.within_publish_window(_publish_at timestamptz, _unpublish_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT (_publish_at IS NULL OR _publish_at <= now()) AND (_unpublish_at IS NULL OR _unpublish_at > now());
+$$;
+
+-- can_view_event and get_event_access only see events whose window is open. Every public read
+-- policy goes through can_view_event, so they all follow.
+CREATE OR REPLACE FUNCTION public.can_view_event(_event_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = _event_id
+      AND e.published
+      AND public.within_publish_window(e.publish_at, e.unpublish_at)
+      AND (
+        NOT e.access_protected OR EXISTS (
+          SELECT 1 FROM public.event_access_tokens t
+          WHERE t.event_id = e.id
+            AND t.token = NULLIF(current_setting('request.headers', true)::json ->> 'x-event-access', '')
+            AND t.expires_at > now()
+        )
+      )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_event_access(_slug text)
+RETURNS TABLE (event_id uuid, name text, access_protected boolean, unlisted boolean, granted boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.id, e.name, e.access_protected, e.unlisted, public.can_view_event(e.id)
+  FROM public.events e
+  WHERE e.slug = _slug AND e.published AND public.within_publish_window(e.publish_at, e.unpublish_at);
+$$;
+
+DROP POLICY IF EXISTS "Anyone can view info sections for published events" ON public.info_sections;
+CREATE POLICY "Anyone can view info sections for published events"
+ON public.info_sections
+FOR SELECT
+USING (public.can_view_event(event_id) AND public.within_publish_window(publish_at, unpublish_at));
+
+ALTER TABLE public.events
+  ADD CONSTRAINT events_publish_window_check CHECK (unpublish_at IS NULL OR publish_at IS NULL OR unpublish_at > publish_at);
+ALTER TABLE public.info_sections
+  ADD CONSTRAINT info_sections_publish_window_check CHECK (unpublish_at IS NULL OR publish_at IS NULL OR unpublish_at > publish_at);
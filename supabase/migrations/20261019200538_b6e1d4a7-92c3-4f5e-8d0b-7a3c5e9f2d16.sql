@@ -0,0 +1,158 @@
+-- Preview links. An event admin can create a short-lived link that shows the public pages of an
+-- event before it is published, e.g. for sponsors to approve. The site sends the token from the
+-- link in the x-event-preview header; can_view_event accepts it whatever the event's publishing
+-- state, schedule or access code.
+
+CREATE TABLE IF NOT EXISTS public.event_preview_tokens (
+  token text PRIMARY KEY,
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_preview_tokens_event_id ON public.event_preview_tokens(event_id);
+
+ALTER TABLE public.event_preview_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are created through create_event_preview_token; admins may list and revoke them
+CREATE POLICY "Event admins can view preview links"
+ON public.event_preview_tokens
+FOR SELECT
+USING (
+  public.is_super_admin() OR (
+    public.has_role(auth.uid(), 'regional_admin') AND
+    EXISTS (
+      SELECT 1 FROM public.events
+      WHERE events.id = event_preview_tokens.event_id
+      AND events.created_by = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Event admins can revoke preview links"
+ON public.event_preview_tokens
+FOR DELETE
+USING (
+  public.is_super_admin() OR (
+    public.has_role(auth.uid(), 'regional_admin') AND
+    EXISTS (
+      SELECT 1 FROM public.events
+      WHERE events.id = event_preview_tokens.event_id
+      AND events.created_by = auth.uid()
+    )
+  )
+);
+
+-- Creates a preview token for an event the caller administers. Valid for 1 hour up to 7 days.
+CREATE OR REPLACE FUNCTION public.create_event_preview_token(_event_id uuid, _valid_hours integer DEFAULT 24)
+RETURNS jsonb
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token text := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+  _expires_at timestamptz := now() + make_interval(hours => least(greatest(_valid_hours, 1), 168));
+BEGIN
+  IF NOT (
+    public.is_super_admin() OR (
+      public.has_role(auth.uid(), 'regional_admin') AND
+      EXISTS (SELECT 1 FROM public.events WHERE id = _event_id AND created_by = auth.uid())
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to preview this event' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.event_preview_tokens WHERE event_id = _event_id AND expires_at <= now();
+
+  INSERT INTO public.event_preview_tokens (token, event_id, created_by, expires_at)
+  VALUES (_token, _event_id, auth.uid(), _expires_at);
+
+  RETURN jsonb_build_object('token', _token, 'expires_at', _expires_at);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_event_preview_token(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_event_preview_token(uuid, integer) TO authenticated;
+
+-- Whether the request carries a valid preview token for the event
+CREATE OR REPLACE FUNCTION public.has_event_preview(_event_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.event_preview_tokens t
+    WHERE t.event_id = _event_id
+      AND t.token = NULLIF(current_setting('request.headers', true)::json ->> 'x-event-preview', '')
+      AND t.expires_at > now()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_event_preview(uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.can_view_event(_event_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_event_preview(_event_id) OR EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = _event_id
+      AND e.published
+      AND public.within_publish_window(e.publish_at, e.unpublish_at)
+      AND (
+        NOT e.access_protected OR EXISTS (
+          SELECT 1 FROM public.event_access_tokens t
+          WHERE t.event_id = e.id
+            AND t.token = NULLIF(current_setting('request.headers', true)::json ->> 'x-event-access', '')
+            AND t.expires_at > now()
+        )
+      )
+  );
+$$;
+
+-- get_event_access also answers for previews, and says when the page is one
+DROP FUNCTION IF EXISTS public.get_event_access(text);
+
+CREATE FUNCTION public.get_event_access(_slug text)
+RETURNS TABLE (event_id uuid, name text, access_protected boolean, unlisted boolean, granted boolean, preview boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.id, e.name, e.access_protected, e.unlisted, public.can_view_event(e.id), public.has_event_preview(e.id)
+  FROM public.events e
+  WHERE e.slug = _slug
+    AND (
+      (e.published AND public.within_publish_window(e.publish_at, e.unpublish_at))
+      OR public.has_event_preview(e.id)
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_access(text) TO anon, authenticated;
+
+-- The public pages no longer filter on published themselves, so the policy alone decides
+DROP POLICY IF EXISTS "Anyone can view published events" ON public.events;
+CREATE POLICY "Anyone can view published events"
+ON public.events
+FOR SELECT
+USING (public.can_view_event(id));
+
+-- A preview shows every info card, also those scheduled for later
+DROP POLICY IF EXISTS "Anyone can view info sections for published events" ON public.info_sections;
+CREATE POLICY "Anyone can view info sections for published events"
+ON public.info_sections
+FOR SELECT
+USING (
+  public.can_view_event(event_id) AND (
+    public.within_publish_window(publish_at, unpublish_at) OR public.has_event_preview(event_id)
+  )
+);
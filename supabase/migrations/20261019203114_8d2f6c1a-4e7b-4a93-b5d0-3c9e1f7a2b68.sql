@@ -0,0 +1,71 @@
+-- The participant access code is no longer checked by an RPC anyone can call in a loop. The
+-- participant-access edge function checks it (slowly, in constant time) and hands out a token;
+-- the public site sends the token in the x-participant-access header, and RLS lets the
+-- directory through for a valid token, the same way closed events work.
+
+DROP FUNCTION IF EXISTS public.get_participant_directory(uuid, text);
+
+-- Issued by the participant-access edge function only; nobody reads this table through the API
+CREATE TABLE IF NOT EXISTS public.participant_access_tokens (
+  token text PRIMARY KEY,
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_participant_access_tokens_event_id ON public.participant_access_tokens(event_id);
+
+ALTER TABLE public.participant_access_tokens ENABLE ROW LEVEL SECURITY;
+
+-- A new or removed code locks out everyone who opened the directory with the old one
+CREATE OR REPLACE FUNCTION public.revoke_participant_access_tokens()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.participant_access_code IS DISTINCT FROM OLD.participant_access_code THEN
+    DELETE FROM public.participant_access_tokens WHERE event_id = NEW.event_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER revoke_participant_access_tokens_on_code_change
+AFTER UPDATE OF participant_access_code ON public.event_private_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.revoke_participant_access_tokens();
+
+-- Whether the request carries a valid participant directory token for the event
+CREATE OR REPLACE FUNCTION public.has_participant_access(_event_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.participant_access_tokens t
+    WHERE t.event_id = _event_id
+      AND t.token = NULLIF(current_setting('request.headers', true)::json ->> 'x-participant-access', '')
+      AND t.expires_at > now()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_participant_access(uuid) TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Anyone can view visible participants of open directories" ON public.participants;
+CREATE POLICY "Anyone can view visible participants of open directories"
+ON public.participants
+FOR SELECT
+USING (
+  visible AND public.can_view_event(event_id) AND EXISTS (
+    SELECT 1 FROM public.events
+    WHERE events.id = participants.event_id
+    AND (
+      events.participant_directory = 'public' OR
+      (events.participant_directory = 'access_code' AND public.has_participant_access(events.id))
+    )
+  )
+);
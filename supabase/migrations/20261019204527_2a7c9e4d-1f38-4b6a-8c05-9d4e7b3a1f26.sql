@@ -0,0 +1,15 @@
+-- Participant counts leave out hidden participants, those without consent in the sheet and those
+-- removed on request; otherwise the totals on the public page give away that they are there.
+CREATE OR REPLACE FUNCTION public.get_participant_counts(_event_id uuid)
+RETURNS TABLE (category text, participants bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.category, count(*)
+  FROM public.participants p
+  WHERE p.event_id = _event_id AND p.visible AND public.can_view_event(_event_id)
+  GROUP BY p.category
+  ORDER BY p.category NULLS LAST;
+$$;
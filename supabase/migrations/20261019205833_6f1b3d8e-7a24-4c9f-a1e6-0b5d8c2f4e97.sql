@@ -0,0 +1,17 @@
+-- Wrong access codes, recorded by the event-access and participant-access edge functions. The
+-- functions stop checking codes for a while once a visitor, or everyone together, has guessed
+-- wrong too often for an event; the delay on each wrong answer alone does not stop parallel
+-- requests. Keyed on the slug, so guesses at unknown slugs are counted too.
+CREATE TABLE IF NOT EXISTS public.access_code_failures (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  slug text NOT NULL,
+  -- 'event' or 'participants'
+  scope text NOT NULL CHECK (scope IN ('event', 'participants')),
+  client_ip text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_access_code_failures_slug ON public.access_code_failures (slug, scope, created_at);
+
+-- Written and read by the edge functions with the service role only
+ALTER TABLE public.access_code_failures ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,29 @@
+-- Unlisted events are only readable by someone who already knows the slug. The public site sends
+-- the slug of the page in the x-event-slug header with every query; without it an unlisted event,
+-- and everything in it, stays out of e.g. a plain "select * from events" over the API.
+CREATE OR REPLACE FUNCTION public.can_view_event(_event_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_event_preview(_event_id) OR EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = _event_id
+      AND e.published
+      AND public.within_publish_window(e.publish_at, e.unpublish_at)
+      AND (
+        NOT e.unlisted OR
+        e.slug = NULLIF(current_setting('request.headers', true)::json ->> 'x-event-slug', '')
+      )
+      AND (
+        NOT e.access_protected OR EXISTS (
+          SELECT 1 FROM public.event_access_tokens t
+          WHERE t.event_id = e.id
+            AND t.token = NULLIF(current_setting('request.headers', true)::json ->> 'x-event-access', '')
+            AND t.expires_at > now()
+        )
+      )
+  );
+$$;
@@ -0,0 +1,7 @@
+-- Wrong codes no longer lock anyone out of an event. Each visitor, by the address the platform's
+-- proxy saw, waits longer and longer between tries after a few wrong ones, and guessing from many
+-- addresses at once only slows every answer down. See supabase/functions/_shared/accessCode.ts.
+COMMENT ON TABLE public.access_code_failures IS 'Wrong access codes per slug and visitor address, for the backoff in the event-access and participant-access functions';
+
+-- The per-visitor lookup reads the latest failure of one address
+CREATE INDEX IF NOT EXISTS idx_access_code_failures_client ON public.access_code_failures (slug, scope, client_ip, created_at DESC);
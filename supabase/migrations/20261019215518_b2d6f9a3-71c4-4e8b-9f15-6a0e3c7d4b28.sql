@@ -0,0 +1,91 @@
+-- The program feed of a closed event used to carry the device's own access token in its address,
+-- which ends up in calendar services and gets shared. Feeds now get a token of their own that
+-- only opens the feed, and that goes away with the access code it was issued under.
+
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  token text PRIMARY KEY,
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_tokens_event_id ON public.calendar_feed_tokens(event_id);
+
+-- Only reached through the functions below
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- A new or removed access code also stops every feed handed out under the old one
+CREATE OR REPLACE FUNCTION public.revoke_calendar_feed_tokens()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.event_access_code IS DISTINCT FROM OLD.event_access_code THEN
+    DELETE FROM public.calendar_feed_tokens WHERE event_id = NEW.event_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER revoke_calendar_feed_tokens_on_code_change
+AFTER UPDATE OF event_access_code ON public.event_private_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.revoke_calendar_feed_tokens();
+
+-- Hands a visitor who is let into a closed event a token for its program feed. Open events need
+-- none and get NULL.
+CREATE OR REPLACE FUNCTION public.create_calendar_feed_token(_event_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token text := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF NOT public.can_view_event(_event_id) THEN
+    RAISE EXCEPTION 'Not allowed to view this event' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.events WHERE id = _event_id AND access_protected) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.calendar_feed_tokens (token, event_id) VALUES (_token, _event_id);
+  RETURN _token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_calendar_feed_token(uuid) TO anon, authenticated;
+
+-- The program of a closed event for the program-calendar function, given a feed token for it.
+-- NULL when the token is unknown or the event is not published right now.
+CREATE OR REPLACE FUNCTION public.get_calendar_feed(_slug text, _token text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', e.id,
+    'name', e.name,
+    'items', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id, 'day', p.day, 'start_time', p.start_time, 'end_time', p.end_time,
+        'title', p.title, 'description', p.description, 'location', p.location, 'category', p.category
+      ) ORDER BY p.day, p.start_time)
+      FROM public.program_items p
+      WHERE p.event_id = e.id
+    ), '[]'::jsonb)
+  )
+  FROM public.events e
+  JOIN public.calendar_feed_tokens t ON t.event_id = e.id AND t.token = _token
+  WHERE e.slug = _slug
+    AND e.published
+    AND public.within_publish_window(e.publish_at, e.unpublish_at);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_calendar_feed(text, text) TO anon, authenticated;
@@ -0,0 +1,21 @@
+-- A webhook call that sync-webhook hands over to sync-scheduled keeps what sent it, so the run
+-- history shows the same trigger detail whichever function ends up running the sync.
+ALTER TABLE public.event_private_settings ADD COLUMN IF NOT EXISTS webhook_request_detail text;
+
+-- Start of the latest sync run of each given event, for sync-scheduled to work out in one query
+-- which events are due
+CREATE OR REPLACE FUNCTION public.latest_sync_run_starts(_event_ids uuid[])
+RETURNS TABLE (event_id uuid, started_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (r.event_id) r.event_id, r.started_at
+  FROM public.sync_runs r
+  WHERE r.event_id = ANY (_event_ids)
+  ORDER BY r.event_id, r.started_at DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.latest_sync_run_starts(uuid[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.latest_sync_run_starts(uuid[]) TO service_role;
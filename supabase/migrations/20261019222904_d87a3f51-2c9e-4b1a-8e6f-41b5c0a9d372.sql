@@ -0,0 +1,69 @@
+-- Two calls with the same request_id can both get past the duplicate check before either has
+-- inserted its run. The second insert then fails on sync_runs_event_id_request_id_idx; it now
+-- returns the run the first call started as a duplicate instead of failing.
+CREATE OR REPLACE FUNCTION public.start_sync_run(
+  _event_id uuid,
+  _trigger text,
+  _triggered_by uuid DEFAULT NULL,
+  _request_id text DEFAULT NULL,
+  _stale_after_seconds integer DEFAULT 600,
+  _trigger_detail text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _run public.sync_runs;
+BEGIN
+  UPDATE public.sync_runs
+  SET status = 'failed',
+      finished_at = now(),
+      duration_ms = (extract(epoch FROM now() - started_at) * 1000)::integer,
+      error = 'Sync did not finish and was expired'
+  WHERE event_id = _event_id
+    AND status = 'running'
+    AND started_at < now() - make_interval(secs => _stale_after_seconds);
+
+  IF _request_id IS NOT NULL THEN
+    SELECT * INTO _run FROM public.sync_runs WHERE event_id = _event_id AND request_id = _request_id;
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'acquired', false, 'duplicate', true, 'run_id', _run.id, 'status', _run.status,
+        'started_at', _run.started_at, 'trigger', _run.trigger, 'triggered_by', _run.triggered_by
+      );
+    END IF;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.sync_runs (event_id, trigger, triggered_by, trigger_detail, request_id, status)
+    VALUES (_event_id, _trigger, _triggered_by, _trigger_detail, _request_id, 'running')
+    ON CONFLICT (event_id) WHERE status = 'running' DO NOTHING
+    RETURNING * INTO _run;
+  EXCEPTION WHEN unique_violation THEN
+    -- Only the request_id index is left to conflict on, so the other call's run is visible now
+    SELECT * INTO _run FROM public.sync_runs WHERE event_id = _event_id AND request_id = _request_id;
+    IF NOT FOUND THEN
+      RAISE;
+    END IF;
+    RETURN jsonb_build_object(
+      'acquired', false, 'duplicate', true, 'run_id', _run.id, 'status', _run.status,
+      'started_at', _run.started_at, 'trigger', _run.trigger, 'triggered_by', _run.triggered_by
+    );
+  END;
+
+  IF _run.id IS NOT NULL THEN
+    RETURN jsonb_build_object('acquired', true, 'run_id', _run.id, 'started_at', _run.started_at);
+  END IF;
+
+  SELECT * INTO _run FROM public.sync_runs WHERE event_id = _event_id AND status = 'running';
+  RETURN jsonb_build_object(
+    'acquired', false, 'duplicate', false, 'run_id', _run.id, 'status', _run.status,
+    'started_at', _run.started_at, 'trigger', _run.trigger, 'triggered_by', _run.triggered_by
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_sync_run(uuid, text, uuid, text, integer, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.start_sync_run(uuid, text, uuid, text, integer, text) TO service_role;
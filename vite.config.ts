@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -13,6 +14,14 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
+    },
+  },
+  test: {
+    // The edge functions import these from URLs, which only Deno can load; tests use the npm builds
+    alias: {
+      "https://esm.sh/papaparse@5.4.1": "papaparse",
+      "https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs": "xlsx",
     },
   },
 }));